@@ -1,99 +1,176 @@
-import { useState } from 'react'
-import ProductList from './components/organisms/product-list'
-import ProductFormModal from './components/organisms/product-form-modal'
-import DeleteConfirmationModal from './components/organisms/delete-confirmation-modal'
-import { Product } from './types/inventory'
+import { useState, type JSX } from 'react'
+import { NavLink, Outlet, useNavigate } from 'react-router'
+import { useQueryClient } from '@tanstack/react-query'
+import LoginScreen from './components/organisms/login-screen'
+import Toaster from './components/organisms/toaster'
+import ConnectionStatus from './components/organisms/connection-status'
+import ProductConflictDialog from './components/organisms/product-conflict-dialog'
+import Can from './components/molecules/can'
+import LocationSwitcher from './components/molecules/location-switcher'
+import { authApi, inventoryApi } from './services/api'
+import { useAuthStore } from './stores/auth-store'
+import { useConflictStore } from './stores/conflict-store'
+import { useOutboxStore } from './stores/outbox-store'
+import { useBarcodeScanner } from './hooks/use-barcode-scanner'
+import { useOutboxSync } from './hooks/use-outbox-sync'
+import { useLiveUpdates } from './hooks/use-live-updates'
+import { useProfileSync } from './hooks/use-profile-sync'
+import { usePermission } from './hooks/use-permission'
+import { cn, getErrorMessage } from './lib/utils'
+import { parseGs1, toPackGtin } from './lib/gs1'
+import { clearPersistedQueryCache } from './lib/query-persistence'
 
 /**
- * Main application component that manages the inventory system UI
+ * Main application layout: signs the user in, then renders the header
+ * navigation and the current route
+ * A barcode scanned outside a form field opens the matching product, or the
+ * create product form prefilled with the code when none matches.
  * @returns The root application component
  */
 function App(): JSX.Element {
-  const [isFormModalOpen, setIsFormModalOpen] = useState<boolean>(false)
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState<boolean>(false)
-  const [productToEdit, setProductToEdit] = useState<Product | null>(null)
-  const [productToDelete, setProductToDelete] = useState<Product | null>(null)
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
+  const { accessToken, refreshToken, user, clearSession } = useAuthStore()
+  const canCreate = usePermission('product.create')
+  const [scanMessage, setScanMessage] = useState<string | null>(null)
+  const { conflict, outboxEntry, closeConflict } = useConflictStore()
 
   /**
-   * Opens the form modal for creating a new product
+   * Opens the product with a scanned barcode
+   * @param code - Scanned EAN/UPC code or GS1 DataMatrix string
    */
-  const handleAddProduct = (): void => {
-    setProductToEdit(null)
-    setIsFormModalOpen(true)
-  }
+  const handleScan = async (code: string): Promise<void> => {
+    const gs1 = parseGs1(code)
+    const barcode = gs1?.gtin ? toPackGtin(gs1.gtin) : code.trim()
+    setScanMessage(null)
 
-  /**
-   * Opens the form modal for editing an existing product
-   * @param product - The product to edit
-   */
-  const handleEditProduct = (product: Product): void => {
-    setProductToEdit(product)
-    setIsFormModalOpen(true)
+    try {
+      const { results } = await inventoryApi.getProducts({ page: 1, pageSize: 1, barcode })
+      if (results.length > 0) {
+        navigate(`/products/${results[0].id}`)
+      } else if (canCreate) {
+        navigate('/products/new', {
+          state: { prefill: { barcode, ...(gs1?.expiryDate && { expiryDate: gs1.expiryDate }) } }
+        })
+      } else {
+        setScanMessage(`No product with barcode ${barcode}`)
+      }
+    } catch (error) {
+      setScanMessage(`Could not look up barcode ${barcode}: ${getErrorMessage(error)}`)
+    }
   }
 
-  /**
-   * Opens the delete confirmation modal for a product
-   * @param product - The product to delete
-   */
-  const handleDeleteClick = (product: Product): void => {
-    setProductToDelete(product)
-    setIsDeleteModalOpen(true)
-  }
+  useBarcodeScanner(handleScan, !!accessToken)
+  useOutboxSync(!!accessToken)
+  useLiveUpdates(!!accessToken)
+  useProfileSync(!!accessToken)
 
   /**
-   * Closes the form modal
+   * Signs out, revoking the refresh token and dropping cached data, also
+   * the copy kept for offline use
    */
-  const handleCloseFormModal = (): void => {
-    setIsFormModalOpen(false)
-    setProductToEdit(null)
+  const handleLogout = async (): Promise<void> => {
+    if (refreshToken) {
+      // The local session ends even if the server cannot be reached
+      await authApi.logout(refreshToken).catch(() => undefined)
+    }
+    clearSession()
+    // Queued changes stay on the device and are sent when their author signs in again
+    useOutboxStore.getState().setEntries([])
+    queryClient.clear()
+    await clearPersistedQueryCache().catch(() => undefined)
   }
 
   /**
-   * Closes the delete confirmation modal
+   * Class names for a header navigation link
+   * @param state - Link state
+   * @returns CSS class string
    */
-  const handleCloseDeleteModal = (): void => {
-    setIsDeleteModalOpen(false)
-    setProductToDelete(null)
+  const navLinkClass = ({ isActive }: { isActive: boolean }): string =>
+    cn('px-3 py-2 rounded', isActive ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900')
+
+  if (!accessToken) {
+    return <LoginScreen />
   }
 
   return (
     <div className="container mx-auto p-4">
       <header className="mb-6">
         <div className="flex justify-between items-center">
-          <h1 className="text-2xl font-bold">Pharmacy Inventory System</h1>
-          <button
-            onClick={handleAddProduct}
-            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
-          >
-            Add Product
-          </button>
+          <div className="flex items-center gap-6">
+            <h1 className="text-2xl font-bold">Pharmacy Inventory System</h1>
+            <nav className="flex gap-1">
+              <NavLink to="/dashboard" className={navLinkClass}>
+                Dashboard
+              </NavLink>
+              <NavLink to="/products" className={navLinkClass}>
+                Products
+              </NavLink>
+              <NavLink to="/reorder" className={navLinkClass}>
+                Reorder
+              </NavLink>
+              <NavLink to="/purchase-orders" className={navLinkClass}>
+                Purchase Orders
+              </NavLink>
+              <NavLink to="/transfers" className={navLinkClass}>
+                Transfers
+              </NavLink>
+              <NavLink to="/stocktakes" className={navLinkClass}>
+                Stocktake
+              </NavLink>
+              <NavLink to="/expired-stock" className={navLinkClass}>
+                Expired Stock
+              </NavLink>
+              <Can permission="product.delete">
+                <NavLink to="/trash" className={navLinkClass}>
+                  Trash
+                </NavLink>
+              </Can>
+            </nav>
+          </div>
+          <div className="flex items-center gap-2">
+            <LocationSwitcher />
+            <ConnectionStatus />
+            {user && (
+              <span className="text-sm text-gray-600 mr-2">
+                {user.firstName || user.username}
+              </span>
+            )}
+            <button
+              onClick={handleLogout}
+              className="text-gray-600 hover:text-gray-800 px-4 py-2"
+            >
+              Log Out
+            </button>
+          </div>
         </div>
       </header>
 
+      {scanMessage && (
+        <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm flex justify-between">
+          {scanMessage}
+          <button onClick={() => setScanMessage(null)} className="hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <main>
-        <ProductList 
-          onEdit={handleEditProduct} 
-          onDelete={handleDeleteClick} 
-        />
+        <Outlet />
       </main>
 
-      {isFormModalOpen && (
-        <ProductFormModal 
-          product={productToEdit} 
-          isOpen={isFormModalOpen} 
-          onClose={handleCloseFormModal} 
+      {conflict && (
+        <ProductConflictDialog
+          key={`${conflict.server.id}-${conflict.server.updatedAt}`}
+          conflict={conflict}
+          outboxEntry={outboxEntry}
+          onClose={closeConflict}
         />
       )}
 
-      {isDeleteModalOpen && productToDelete && (
-        <DeleteConfirmationModal 
-          product={productToDelete} 
-          isOpen={isDeleteModalOpen} 
-          onClose={handleCloseDeleteModal} 
-        />
-      )}
+      <Toaster />
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
@@ -0,0 +1,49 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import BenchmarkApp from './benchmark-app.tsx'
+import './index.css'
+import { MemoryRouter } from 'react-router'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useLocationStore } from './stores/location-store'
+import { parseProductListParams } from './hooks/use-product-list-params'
+import { buildProductQuery } from './lib/utils'
+import { generateProducts } from './lib/product-fixtures'
+
+// Dev-only entry for /benchmark.html (optionally ?rows=N): the product list
+// of the products page renders a generated catalog from a pre-filled query
+// cache, so no API is needed
+const rowCount = Number(new URLSearchParams(window.location.search).get('rows')) || 50_000
+const generateStart = performance.now()
+const products = generateProducts(rowCount)
+const generateMs = performance.now() - generateStart
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: Infinity,
+      refetchOnWindowFocus: false
+    }
+  }
+})
+
+// Show the whole catalog on one page and serve it from the cache, under the
+// key the list builds from its URL and the chosen location
+const listSearch = `?pageSize=${rowCount}`
+const { filters, page, pageSize, ordering } = parseProductListParams(new URLSearchParams(listSearch))
+const { locationId } = useLocationStore.getState()
+queryClient.setQueryData(['products', 'list', buildProductQuery(filters, page, pageSize, ordering, locationId)], {
+  count: products.length,
+  next: null,
+  previous: null,
+  results: products
+})
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={[`/products${listSearch}`]}>
+        <BenchmarkApp rowCount={rowCount} generateMs={generateMs} mountStart={performance.now()} />
+      </MemoryRouter>
+    </QueryClientProvider>
+  </React.StrictMode>,
+)
@@ -0,0 +1,50 @@
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getBatchStatus } from '@/lib/utils.ts';
+import type { ProductBatch } from '@/types/inventory.ts';
+
+interface BatchStatusBadgeProps {
+  readonly batch: ProductBatch;
+}
+
+export const BatchStatusBadge = ({ batch }: BatchStatusBadgeProps) => {
+  const status = getBatchStatus(batch);
+
+  if (status === 'expired') {
+    return (
+      <Badge 
+        variant="destructive"
+        className="flex items-center gap-1"
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Expired
+      </Badge>
+    );
+  }
+
+  if (status === 'expiringSoon') {
+    return (
+      <Badge 
+        variant="destructive"
+        className="flex items-center gap-1"
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Expiring Soon
+      </Badge>
+    );
+  }
+
+  if (status === 'depleted') {
+    return (
+      <Badge variant="outline">
+        Depleted
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary">
+      Valid
+    </Badge>
+  );
+};
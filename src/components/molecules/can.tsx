@@ -0,0 +1,24 @@
+import type { JSX, ReactNode } from 'react'
+import type { Permission } from '../../types/auth'
+import { usePermission } from '../../hooks/use-permission'
+
+interface CanProps {
+  /** Permission required to render the children */
+  readonly permission: Permission;
+  /** Content shown when the user has the permission */
+  readonly children: ReactNode;
+  /** Content shown instead when the user lacks the permission */
+  readonly fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only when the signed-in user has a permission
+ * @param props - Component props
+ * @returns The children, the fallback or nothing
+ */
+function Can({ permission, children, fallback = null }: CanProps): JSX.Element {
+  const allowed = usePermission(permission)
+  return <>{allowed ? children : fallback}</>
+}
+
+export default Can
@@ -0,0 +1,131 @@
+import { useState, type JSX } from 'react'
+import { Download } from 'lucide-react'
+import type { Product, ProductExportColumn, ProductQuery } from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { getErrorMessage, scopeProductToLocation } from '../../lib/utils'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  PRODUCT_EXPORT_COLUMNS,
+  exportProductsCsv,
+  exportProductsXlsx,
+  printProducts
+} from '../../lib/product-export'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+interface ExportMenuProps {
+  /** Filters and sort order of the list being exported */
+  readonly query: Omit<ProductQuery, 'page' | 'pageSize'>;
+}
+
+type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+const EXPORTERS: Record<
+  ExportFormat,
+  (products: readonly Product[], columns: readonly ProductExportColumn[], query: Omit<ProductQuery, 'page' | 'pageSize'>) => void
+> = {
+  csv: exportProductsCsv,
+  xlsx: exportProductsXlsx,
+  pdf: printProducts
+}
+
+/**
+ * Export menu for the product list
+ * Exports every product matching the current filters, across all pages,
+ * in the current sort order, with the stock at the chosen location.
+ * @param props - Component props
+ * @returns Export menu component
+ */
+function ExportMenu({ query }: ExportMenuProps): JSX.Element {
+  const [columns, setColumns] = useState<readonly ProductExportColumn[]>(DEFAULT_EXPORT_COLUMNS)
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  /**
+   * Toggle a column in or out of the export
+   * @param column - Column to toggle
+   */
+  const toggleColumn = (column: ProductExportColumn): void => {
+    setColumns((prev) =>
+      prev.includes(column) ? prev.filter((selected) => selected !== column) : [...prev, column]
+    )
+  }
+
+  /**
+   * Fetch all matching products and write them in the chosen format
+   * @param exportFormat - File format to write
+   */
+  const handleExport = async (exportFormat: ExportFormat): Promise<void> => {
+    setExportingFormat(exportFormat)
+    setExportError(null)
+    try {
+      const products = (await inventoryApi.getAllProducts(query)).map((product) =>
+        scopeProductToLocation(product, query.location ?? null)
+      )
+      EXPORTERS[exportFormat](products, columns, query)
+    } catch (error) {
+      setExportError(getErrorMessage(error))
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium mb-2">Columns</legend>
+          {PRODUCT_EXPORT_COLUMNS.map(({ column, label }) => (
+            <label key={column} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={columns.includes(column)}
+                onChange={() => toggleColumn(column)}
+              />
+              {label}
+            </label>
+          ))}
+        </fieldset>
+
+        {exportError && (
+          <p className="mt-3 text-sm text-red-600">{exportError}</p>
+        )}
+
+        <div className="mt-4 grid grid-cols-3 gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleExport('csv')}
+            disabled={columns.length === 0 || exportingFormat !== null}
+          >
+            {exportingFormat === 'csv' ? '...' : 'CSV'}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleExport('xlsx')}
+            disabled={columns.length === 0 || exportingFormat !== null}
+          >
+            {exportingFormat === 'xlsx' ? '...' : 'Excel'}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleExport('pdf')}
+            disabled={columns.length === 0 || exportingFormat !== null}
+          >
+            {exportingFormat === 'pdf' ? '...' : 'PDF'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,51 @@
+import type { JSX } from 'react'
+import type { Location } from '../../types/location'
+import { useLocations } from '../../hooks/use-locations'
+import { useLocationStore } from '../../stores/location-store'
+
+/**
+ * Groups locations by branch, keeping the server's order
+ * @param locations - Locations to group
+ * @returns Branch names with their locations
+ */
+const groupByBranch = (locations: readonly Location[]): [string, Location[]][] => {
+  const groups = new Map<string, Location[]>()
+  for (const location of locations) {
+    groups.set(location.branch, [...(groups.get(location.branch) ?? []), location])
+  }
+  return [...groups.entries()]
+}
+
+/**
+ * Header select choosing the location the product list, its filters and
+ * the stock badges are scoped to
+ * @returns Location switcher component
+ */
+function LocationSwitcher(): JSX.Element | null {
+  const { data: locations = [] } = useLocations()
+  const { locationId, setLocationId } = useLocationStore()
+
+  if (locations.length === 0) return null
+
+  return (
+    <select
+      aria-label="Location"
+      value={locationId ?? ''}
+      onChange={(e) => setLocationId(e.target.value ? Number(e.target.value) : null)}
+      className="px-3 py-1 border border-gray-300 rounded-md bg-white text-sm"
+    >
+      <option value="">All locations</option>
+      {groupByBranch(locations).map(([branch, branchLocations]) => (
+        <optgroup key={branch} label={branch}>
+          {branchLocations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  )
+}
+
+export default LocationSwitcher
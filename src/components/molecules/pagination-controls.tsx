@@ -0,0 +1,76 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { INVENTORY_CONSTANTS } from '@/types/inventory.ts';
+
+interface PaginationControlsProps {
+  readonly page: number;
+  readonly pageSize: number;
+  readonly count: number;
+  readonly onPageChange: (page: number) => void;
+  readonly onPageSizeChange: (pageSize: number) => void;
+  readonly isFetching?: boolean;
+}
+
+/**
+ * Page navigation and page size selector for paginated lists
+ */
+export const PaginationControls = ({
+  page,
+  pageSize,
+  count,
+  onPageChange,
+  onPageSizeChange,
+  isFetching = false,
+}: PaginationControlsProps) => {
+  const pageCount = Math.max(1, Math.ceil(count / pageSize));
+  const firstItem = count === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, count);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 py-3 text-sm text-gray-600">
+      <div className="flex items-center gap-2">
+        <label htmlFor="pageSize">Rows per page</label>
+        <select
+          id="pageSize"
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          {INVENTORY_CONSTANTS.PAGE_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span>
+          {firstItem}–{lastItem} of {count}
+          {isFetching && <span className="ml-2 text-gray-400">Updating...</span>}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span>
+          Page {page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
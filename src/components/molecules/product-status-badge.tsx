@@ -1,6 +1,6 @@
 import { AlertTriangle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { isLowStock, isExpiringSoon } from '@/lib/utils.ts';
+import { isLowStock, getProductStock, hasExpiredStock, hasExpiringStock } from '@/lib/utils.ts';
 import type { Product } from '@/types/inventory.ts';
 
 interface ProductStatusBadgeProps {
@@ -8,57 +8,37 @@ interface ProductStatusBadgeProps {
 }
 
 export const ProductStatusBadge = ({ product }: ProductStatusBadgeProps) => {
-  const lowStock = isLowStock(product.stockQuantity);
-  const expiringSoon = isExpiringSoon(product.expiryDate);
+  const stock = getProductStock(product);
+  const lowStock = isLowStock(stock, product.minimumStockThreshold);
+  const expired = hasExpiredStock(product);
+  const expiringSoon = hasExpiringStock(product);
+  const warnings = [
+    stock === 0 && 'Out of Stock',
+    lowStock && 'Low Stock',
+    expired && 'Expired Stock',
+    expiringSoon && 'Expiring Soon',
+  ].filter((warning): warning is string => Boolean(warning));
 
-  if (lowStock && expiringSoon) {
+  if (warnings.length === 0) {
     return (
-      <div className="flex gap-1">
-        <Badge 
-          variant="destructive"
-          className="flex items-center gap-1"
-        >
-          <AlertTriangle className="h-3 w-3" />
-          Low Stock
-        </Badge>
+      <Badge variant="secondary">
+        In Stock
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="flex gap-1">
+      {warnings.map((warning) => (
         <Badge 
+          key={warning}
           variant="destructive"
           className="flex items-center gap-1"
         >
           <AlertTriangle className="h-3 w-3" />
-          Expiring Soon
+          {warning}
         </Badge>
-      </div>
-    );
-  }
-
-  if (lowStock) {
-    return (
-      <Badge 
-        variant="destructive"
-        className="flex items-center gap-1"
-      >
-        <AlertTriangle className="h-3 w-3" />
-        Low Stock
-      </Badge>
-    );
-  }
-
-  if (expiringSoon) {
-    return (
-      <Badge 
-        variant="destructive"
-        className="flex items-center gap-1"
-      >
-        <AlertTriangle className="h-3 w-3" />
-        Expiring Soon
-      </Badge>
-    );
-  }
-
-  return (
-    <Badge variant="secondary">
-      In Stock
-    </Badge>
+      ))}
+    </div>
   );
 };
@@ -0,0 +1,31 @@
+import type { JSX } from 'react'
+import type { PurchaseOrderStatus } from '../../types/purchase-order'
+import { PURCHASE_ORDER_STATUS_LABELS } from '../../types/purchase-order'
+import { cn } from '../../lib/utils'
+
+interface PurchaseOrderStatusBadgeProps {
+  /** Status to show */
+  readonly status: PurchaseOrderStatus;
+}
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800'
+}
+
+/**
+ * Colored badge for a purchase order status
+ * @param props - Component props
+ * @returns Status badge component
+ */
+function PurchaseOrderStatusBadge({ status }: PurchaseOrderStatusBadgeProps): JSX.Element {
+  return (
+    <span className={cn('px-2 py-1 rounded-full text-xs font-medium', STATUS_CLASSES[status])}>
+      {PURCHASE_ORDER_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+export default PurchaseOrderStatusBadge
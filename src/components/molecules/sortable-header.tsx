@@ -0,0 +1,35 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils.ts';
+import type { ProductOrdering, ProductSortField } from '@/types/inventory.ts';
+
+interface SortableHeaderProps {
+  readonly label: string;
+  readonly field: ProductSortField;
+  readonly ordering: ProductOrdering | undefined;
+  readonly onSort: (field: ProductSortField) => void;
+  readonly className?: string;
+}
+
+/**
+ * Table header cell that sorts the list by its column when clicked
+ */
+export const SortableHeader = ({ label, field, ordering, onSort, className }: SortableHeaderProps) => {
+  const direction = ordering === field ? 'asc' : ordering === `-${field}` ? 'desc' : null;
+  const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+
+  return (
+    <th
+      className={className}
+      aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className="inline-flex items-center gap-1 hover:text-gray-900"
+      >
+        {label}
+        <Icon className={cn('h-3 w-3', !direction && 'text-gray-300')} />
+      </button>
+    </th>
+  );
+};
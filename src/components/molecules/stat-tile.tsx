@@ -0,0 +1,39 @@
+import type { JSX } from 'react'
+import { Link, type To } from 'react-router'
+import { cn } from '../../lib/utils'
+
+interface StatTileProps {
+  /** Figure being shown */
+  readonly label: string;
+  /** Formatted value */
+  readonly value: string | number;
+  /** Page opened when the tile is clicked */
+  readonly to: To;
+  /** Color of the value */
+  readonly tone?: 'default' | 'warning' | 'danger';
+}
+
+const TONE_CLASSES: Record<NonNullable<StatTileProps['tone']>, string> = {
+  default: 'text-gray-900',
+  warning: 'text-orange-600',
+  danger: 'text-red-600'
+}
+
+/**
+ * Dashboard tile showing a single figure that links to the matching list
+ * @param props - Component props
+ * @returns Stat tile component
+ */
+function StatTile({ label, value, to, tone = 'default' }: StatTileProps): JSX.Element {
+  return (
+    <Link
+      to={to}
+      className="block bg-white border rounded-lg p-4 hover:border-blue-400 hover:shadow-sm transition-shadow"
+    >
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className={cn('text-2xl font-semibold mt-1', TONE_CLASSES[tone])}>{value}</p>
+    </Link>
+  )
+}
+
+export default StatTile
@@ -0,0 +1,30 @@
+import type { JSX } from 'react'
+import type { StocktakeStatus } from '../../types/stocktake'
+import { STOCKTAKE_STATUS_LABELS } from '../../types/stocktake'
+import { cn } from '../../lib/utils'
+
+interface StocktakeStatusBadgeProps {
+  /** Status to show */
+  readonly status: StocktakeStatus;
+}
+
+const STATUS_CLASSES: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+/**
+ * Colored badge for a stocktake status
+ * @param props - Component props
+ * @returns Status badge component
+ */
+function StocktakeStatusBadge({ status }: StocktakeStatusBadgeProps): JSX.Element {
+  return (
+    <span className={cn('px-2 py-1 rounded-full text-xs font-medium', STATUS_CLASSES[status])}>
+      {STOCKTAKE_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+export default StocktakeStatusBadge
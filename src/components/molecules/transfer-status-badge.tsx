@@ -0,0 +1,32 @@
+import type { JSX } from 'react'
+import type { TransferStatus } from '../../types/transfer'
+import { TRANSFER_STATUS_LABELS } from '../../types/transfer'
+import { cn } from '../../lib/utils'
+
+interface TransferStatusBadgeProps {
+  /** Status to show */
+  readonly status: TransferStatus;
+}
+
+const STATUS_CLASSES: Record<TransferStatus, string> = {
+  requested: 'bg-gray-100 text-gray-800',
+  approved: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+}
+
+/**
+ * Colored badge for a transfer status
+ * @param props - Component props
+ * @returns Status badge component
+ */
+function TransferStatusBadge({ status }: TransferStatusBadgeProps): JSX.Element {
+  return (
+    <span className={cn('px-2 py-1 rounded-full text-xs font-medium', STATUS_CLASSES[status])}>
+      {TRANSFER_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+export default TransferStatusBadge
@@ -0,0 +1,324 @@
+import { useState, type JSX } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Download } from 'lucide-react'
+import type { BulkProductAction, BulkProductActionType, BulkProductResult, Product } from '../../types/inventory'
+import { BULK_PRODUCT_ACTION_LABELS } from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { cn, getErrorMessage } from '../../lib/utils'
+import { describeBulkAction, previewBulkAction } from '../../lib/bulk-actions'
+import { downloadFile, toCsv } from '../../lib/spreadsheet'
+import { offerDeleteUndo } from '../../lib/undo'
+import { VirtualizedTable } from './virtualized-table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface BulkActionDialogProps {
+  /** Kind of change to apply */
+  readonly actionType: BulkProductActionType;
+  /** Products to change */
+  readonly products: readonly Product[];
+  /** Dialog open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+  /** Handler called once all batches ran, with the products that failed */
+  readonly onCompleted: (failed: Product[]) => void;
+}
+
+type BulkStep = 'edit' | 'confirm' | 'apply'
+
+// Products sent per bulk request
+const BULK_BATCH_SIZE = 100
+
+const RESULT_STYLES: Record<BulkProductResult['status'], string> = {
+  success: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+// Label of the value entered for each action
+const VALUE_LABELS: Record<BulkProductActionType, string> = {
+  set_category: 'New category',
+  set_supplier: 'New supplier',
+  adjust_price: 'Price change (%)',
+  set_minimum_stock_threshold: 'Minimum stock threshold',
+  delete: ''
+}
+
+/**
+ * Builds the action from the entered value
+ * @param actionType - Kind of action
+ * @param value - Entered value
+ * @returns Action, or null while the value is missing or invalid
+ */
+function toAction(actionType: BulkProductActionType, value: string): BulkProductAction | null {
+  const text = value.trim()
+  const number = Number(text)
+  switch (actionType) {
+    case 'set_category':
+      return text ? { type: actionType, category: text } : null
+    case 'set_supplier':
+      return text ? { type: actionType, supplier: text } : null
+    case 'adjust_price':
+      return text && Number.isFinite(number) && number !== 0 && number > -100 ? { type: actionType, percent: number } : null
+    case 'set_minimum_stock_threshold':
+      return text && Number.isInteger(number) && number >= 0 ? { type: actionType, minimumStockThreshold: number } : null
+    case 'delete':
+      return { type: actionType }
+  }
+}
+
+/**
+ * Dialog for applying one change to many products: enter the new value,
+ * confirm a summary of every affected product, then apply it in batches
+ * and report the outcome of each product
+ * @param props - Component props
+ * @returns Bulk action dialog component
+ */
+function BulkActionDialog({
+  actionType,
+  products,
+  isOpen,
+  onClose,
+  onCompleted
+}: BulkActionDialogProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const [step, setStep] = useState<BulkStep>(actionType === 'delete' ? 'confirm' : 'edit')
+  const [value, setValue] = useState<string>('')
+  const [results, setResults] = useState<BulkProductResult[]>([])
+  const [isApplying, setIsApplying] = useState<boolean>(false)
+
+  // Suggest existing categories
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => inventoryApi.getCategories(),
+    enabled: actionType === 'set_category'
+  })
+
+  const action = toAction(actionType, value)
+  const productNames = new Map(products.map((product) => [product.id, product.name]))
+  const failedResults = results.filter((result) => result.status === 'failed')
+  const total = products.length
+  const progress = total === 0 ? 100 : Math.round((results.length / total) * 100)
+
+  /**
+   * Apply the action in batches, recording the outcome of each product
+   */
+  const handleApply = async (): Promise<void> => {
+    if (!action) return
+    setStep('apply')
+    setIsApplying(true)
+    setResults([])
+
+    const allResults: BulkProductResult[] = []
+    for (let start = 0; start < products.length; start += BULK_BATCH_SIZE) {
+      const batch = products.slice(start, start + BULK_BATCH_SIZE)
+      let batchResults: BulkProductResult[]
+      try {
+        batchResults = await inventoryApi.bulkUpdateProducts(batch.map(({ id }) => id), action)
+      } catch (error) {
+        // The whole request failed, so none of its products were changed
+        const message = getErrorMessage(error)
+        batchResults = batch.map(({ id }) => ({ productId: id, status: 'failed', error: message }))
+      }
+      allResults.push(...batchResults)
+      setResults((prev) => [...prev, ...batchResults])
+    }
+
+    setIsApplying(false)
+    queryClient.invalidateQueries({ queryKey: ['products'] })
+    queryClient.invalidateQueries({ queryKey: ['categories'] })
+    const failedIds = new Set(allResults.filter((result) => result.status === 'failed').map(({ productId }) => productId))
+    if (action.type === 'delete') {
+      offerDeleteUndo(queryClient, products.filter(({ id }) => !failedIds.has(id)))
+    }
+    onCompleted(products.filter(({ id }) => failedIds.has(id)))
+  }
+
+  /**
+   * Download a CSV listing every product that failed
+   */
+  const handleDownloadErrors = (): void => {
+    downloadFile(
+      toCsv([
+        ['Product ID', 'Name', 'Error'],
+        ...failedResults.map((result) => [result.productId, productNames.get(result.productId) ?? '', result.error ?? ''])
+      ]),
+      `bulk-${actionType}-errors.csv`,
+      'text/csv;charset=utf-8'
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isApplying && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{BULK_PRODUCT_ACTION_LABELS[actionType]}</DialogTitle>
+          <DialogDescription>
+            {step === 'edit' && `Applies to ${total} selected ${total === 1 ? 'product' : 'products'}.`}
+            {step === 'confirm' && 'Check the changes before applying them.'}
+            {step === 'apply' && (isApplying ? 'Applying changes...' : 'Finished.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'edit' && (
+          <div>
+            <Label htmlFor="bulkValue">{VALUE_LABELS[actionType]}</Label>
+            <Input
+              id="bulkValue"
+              type={actionType === 'set_category' || actionType === 'set_supplier' ? 'text' : 'number'}
+              step={actionType === 'adjust_price' ? '0.1' : '1'}
+              list={actionType === 'set_category' ? 'bulkCategories' : undefined}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+              className="mt-1"
+            />
+            {actionType === 'set_category' && (
+              <datalist id="bulkCategories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+            )}
+            {actionType === 'adjust_price' && (
+              <p className="mt-1 text-xs text-gray-500">Use a negative percentage to lower prices.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'confirm' && action && (
+          <div className="space-y-3">
+            <p className={cn('text-sm font-medium', actionType === 'delete' && 'text-red-700')}>
+              {describeBulkAction(action, total)}
+            </p>
+            <VirtualizedTable
+              rows={products}
+              getRowKey={(product) => product.id}
+              columnCount={3}
+              className="max-h-80 border rounded-md"
+              tableClassName="w-full text-sm"
+              headerClassName="bg-gray-100"
+              rowClassName="border-t"
+              header={
+                <>
+                  <th className="px-3 py-2 text-left">Product</th>
+                  <th className="px-3 py-2 text-left">Current</th>
+                  <th className="px-3 py-2 text-left">New</th>
+                </>
+              }
+              renderRow={(product) => {
+                const preview = previewBulkAction(product, action)
+                return (
+                  <>
+                    <td className="px-3 py-2">{product.name}</td>
+                    <td className="px-3 py-2 text-gray-500">{preview?.before ?? '—'}</td>
+                    <td className="px-3 py-2">{preview?.after ?? 'Moved to trash'}</td>
+                  </>
+                )
+              }}
+            />
+          </div>
+        )}
+
+        {step === 'apply' && (
+          <div className="space-y-3">
+            <div className="h-3 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${progress}%` }}
+                role="progressbar"
+                aria-valuenow={progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+            <p className="text-sm text-gray-600">
+              {results.length} of {total} products processed
+              {failedResults.length > 0 && (
+                <span className="text-red-600"> ({failedResults.length} failed)</span>
+              )}
+            </p>
+            {results.length > 0 && (
+              <VirtualizedTable
+                rows={results}
+                getRowKey={(result) => result.productId}
+                columnCount={3}
+                className="max-h-80 border rounded-md"
+                tableClassName="w-full text-sm"
+                headerClassName="bg-gray-100"
+                rowClassName="border-t"
+                header={
+                  <>
+                    <th className="px-3 py-2 text-left">Product</th>
+                    <th className="px-3 py-2 text-left">Result</th>
+                    <th className="px-3 py-2 text-left">Error</th>
+                  </>
+                }
+                renderRow={(result) => (
+                  <>
+                    <td className="px-3 py-2">{productNames.get(result.productId) ?? `#${result.productId}`}</td>
+                    <td className="px-3 py-2">
+                      <span className={cn('px-2 py-1 rounded-full text-xs font-medium', RESULT_STYLES[result.status])}>
+                        {result.status === 'success' ? 'Done' : 'Failed'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-red-600">{result.error}</td>
+                  </>
+                )}
+              />
+            )}
+            {!isApplying && failedResults.length > 0 && (
+              <p className="text-sm">The failed products stay selected so the action can be retried.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {failedResults.length > 0 && !isApplying && (
+            <Button variant="outline" onClick={handleDownloadErrors} className="sm:mr-auto">
+              <Download className="h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+          {step === 'edit' && (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={() => setStep('confirm')} disabled={!action}>
+                Review
+              </Button>
+            </>
+          )}
+          {step === 'confirm' && (
+            <>
+              <Button variant="outline" onClick={() => (actionType === 'delete' ? onClose() : setStep('edit'))}>
+                {actionType === 'delete' ? 'Cancel' : 'Back'}
+              </Button>
+              <Button
+                variant={actionType === 'delete' ? 'destructive' : 'default'}
+                onClick={handleApply}
+                disabled={total === 0}
+              >
+                {actionType === 'delete' ? 'Move' : 'Apply to'} {total} {total === 1 ? 'Product' : 'Products'}
+                {actionType === 'delete' && ' to Trash'}
+              </Button>
+            </>
+          )}
+          {step === 'apply' && !isApplying && (
+            <Button onClick={onClose}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default BulkActionDialog
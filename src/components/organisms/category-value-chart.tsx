@@ -0,0 +1,52 @@
+import type { JSX } from 'react'
+import { Link } from 'react-router'
+import type { CategoryValue } from '../../types/inventory'
+import { formatCurrency } from '../../lib/utils'
+import { toProductListSearch } from '../../hooks/use-product-list-params'
+
+interface CategoryValueChartProps {
+  /** Stock value per category, highest first */
+  readonly categories: readonly CategoryValue[];
+}
+
+/**
+ * Horizontal bar chart of stock value per category; each bar opens the
+ * product list filtered to its category
+ * @param props - Component props
+ * @returns Category value chart component
+ */
+function CategoryValueChart({ categories }: CategoryValueChartProps): JSX.Element {
+  const maxValue = Math.max(...categories.map(({ value }) => value), 0)
+
+  if (categories.length === 0) {
+    return <p className="text-sm text-gray-500">No products yet.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {categories.map(({ category, value, productCount }) => (
+        <li key={category}>
+          <Link
+            to={{ pathname: '/products', search: toProductListSearch({ category }) }}
+            className="block group"
+          >
+            <div className="flex justify-between text-sm mb-1">
+              <span className="group-hover:underline">
+                {category} <span className="text-gray-400">({productCount})</span>
+              </span>
+              <span className="font-medium">{formatCurrency(value)}</span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded">
+              <div
+                className="h-2 bg-blue-500 rounded group-hover:bg-blue-600"
+                style={{ width: `${maxValue > 0 ? (value / maxValue) * 100 : 0}%` }}
+              />
+            </div>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default CategoryValueChart
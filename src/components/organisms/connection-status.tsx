@@ -0,0 +1,146 @@
+import type { JSX } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { OutboxEntry, OutboxEntryStatus } from '../../types/offline'
+import { useOutboxStore } from '../../stores/outbox-store'
+import { useConflictStore } from '../../stores/conflict-store'
+import { showToast } from '../../stores/toast-store'
+import { discardOutboxEntry, replayOutbox, retryOutboxEntry } from '../../lib/outbox'
+import { cn, formatDate, getErrorMessage } from '../../lib/utils'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+const STATUS_LABELS: Record<OutboxEntryStatus, string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Changed on the server meanwhile',
+  failed: 'Rejected by the server'
+}
+
+/**
+ * Header indicator showing whether the app is online and how many changes
+ * made offline are still waiting to be synced; opens a list of the queued
+ * changes where conflicting or rejected ones can be retried or discarded
+ * @returns Connection status component
+ */
+function ConnectionStatus(): JSX.Element {
+  const queryClient = useQueryClient()
+  const { entries, isOnline, isSyncing } = useOutboxStore()
+  const openConflict = useConflictStore((state) => state.openConflict)
+  const problemCount = entries.filter((entry) => entry.status !== 'pending').length
+
+  /**
+   * Runs an outbox action, reporting failures in a toast
+   * @param action - Action to run
+   */
+  const run = (action: () => Promise<unknown>): void => {
+    action().catch((error: unknown) => showToast(`Sync failed: ${getErrorMessage(error)}`, { variant: 'error' }))
+  }
+
+  /**
+   * Retries a rejected change, or opens the merge dialog for a conflict
+   * @param entry - Queued change
+   */
+  const handleRetry = (entry: OutboxEntry): void => {
+    const { mutation, serverProduct } = entry
+    if (entry.status === 'conflict' && mutation.type === 'update_product' && serverProduct) {
+      openConflict({ base: mutation.base, mine: mutation.data, server: serverProduct }, entry)
+      return
+    }
+    run(() => retryOutboxEntry(queryClient, entry))
+  }
+
+  /**
+   * Drops a queued change
+   * @param entry - Queued change
+   */
+  const handleDiscard = (entry: OutboxEntry): void => {
+    run(() => discardOutboxEntry(queryClient, entry))
+  }
+
+  const label = !isOnline
+    ? 'Offline'
+    : isSyncing
+    ? 'Syncing...'
+    : entries.length > 0
+    ? `${entries.length} pending`
+    : 'Online'
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-2 px-3 py-1 rounded-full border text-sm text-gray-700 hover:bg-gray-50"
+          aria-label={`Connection: ${label}`}
+        >
+          <span
+            className={cn(
+              'h-2 w-2 rounded-full',
+              !isOnline ? 'bg-gray-400' : problemCount > 0 ? 'bg-red-500' : entries.length > 0 ? 'bg-yellow-500' : 'bg-green-500'
+            )}
+          />
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {isOnline
+              ? 'Connected to the server.'
+              : 'The server cannot be reached. Cached products stay readable and changes are saved on this device.'}
+          </p>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes waiting to sync.</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto divide-y text-sm">
+              {entries.map((entry) => (
+                <li key={entry.id} className="py-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{entry.label}</span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {formatDate(entry.queuedAt, 'MMM dd HH:mm')}
+                    </span>
+                  </div>
+                  <div className={cn('text-xs', entry.status === 'pending' ? 'text-gray-500' : 'text-red-600')}>
+                    {STATUS_LABELS[entry.status]}
+                    {entry.error && `: ${entry.error}`}
+                  </div>
+                  {entry.status !== 'pending' && (
+                    <div className="flex gap-3 mt-1">
+                      <button
+                        onClick={() => handleRetry(entry)}
+                        disabled={!isOnline || isSyncing}
+                        className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {entry.status === 'conflict' ? 'Review and merge' : 'Retry'}
+                      </button>
+                      <button
+                        onClick={() => handleDiscard(entry)}
+                        disabled={isSyncing}
+                        className="text-xs text-red-600 hover:text-red-800 disabled:text-gray-400"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {entries.length > 0 && (
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!isOnline || isSyncing}
+              onClick={() => run(() => replayOutbox(queryClient))}
+            >
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default ConnectionStatus
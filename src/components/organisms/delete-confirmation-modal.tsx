@@ -1,6 +1,5 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { Product } from '../../types/inventory'
-import { inventoryApi } from '../../services/api'
+import { useDeleteProduct } from '../../hooks/use-inventory'
 
 interface DeleteConfirmationModalProps {
   /** Product to be deleted */
@@ -9,34 +8,33 @@ interface DeleteConfirmationModalProps {
   readonly isOpen: boolean;
   /** Handler for closing the modal */
   readonly onClose: () => void;
+  /** Optional handler called after the product was deleted */
+  readonly onDeleted?: () => void;
 }
 
 /**
- * Modal for confirming product deletion
+ * Modal for confirming product deletion; the product is moved to the trash
+ * and a toast offers to undo the deletion
  * @param props - Component props
  * @returns Delete confirmation modal component
  */
 function DeleteConfirmationModal({ 
   product, 
   isOpen, 
-  onClose 
+  onClose,
+  onDeleted
 }: DeleteConfirmationModalProps): JSX.Element | null {
-  const queryClient = useQueryClient()
-  
-  // Delete product mutation
-  const deleteMutation = useMutation({
-    mutationFn: (productId: number) => inventoryApi.deleteProduct(productId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] })
-      onClose()
-    }
-  })
+  // Removes the product from the cached lists before the server answers
+  const deleteMutation = useDeleteProduct()
 
   /**
-   * Handle delete confirmation
+   * Handle delete confirmation; the modal closes straight away and a toast
+   * reports a rejected deletion
    */
   const handleConfirmDelete = (): void => {
-    deleteMutation.mutate(product.id)
+    deleteMutation.mutate(product)
+    onClose()
+    onDeleted?.()
   }
 
   if (!isOpen) return null
@@ -47,7 +45,7 @@ function DeleteConfirmationModal({
         <h2 className="text-xl font-semibold mb-4">Confirm Deletion</h2>
         
         <p className="mb-6">
-          Are you sure you want to delete the product "{product.name}"? This action cannot be undone.
+          Move the product "{product.name}" to the trash? It can be restored from the trash later.
         </p>
         
         <div className="flex justify-end space-x-3">
@@ -62,7 +60,7 @@ function DeleteConfirmationModal({
             disabled={deleteMutation.isPending}
             className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-md"
           >
-            {deleteMutation.isPending ? 'Deleting...' : 'Delete Product'}
+            {deleteMutation.isPending ? 'Deleting...' : 'Move to Trash'}
           </button>
         </div>
       </div>
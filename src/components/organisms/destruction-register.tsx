@@ -0,0 +1,107 @@
+import { useState, type JSX } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { format, startOfMonth } from 'date-fns'
+import { DISPOSAL_METHOD_LABELS, WRITE_OFF_REASON_LABELS } from '../../types/disposal'
+import { inventoryApi } from '../../services/api'
+import { printDestructionRegister } from '../../lib/disposal'
+import { formatCurrency, formatDate, getErrorMessage } from '../../lib/utils'
+
+/**
+ * Destruction register for a date range, the current month by default,
+ * with a printable copy for the regulator
+ * @returns Destruction register component
+ */
+function DestructionRegister(): JSX.Element {
+  const [from, setFrom] = useState<string>(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [to, setTo] = useState<string>(() => format(new Date(), 'yyyy-MM-dd'))
+  const query = { from: from || undefined, to: to || undefined }
+
+  // Fetch the register entries of the range
+  const { data: records = [], isLoading, isError, error } = useQuery({
+    queryKey: ['destruction-register', query],
+    queryFn: () => inventoryApi.getDestructionRegister(query)
+  })
+
+  return (
+    <section className="space-y-3">
+      <div className="flex justify-between items-end">
+        <h3 className="text-sm font-semibold">Destruction Register</h3>
+        <div className="flex items-end gap-2">
+          <label className="text-sm">
+            <span className="block text-gray-500">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-500">To</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <button
+            onClick={() => printDestructionRegister(records, query)}
+            disabled={records.length === 0}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded disabled:text-gray-400"
+          >
+            Print / PDF
+          </button>
+        </div>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading register...</p>}
+
+      {isError && (
+        <p className="text-sm text-red-600">Error loading the destruction register: {getErrorMessage(error)}</p>
+      )}
+
+      {!isLoading && !isError && records.length === 0 && (
+        <p className="text-sm text-gray-500">Nothing was written off in this period.</p>
+      )}
+
+      {records.length > 0 && (
+        <table className="w-full border-collapse text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="px-4 py-2">Entry</th>
+              <th className="px-4 py-2">Date</th>
+              <th className="px-4 py-2">Product</th>
+              <th className="px-4 py-2">Lot</th>
+              <th className="px-4 py-2 text-right">Units</th>
+              <th className="px-4 py-2 text-right">Value</th>
+              <th className="px-4 py-2">Reason</th>
+              <th className="px-4 py-2">Method</th>
+              <th className="px-4 py-2">By / Witness</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record) => (
+              <tr key={record.id} className="border-t align-top">
+                <td className="px-4 py-2">{record.number}</td>
+                <td className="px-4 py-2">{formatDate(record.destroyedAt, 'MMM dd, yyyy HH:mm')}</td>
+                <td className="px-4 py-2">
+                  <div className="font-medium">{record.productName}</div>
+                  {record.sku && <div className="text-xs text-gray-500">{record.sku}</div>}
+                </td>
+                <td className="px-4 py-2">{record.lotNumber}</td>
+                <td className="px-4 py-2 text-right">{record.quantity}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(record.value)}</td>
+                <td className="px-4 py-2">{WRITE_OFF_REASON_LABELS[record.reason]}</td>
+                <td className="px-4 py-2">{DISPOSAL_METHOD_LABELS[record.method]}</td>
+                <td className="px-4 py-2">{record.destroyedBy} / {record.witness}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  )
+}
+
+export default DestructionRegister
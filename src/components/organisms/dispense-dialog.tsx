@@ -0,0 +1,135 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { Product } from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { useIdempotencyKey } from '../../hooks/use-idempotency-key'
+import { allocateFefo, formatDate, getProductStock } from '../../lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface DispenseDialogProps {
+  /** Product to dispense */
+  readonly product: Product;
+  /** Dialog open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+}
+
+/**
+ * Dialog for dispensing a product, taking stock from batches in
+ * first-expired-first-out order
+ * @param props - Component props
+ * @returns Dispense dialog component
+ */
+function DispenseDialog({ product, isOpen, onClose }: DispenseDialogProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const [quantity, setQuantity] = useState<number>(1)
+  // A repeated submit of the same split is applied only once; a changed one is a new dispense
+  const dispenseKey = useIdempotencyKey()
+
+  const { allocations, shortfall } = allocateFefo(product.batches, quantity)
+  const canDispense = quantity > 0 && shortfall === 0 && allocations.length > 0
+
+  // Dispense mutation
+  const dispenseMutation = useMutation({
+    mutationFn: () => {
+      const request = { productId: product.id, quantity, allocations }
+      return inventoryApi.dispense(request, dispenseKey.getKey(request))
+    },
+    onSuccess: () => {
+      dispenseKey.reset()
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      onClose()
+    }
+  })
+
+  /**
+   * Handle dispense confirmation
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (!canDispense || dispenseMutation.isPending) return
+    dispenseMutation.mutate()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dispense {product.name}</DialogTitle>
+          <DialogDescription>
+            {getProductStock(product)} units in stock. Batches are used earliest expiry first; expired lots are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="dispenseQuantity">Quantity</Label>
+            <Input
+              id="dispenseQuantity"
+              type="number"
+              min="1"
+              value={quantity || ''}
+              onChange={(e) => setQuantity(parseInt(e.target.value, 10) || 0)}
+              disabled={dispenseMutation.isPending}
+              className="mt-1"
+            />
+          </div>
+
+          {allocations.length > 0 && (
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left">Lot</th>
+                  <th className="px-3 py-2 text-left">Expiry Date</th>
+                  <th className="px-3 py-2 text-right">Take</th>
+                </tr>
+              </thead>
+              <tbody>
+                {allocations.map((allocation) => (
+                  <tr key={allocation.batchId} className="border-t">
+                    <td className="px-3 py-2">{allocation.lotNumber}</td>
+                    <td className="px-3 py-2">{formatDate(allocation.expiryDate)}</td>
+                    <td className="px-3 py-2 text-right">{allocation.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {shortfall > 0 && (
+            <p className="text-sm text-red-600">
+              Not enough unexpired stock: {shortfall} units short.
+            </p>
+          )}
+
+          {dispenseMutation.isError && (
+            <p className="text-sm text-red-600">Failed to dispense. Please try again.</p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canDispense || dispenseMutation.isPending}>
+              {dispenseMutation.isPending ? 'Dispensing...' : 'Dispense'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default DispenseDialog
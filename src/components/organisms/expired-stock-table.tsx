@@ -0,0 +1,124 @@
+import { useState, type JSX } from 'react'
+import { Link } from 'react-router'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { ExpiredStockLine, QuarantineRequest } from '../../types/disposal'
+import { inventoryApi } from '../../services/api'
+import { usePermission } from '../../hooks/use-permission'
+import { formatCurrency, formatDate, getErrorMessage } from '../../lib/utils'
+import { showToast } from '../../stores/toast-store'
+import { BatchStatusBadge } from '../molecules/batch-status-badge'
+import WriteOffDialog from './write-off-dialog'
+
+interface ExpiredStockTableProps {
+  /** Batches to list */
+  readonly lines: readonly ExpiredStockLine[];
+}
+
+/**
+ * Table of batches holding expired, soon-to-expire or quarantined units
+ * Expired units can be moved into quarantine so they cannot be dispensed,
+ * quarantined units can be released again, and either can be written off.
+ * @param props - Component props
+ * @returns Expired stock table component
+ */
+function ExpiredStockTable({ lines }: ExpiredStockTableProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const canQuarantine = usePermission('stock.adjust')
+  const canWriteOff = usePermission('stock.writeOff')
+  const [writeOffLine, setWriteOffLine] = useState<ExpiredStockLine | null>(null)
+
+  // Move units into or out of quarantine
+  const quarantineMutation = useMutation({
+    mutationFn: (request: QuarantineRequest) => inventoryApi.quarantineStock(request),
+    onSuccess: (_, request) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      showToast(request.quantity > 0 ? `${request.quantity} units quarantined` : `${-request.quantity} units released`)
+    },
+    onError: (error) => {
+      showToast(`Failed to update quarantine: ${getErrorMessage(error)}`, { variant: 'error' })
+    }
+  })
+
+  return (
+    <>
+      <table className="w-full border-collapse text-sm">
+        <thead className="bg-gray-100 text-left">
+          <tr>
+            <th className="px-4 py-2">Product</th>
+            <th className="px-4 py-2">Lot</th>
+            <th className="px-4 py-2">Expiry Date</th>
+            <th className="px-4 py-2">Status</th>
+            <th className="px-4 py-2 text-right">Available</th>
+            <th className="px-4 py-2 text-right">Quarantined</th>
+            <th className="px-4 py-2 text-right">Value</th>
+            <th className="px-4 py-2">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => {
+            const { product, batch } = line
+            return (
+              <tr key={batch.id} className="border-t">
+                <td className="px-4 py-2">
+                  <Link to={`/products/${product.id}`} className="text-blue-600 hover:underline">
+                    {product.name}
+                  </Link>
+                  {product.sku && <div className="text-xs text-gray-500">{product.sku}</div>}
+                </td>
+                <td className="px-4 py-2">{batch.lotNumber}</td>
+                <td className="px-4 py-2">{formatDate(batch.expiryDate)}</td>
+                <td className="px-4 py-2"><BatchStatusBadge batch={batch} /></td>
+                <td className="px-4 py-2 text-right">{batch.quantity}</td>
+                <td className="px-4 py-2 text-right">{batch.quarantinedQuantity || '—'}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(line.value)}</td>
+                <td className="px-4 py-2">
+                  <div className="flex gap-3">
+                    {canQuarantine && batch.quantity > 0 && line.status === 'expired' && (
+                      <button
+                        onClick={() => quarantineMutation.mutate({ batchId: batch.id, quantity: batch.quantity, note: '' })}
+                        disabled={quarantineMutation.isPending}
+                        className="text-yellow-700 hover:text-yellow-900 disabled:text-gray-400"
+                      >
+                        Quarantine
+                      </button>
+                    )}
+                    {canQuarantine && batch.quarantinedQuantity > 0 && line.status !== 'expired' && (
+                      <button
+                        onClick={() =>
+                          quarantineMutation.mutate({ batchId: batch.id, quantity: -batch.quarantinedQuantity, note: '' })
+                        }
+                        disabled={quarantineMutation.isPending}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        Release
+                      </button>
+                    )}
+                    {canWriteOff && (
+                      <button
+                        onClick={() => setWriteOffLine(line)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Write Off
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {writeOffLine && (
+        <WriteOffDialog
+          product={writeOffLine.product}
+          batch={writeOffLine.batch}
+          isOpen={!!writeOffLine}
+          onClose={() => setWriteOffLine(null)}
+        />
+      )}
+    </>
+  )
+}
+
+export default ExpiredStockTable
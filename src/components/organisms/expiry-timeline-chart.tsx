@@ -0,0 +1,41 @@
+import type { JSX } from 'react'
+import type { ExpiryTimelineBucket } from '../../types/inventory'
+import { cn, formatCurrency } from '../../lib/utils'
+
+interface ExpiryTimelineChartProps {
+  /** Stock by expiry period, in date order */
+  readonly buckets: readonly ExpiryTimelineBucket[];
+}
+
+// Height of the tallest bar in pixels
+const CHART_HEIGHT = 160
+
+/**
+ * Column chart of the units expiring in each period
+ * @param props - Component props
+ * @returns Expiry timeline chart component
+ */
+function ExpiryTimelineChart({ buckets }: ExpiryTimelineChartProps): JSX.Element {
+  const maxQuantity = Math.max(...buckets.map(({ quantity }) => quantity), 0)
+
+  return (
+    <div className="flex items-end gap-2" style={{ height: CHART_HEIGHT + 40 }}>
+      {buckets.map(({ key, label, quantity, value }) => (
+        <div
+          key={key}
+          className="flex-1 flex flex-col items-center justify-end h-full"
+          title={`${label}: ${quantity} units, ${formatCurrency(value)}`}
+        >
+          <span className="text-xs text-gray-500 mb-1">{quantity > 0 ? quantity : ''}</span>
+          <div
+            className={cn('w-full rounded-t', key === 'expired' ? 'bg-red-500' : 'bg-blue-500')}
+            style={{ height: maxQuantity > 0 ? (quantity / maxQuantity) * CHART_HEIGHT : 0 }}
+          />
+          <span className="text-xs text-gray-600 mt-1 whitespace-nowrap">{label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ExpiryTimelineChart
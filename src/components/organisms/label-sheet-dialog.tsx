@@ -0,0 +1,174 @@
+import { useState, type JSX } from 'react'
+import type { LabelPaperSize, LabelSheetSettings, Product } from '../../types/inventory'
+import {
+  DEFAULT_LABEL_SHEET_SETTINGS,
+  LABEL_SHEET_PRESETS,
+  downloadLabelsHtml,
+  getLabelSize,
+  getSheetCount,
+  printLabels
+} from '../../lib/labels'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface LabelSheetDialogProps {
+  /** Products to print labels for */
+  readonly products: readonly Product[];
+  /** Dialog open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+}
+
+// Numeric settings edited in the grid fields, with their bounds
+const NUMBER_FIELDS: readonly {
+  field: keyof Omit<LabelSheetSettings, 'paperSize'>;
+  label: string;
+  min: number;
+  step?: number;
+}[] = [
+  { field: 'columns', label: 'Columns', min: 1 },
+  { field: 'rows', label: 'Rows', min: 1 },
+  { field: 'marginXMm', label: 'Side margin (mm)', min: 0, step: 0.1 },
+  { field: 'marginYMm', label: 'Top margin (mm)', min: 0, step: 0.1 },
+  { field: 'columnGapMm', label: 'Column gap (mm)', min: 0, step: 0.1 },
+  { field: 'rowGapMm', label: 'Row gap (mm)', min: 0, step: 0.1 },
+  { field: 'copies', label: 'Copies per product', min: 1 },
+  { field: 'skip', label: 'Skip used labels', min: 0 }
+]
+
+/**
+ * Dialog for printing shelf labels with name, price, expiry and barcode on
+ * a grid of self-adhesive labels
+ * @param props - Component props
+ * @returns Label sheet dialog component
+ */
+function LabelSheetDialog({ products, isOpen, onClose }: LabelSheetDialogProps): JSX.Element {
+  const [settings, setSettings] = useState<LabelSheetSettings>(DEFAULT_LABEL_SHEET_SETTINGS)
+  const [presetId, setPresetId] = useState<string>(LABEL_SHEET_PRESETS[0].id)
+
+  const labelCount = products.length * settings.copies
+  const sheetCount = getSheetCount(labelCount, settings)
+  const labelSize = getLabelSize(settings)
+  const isValid = labelCount > 0 && labelSize.widthMm > 0 && labelSize.heightMm > 0
+
+  /**
+   * Apply a preset grid, keeping copies and skipped labels
+   * @param id - Preset ID, or empty for a custom grid
+   */
+  const handlePresetChange = (id: string): void => {
+    setPresetId(id)
+    const preset = LABEL_SHEET_PRESETS.find((candidate) => candidate.id === id)
+    if (preset) {
+      setSettings((prev) => ({ ...prev, ...preset.settings }))
+    }
+  }
+
+  /**
+   * Update a setting by hand, which turns the grid into a custom one
+   * @param changes - Changed settings
+   */
+  const updateSettings = (changes: Partial<LabelSheetSettings>): void => {
+    setSettings((prev) => ({ ...prev, ...changes }))
+    if (!('copies' in changes) && !('skip' in changes)) {
+      setPresetId('')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            Shelf labels with name, price, expiry date and barcode for {products.length}{' '}
+            {products.length === 1 ? 'product' : 'products'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <Label htmlFor="labelPreset">Label sheet</Label>
+            <select
+              id="labelPreset"
+              value={presetId}
+              onChange={(e) => handlePresetChange(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {LABEL_SHEET_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+              <option value="">Custom</option>
+            </select>
+          </div>
+
+          <div>
+            <Label htmlFor="labelPaperSize">Paper size</Label>
+            <select
+              id="labelPaperSize"
+              value={settings.paperSize}
+              onChange={(e) => updateSettings({ paperSize: e.target.value as LabelPaperSize })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="A4">A4</option>
+              <option value="Letter">Letter</option>
+            </select>
+          </div>
+
+          {NUMBER_FIELDS.map(({ field, label, min, step }) => (
+            <div key={field}>
+              <Label htmlFor={`label-${field}`}>{label}</Label>
+              <Input
+                id={`label-${field}`}
+                type="number"
+                min={min}
+                step={step ?? 1}
+                value={settings[field]}
+                onChange={(e) => {
+                  const value = step ? parseFloat(e.target.value) : parseInt(e.target.value, 10)
+                  updateSettings({ [field]: Math.max(Number.isNaN(value) ? min : value, min) })
+                }}
+                className="mt-1"
+              />
+            </div>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {isValid
+            ? `${labelCount} ${labelCount === 1 ? 'label' : 'labels'} on ${sheetCount} ${sheetCount === 1 ? 'sheet' : 'sheets'}, ` +
+              `${labelSize.widthMm.toFixed(1)} × ${labelSize.heightMm.toFixed(1)} mm each. Print at 100% scale.`
+            : 'The margins and gaps leave no room for labels.'}
+        </p>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => downloadLabelsHtml(products, settings)}
+            disabled={!isValid}
+          >
+            Download HTML
+          </Button>
+          <Button type="button" onClick={() => printLabels(products, settings)} disabled={!isValid}>
+            Print / PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default LabelSheetDialog
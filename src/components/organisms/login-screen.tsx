@@ -0,0 +1,93 @@
+import { type JSX } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useMutation } from '@tanstack/react-query'
+import { authApi } from '../../services/api'
+import { useAuthStore } from '../../stores/auth-store'
+import { loginSchema, type LoginFormData } from '../../schemas/auth-schema'
+import { getErrorMessage } from '../../lib/utils'
+
+/**
+ * Sign-in form shown when there is no active session
+ * @returns Login screen component
+ */
+function LoginScreen(): JSX.Element {
+  const setSession = useAuthStore((state) => state.setSession)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: '', password: '' }
+  })
+
+  // Sign in and store the session
+  const loginMutation = useMutation({
+    mutationFn: (data: LoginFormData) => authApi.login(data),
+    onSuccess: (session) => {
+      setSession(session)
+    }
+  })
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <form
+        onSubmit={handleSubmit((data) => loginMutation.mutate(data))}
+        className="bg-white rounded-lg shadow p-6 w-full max-w-sm"
+      >
+        <h1 className="text-xl font-semibold mb-6">Pharmacy Inventory System</h1>
+
+        <div className="mb-4">
+          <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+            Username
+          </label>
+          <input
+            id="username"
+            type="text"
+            autoComplete="username"
+            autoFocus
+            {...register('username')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          {errors.username && (
+            <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            {...register('password')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+
+        {loginMutation.isError && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {getErrorMessage(loginMutation.error)}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loginMutation.isPending}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default LoginScreen
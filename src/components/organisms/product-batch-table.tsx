@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BatchStatusBadge } from '../molecules/batch-status-badge';
+import { formatDate, getTotalStock, sortBatchesByExpiry } from '@/lib/utils.ts';
+import { useCreateBatch, useDeleteBatch } from '@/hooks/use-inventory.ts';
+import { usePermission } from '@/hooks/use-permission.ts';
+import { useLocations } from '@/hooks/use-locations.ts';
+import { useLocationStore } from '@/stores/location-store.ts';
+import type { Product, ProductBatchFormData } from '@/types/inventory.ts';
+
+interface ProductBatchTableProps {
+  readonly product: Product;
+}
+
+const emptyBatch = (supplier: string, locationId: number | null): ProductBatchFormData => ({
+  lotNumber: '',
+  quantity: 0,
+  expiryDate: '',
+  receivedDate: new Date().toISOString().split('T')[0],
+  supplier,
+  locationId,
+});
+
+/**
+ * Sub-table listing the stock batches of a product, earliest expiry first
+ * New batches are stored at the location chosen in the header by default.
+ */
+export const ProductBatchTable = ({ product }: ProductBatchTableProps) => {
+  const currentLocationId = useLocationStore((state) => state.locationId);
+  const { data: locations = [] } = useLocations();
+  const [newBatch, setNewBatch] = useState<ProductBatchFormData>(() => emptyBatch(product.supplier, currentLocationId));
+  const createBatch = useCreateBatch(product.id);
+  const deleteBatch = useDeleteBatch();
+  const canAdjustStock = usePermission('stock.adjust');
+  const batches = sortBatchesByExpiry(product.batches);
+
+  const handleChange = (field: keyof ProductBatchFormData, value: string) => {
+    setNewBatch((prev) => ({
+      ...prev,
+      [field]: field === 'quantity' ? parseInt(value, 10) || 0 : field === 'locationId' ? (value ? Number(value) : null) : value,
+    }));
+  };
+
+  const getLocationName = (locationId: number | null) => {
+    const location = locations.find(({ id }) => id === locationId);
+    return location ? `${location.branch} · ${location.name}` : '—';
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    createBatch.mutate(newBatch, {
+      onSuccess: () => setNewBatch(emptyBatch(product.supplier, currentLocationId)),
+    });
+  };
+
+  const canAdd = newBatch.lotNumber.trim() !== '' && newBatch.quantity > 0 && newBatch.expiryDate !== '';
+
+  return (
+    <div className="bg-gray-50 px-6 py-4">
+      <table className="min-w-full border border-gray-200 bg-white">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lot</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantity</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expiry Date</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {batches.length === 0 && (
+            <tr>
+              <td colSpan={8} className="px-4 py-3 text-center text-sm text-gray-500">
+                No batches recorded for this product
+              </td>
+            </tr>
+          )}
+          {batches.map((batch) => (
+            <tr key={batch.id}>
+              <td className="px-4 py-2 text-sm font-medium text-gray-900">{batch.lotNumber}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{batch.quantity}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{formatDate(batch.expiryDate)}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{formatDate(batch.receivedDate)}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{batch.supplier}</td>
+              <td className="px-4 py-2 text-sm text-gray-900">{getLocationName(batch.locationId)}</td>
+              <td className="px-4 py-2">
+                <BatchStatusBadge batch={batch} />
+              </td>
+              <td className="px-4 py-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteBatch.mutate(batch.id)}
+                  disabled={!canAdjustStock || deleteBatch.isPending}
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50">
+          <tr>
+            <td className="px-4 py-2 text-sm font-medium text-gray-700">Total</td>
+            <td colSpan={7} className="px-4 py-2 text-sm font-medium text-gray-900">
+              {getTotalStock(batches)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {canAdjustStock && (
+        <form onSubmit={handleAdd} className="mt-3 grid grid-cols-2 md:grid-cols-7 gap-2 items-end">
+          <Input
+            placeholder="Lot number"
+            value={newBatch.lotNumber}
+            onChange={(e) => handleChange('lotNumber', e.target.value)}
+          />
+          <Input
+            type="number"
+            min="1"
+            placeholder="Quantity"
+            value={newBatch.quantity || ''}
+            onChange={(e) => handleChange('quantity', e.target.value)}
+          />
+          <Input
+            type="date"
+            title="Expiry date"
+            value={newBatch.expiryDate}
+            onChange={(e) => handleChange('expiryDate', e.target.value)}
+          />
+          <Input
+            type="date"
+            title="Received date"
+            value={newBatch.receivedDate}
+            onChange={(e) => handleChange('receivedDate', e.target.value)}
+          />
+          <Input
+            placeholder="Supplier"
+            value={newBatch.supplier}
+            onChange={(e) => handleChange('supplier', e.target.value)}
+          />
+          <select
+            title="Location"
+            value={newBatch.locationId ?? ''}
+            onChange={(e) => handleChange('locationId', e.target.value)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          >
+            <option value="">No location</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.branch} · {location.name}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" disabled={!canAdd || createBatch.isPending}>
+            <Plus className="h-4 w-4" />
+            Add Batch
+          </Button>
+        </form>
+      )}
+      {createBatch.isError && (
+        <p className="mt-2 text-sm text-red-600">Failed to add batch. Please try again.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState, type JSX } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { ProductConflict, ProductMergeChoices, ProductMergeField } from '../../types/inventory'
+import type { OutboxEntry } from '../../types/offline'
+import { useUpdateProduct } from '../../hooks/use-inventory'
+import { discardOutboxEntry, resolveOutboxConflict } from '../../lib/outbox'
+import { getDefaultMergeChoices, getProductFieldDiffs, mergeProduct } from '../../lib/product-merge'
+import { showToast } from '../../stores/toast-store'
+import { cn, formatDate, getErrorMessage } from '../../lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ProductConflictDialogProps {
+  /** Update rejected because the product changed on the server */
+  readonly conflict: ProductConflict;
+  /** Outbox entry the update came from, when it was made offline */
+  readonly outboxEntry: OutboxEntry | null;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+}
+
+/**
+ * Dialog shown when someone else saved a product while it was being
+ * edited; lists the user's values next to the server's for every field
+ * that differs and resubmits the version chosen per field
+ * Keeping the saved version drops the user's change; an offline change is
+ * removed from the outbox.
+ * @param props - Component props
+ * @returns Product conflict dialog component
+ */
+function ProductConflictDialog({ conflict, outboxEntry, onClose }: ProductConflictDialogProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const updateMutation = useUpdateProduct()
+  const [choices, setChoices] = useState<ProductMergeChoices>(() => getDefaultMergeChoices(conflict))
+  const diffs = getProductFieldDiffs(conflict)
+  const { server } = conflict
+
+  /**
+   * Choose the version of a field to keep
+   * @param field - Product field
+   * @param version - Version to keep
+   */
+  const choose = (field: ProductMergeField, version: 'mine' | 'server'): void => {
+    setChoices((current) => ({ ...current, [field]: version }))
+  }
+
+  /**
+   * Resubmit the merged values on top of the server's version
+   */
+  const handleSave = (): void => {
+    const merged = mergeProduct(conflict, choices)
+    if (outboxEntry) {
+      resolveOutboxConflict(queryClient, outboxEntry, merged).catch((error: unknown) =>
+        showToast(`Sync failed: ${getErrorMessage(error)}`, { variant: 'error' })
+      )
+    } else {
+      updateMutation.mutate({ previous: server, product: merged, adjustment: conflict.adjustment })
+    }
+    onClose()
+  }
+
+  /**
+   * Keep the server's version, dropping an offline change
+   */
+  const handleKeepSaved = (): void => {
+    if (outboxEntry) {
+      discardOutboxEntry(queryClient, outboxEntry).catch((error: unknown) =>
+        showToast(`Failed to discard the change: ${getErrorMessage(error)}`, { variant: 'error' })
+      )
+    }
+    onClose()
+  }
+
+  /**
+   * Class names for a selectable value cell
+   * @param isChosen - Whether the cell's version is chosen
+   * @returns CSS class string
+   */
+  const cellClass = (isChosen: boolean): string =>
+    cn('px-3 py-2 align-top cursor-pointer', isChosen ? 'bg-blue-50 font-medium' : 'text-gray-500')
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>"{server.name}" was changed by someone else</DialogTitle>
+          <DialogDescription>
+            The product was saved on {formatDate(server.updatedAt, 'MMM dd, yyyy HH:mm')} while you were editing
+            it. Choose which value to keep for each field.
+            {conflict.adjustment &&
+              ` Your stock adjustment of ${conflict.adjustment.quantity > 0 ? '+' : ''}${conflict.adjustment.quantity} is applied once you save.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {diffs.length === 0 ? (
+          <p className="text-sm text-gray-600">Your changes match the saved product.</p>
+        ) : (
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left">Field</th>
+                <th className="px-3 py-2 text-left">Your version</th>
+                <th className="px-3 py-2 text-left">Saved version</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diffs.map((diff) => (
+                <tr key={diff.field} className="border-t">
+                  <td className="px-3 py-2 align-top">
+                    <div>{diff.label}</div>
+                    {diff.isConflict ? (
+                      <div className="text-xs text-red-600">Changed by both</div>
+                    ) : (
+                      <div className="text-xs text-gray-500">Was: {diff.base || '—'}</div>
+                    )}
+                  </td>
+                  <td className={cellClass(choices[diff.field] === 'mine')} onClick={() => choose(diff.field, 'mine')}>
+                    <label className="flex gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={diff.field}
+                        checked={choices[diff.field] === 'mine'}
+                        onChange={() => choose(diff.field, 'mine')}
+                      />
+                      <span className="break-words">{diff.mine || '—'}</span>
+                    </label>
+                  </td>
+                  <td
+                    className={cellClass(choices[diff.field] === 'server')}
+                    onClick={() => choose(diff.field, 'server')}
+                  >
+                    <label className="flex gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={diff.field}
+                        checked={choices[diff.field] === 'server'}
+                        onChange={() => choose(diff.field, 'server')}
+                      />
+                      <span className="break-words">{diff.server || '—'}</span>
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleKeepSaved}>
+            Keep saved version
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ProductConflictDialog
@@ -1,10 +1,12 @@
-import { useEffect } from 'react'
+import { useEffect, useState, type JSX } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { useMutation, useQueryClient } from '@tanstack/react-query'
-import { z } from 'zod'
-import { Product, ProductFormData } from '../../types/inventory'
-import { inventoryApi } from '../../services/api'
+import type { Product, ProductFormData, StockMovementReason } from '../../types/inventory'
+import { STOCK_MOVEMENT_REASON_LABELS } from '../../types/inventory'
+import { productSchema } from '../../schemas/product-schema'
+import { usePermission } from '../../hooks/use-permission'
+import { useCreateProduct, useUpdateProduct } from '../../hooks/use-inventory'
+import { formatDate, toProductFormData } from '../../lib/utils'
 
 interface ProductFormModalProps {
   /** Product to edit (null if creating new) */
@@ -13,112 +15,122 @@ interface ProductFormModalProps {
   readonly isOpen: boolean;
   /** Handler for closing the modal */
   readonly onClose: () => void;
+  /** Values prefilled when creating a product, e.g. from a scanned barcode */
+  readonly defaults?: Partial<ProductFormData>;
 }
 
-// Zod schema for form validation
-const productFormSchema = z.object({
-  name: z.string().min(1, 'Product name is required'),
-  description: z.string().min(1, 'Description is required'),
-  stockQuantity: z.number().int().min(0, 'Stock quantity must be 0 or higher'),
-  price: z.number().positive('Price must be greater than 0'),
-  expiryDate: z.string().min(1, 'Expiry date is required'),
-  category: z.string().min(1, 'Category is required'),
-  supplier: z.string().min(1, 'Supplier is required'),
-  minimumStockThreshold: z.number().int().min(1, 'Minimum stock threshold must be at least 1')
-})
+// Reason codes that apply to manual stock adjustments
+const ADJUSTMENT_REASONS: readonly StockMovementReason[] = [
+  'count_correction',
+  'data_entry_error',
+  'damaged',
+  'expired',
+  'other'
+]
 
 /**
  * Modal form for creating or editing products
+ * When someone else saves the product being edited, a banner offers to
+ * load their changes; the form keeps the user's input until then.
  * @param props - Component props
  * @returns Form modal component
  */
-function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps): JSX.Element | null {
-  const queryClient = useQueryClient()
-  const isEditMode = !!product
+function ProductFormModal({ product, isOpen, onClose, defaults }: ProductFormModalProps): JSX.Element | null {
+  // Product as it was when editing started; `product` follows changes pushed from other screens
+  const [baseProduct, setBaseProduct] = useState<Product | null>(product)
+  if (product?.id !== baseProduct?.id) {
+    setBaseProduct(product)
+  }
+  const isChangedElsewhere = !!product && !!baseProduct && product.updatedAt !== baseProduct.updatedAt
+  const isEditMode = !!baseProduct
+  const canEditPrice = usePermission('product.editPrice')
+  const canAdjustStock = usePermission('stock.adjust')
+  // A new product needs a price; only changing an existing one is restricted
+  const isPriceLocked = isEditMode && !canEditPrice
+  // Stock of an existing product only changes through adjustments
+  const isStockLocked = isEditMode && !canAdjustStock
+  const [adjustmentReason, setAdjustmentReason] = useState<StockMovementReason | ''>('')
+  const [adjustmentNote, setAdjustmentNote] = useState<string>('')
+  const [adjustmentError, setAdjustmentError] = useState<string | null>(null)
   
   // Initialize form with react-hook-form
   const { 
     register, 
     handleSubmit, 
     reset, 
+    watch,
     formState: { errors } 
   } = useForm<ProductFormData>({
-    resolver: zodResolver(productFormSchema),
-    defaultValues: isEditMode ? {
-      name: product.name,
-      description: product.description,
-      stockQuantity: product.stockQuantity,
-      price: product.price,
-      expiryDate: product.expiryDate.split('T')[0], // Format date for input
-      category: product.category,
-      supplier: product.supplier,
-      minimumStockThreshold: product.minimumStockThreshold
-    } : {
+    resolver: zodResolver(productSchema),
+    defaultValues: isEditMode ? toProductFormData(baseProduct) : {
       name: '',
+      sku: '',
+      barcode: '',
       description: '',
       stockQuantity: 0,
       price: 0,
       expiryDate: '',
       category: '',
       supplier: '',
-      minimumStockThreshold: 10
+      minimumStockThreshold: 10,
+      ...defaults
     }
   })
 
   // Reset form when product changes
   useEffect(() => {
     if (isOpen) {
-      reset(isEditMode ? {
-        name: product.name,
-        description: product.description,
-        stockQuantity: product.stockQuantity,
-        price: product.price,
-        expiryDate: product.expiryDate.split('T')[0],
-        category: product.category,
-        supplier: product.supplier,
-        minimumStockThreshold: product.minimumStockThreshold
-      } : {
+      reset(isEditMode ? toProductFormData(baseProduct) : {
         name: '',
+        sku: '',
+        barcode: '',
         description: '',
         stockQuantity: 0,
         price: 0,
         expiryDate: '',
         category: '',
         supplier: '',
-        minimumStockThreshold: 10
+        minimumStockThreshold: 10,
+        ...defaults
       })
+      setAdjustmentReason('')
+      setAdjustmentNote('')
+      setAdjustmentError(null)
     }
-  }, [isOpen, product, reset, isEditMode])
+  }, [isOpen, baseProduct, reset, isEditMode, defaults])
 
-  // Create product mutation
-  const createMutation = useMutation({
-    mutationFn: (data: ProductFormData) => inventoryApi.createProduct(data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] })
-      onClose()
-    }
-  })
+  // Stock change made in the form; recorded as an adjust movement instead of overwriting the value
+  const watchedStock = watch('stockQuantity')
+  const stockDelta = isEditMode && !Number.isNaN(watchedStock)
+    ? watchedStock - baseProduct.stockQuantity
+    : 0
 
-  // Update product mutation
-  const updateMutation = useMutation({
-    mutationFn: (data: ProductFormData) => 
-      inventoryApi.updateProduct(product?.id || 0, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] })
-      onClose()
-    }
-  })
+  // Product mutations update the cached lists before the server answers
+  const createMutation = useCreateProduct()
+  const updateMutation = useUpdateProduct()
 
   /**
-   * Handle form submission
+   * Handle form submission; the form closes straight away and a toast
+   * reports a rejected save
    * @param data - Form data
    */
   const onSubmit = (data: ProductFormData): void => {
     if (isEditMode) {
-      updateMutation.mutate(data)
+      if (stockDelta !== 0 && !adjustmentReason) {
+        setAdjustmentError('A reason is required when changing the stock quantity')
+        return
+      }
+      updateMutation.mutate({
+        previous: baseProduct,
+        product: data,
+        adjustment: stockDelta !== 0 && adjustmentReason
+          ? { productId: baseProduct.id, type: 'adjust', quantity: stockDelta, reason: adjustmentReason, note: adjustmentNote }
+          : undefined
+      })
     } else {
       createMutation.mutate(data)
     }
+    onClose()
   }
 
   if (!isOpen) return null
@@ -138,6 +150,22 @@ function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps):
           </button>
         </div>
 
+        {isChangedElsewhere && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800 flex justify-between items-center gap-4">
+            <span>
+              Someone else just saved changes to this product at {formatDate(product.updatedAt, 'HH:mm')}.
+              If you save, you can merge both versions.
+            </span>
+            <button
+              type="button"
+              onClick={() => setBaseProduct(product)}
+              className="font-medium whitespace-nowrap hover:underline"
+            >
+              Load their changes
+            </button>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit(onSubmit)}>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Name */}
@@ -156,6 +184,40 @@ function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps):
               )}
             </div>
 
+            {/* SKU */}
+            <div className="mb-4">
+              <label htmlFor="sku" className="block text-sm font-medium text-gray-700 mb-1">
+                SKU
+              </label>
+              <input
+                id="sku"
+                type="text"
+                {...register('sku')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              {errors.sku && (
+                <p className="mt-1 text-sm text-red-600">{errors.sku.message}</p>
+              )}
+            </div>
+
+            {/* Barcode */}
+            <div className="mb-4">
+              <label htmlFor="barcode" className="block text-sm font-medium text-gray-700 mb-1">
+                Barcode (GTIN)
+              </label>
+              <input
+                id="barcode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                {...register('barcode')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+              {errors.barcode && (
+                <p className="mt-1 text-sm text-red-600">{errors.barcode.message}</p>
+              )}
+            </div>
+
             {/* Category */}
             <div className="mb-4">
               <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
@@ -181,9 +243,13 @@ function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps):
                 id="stockQuantity"
                 type="number"
                 min="0"
+                readOnly={isStockLocked}
                 {...register('stockQuantity', { valueAsNumber: true })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md read-only:bg-gray-100 read-only:text-gray-500"
               />
+              {isStockLocked && (
+                <p className="mt-1 text-xs text-gray-500">You are not allowed to adjust stock</p>
+              )}
               {errors.stockQuantity && (
                 <p className="mt-1 text-sm text-red-600">{errors.stockQuantity.message}</p>
               )}
@@ -199,9 +265,13 @@ function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps):
                 type="number"
                 step="0.01"
                 min="0"
+                readOnly={isPriceLocked}
                 {...register('price', { valueAsNumber: true })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md read-only:bg-gray-100 read-only:text-gray-500"
               />
+              {isPriceLocked && (
+                <p className="mt-1 text-xs text-gray-500">You are not allowed to change prices</p>
+              )}
               {errors.price && (
                 <p className="mt-1 text-sm text-red-600">{errors.price.message}</p>
               )}
@@ -257,6 +327,51 @@ function ProductFormModal({ product, isOpen, onClose }: ProductFormModalProps):
             </div>
           </div>
 
+          {/* Stock adjustment reason */}
+          {stockDelta !== 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+              <p className="md:col-span-2 text-sm text-yellow-800">
+                Stock will be adjusted by {stockDelta > 0 ? `+${stockDelta}` : stockDelta} units.
+              </p>
+              <div>
+                <label htmlFor="adjustmentReason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Adjustment Reason
+                </label>
+                <select
+                  id="adjustmentReason"
+                  value={adjustmentReason}
+                  onChange={(e) => {
+                    setAdjustmentReason(e.target.value as StockMovementReason | '')
+                    setAdjustmentError(null)
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">Select a reason</option>
+                  {ADJUSTMENT_REASONS.map((reason) => (
+                    <option key={reason} value={reason}>
+                      {STOCK_MOVEMENT_REASON_LABELS[reason]}
+                    </option>
+                  ))}
+                </select>
+                {adjustmentError && (
+                  <p className="mt-1 text-sm text-red-600">{adjustmentError}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="adjustmentNote" className="block text-sm font-medium text-gray-700 mb-1">
+                  Note
+                </label>
+                <input
+                  id="adjustmentNote"
+                  type="text"
+                  value={adjustmentNote}
+                  onChange={(e) => setAdjustmentNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Description */}
           <div className="mb-4">
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,390 @@
+import { useState, type JSX } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Download, Upload } from 'lucide-react'
+import type {
+  ProductImportField,
+  ProductImportMapping,
+  ProductImportResult,
+  ProductImportRow
+} from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { cn, getErrorMessage } from '../../lib/utils'
+import { PRODUCT_IMPORT_FIELDS, guessImportMapping, validateImportRows } from '../../lib/product-import'
+import { downloadFile, readSpreadsheet, toCsv } from '../../lib/spreadsheet'
+import { VirtualizedTable } from './virtualized-table'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ProductImportWizardProps {
+  /** Wizard open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the wizard */
+  readonly onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'commit'
+
+// Rows saved in parallel per request batch
+const IMPORT_BATCH_SIZE = 20
+
+// Fields that must be mapped so rows can be matched and created
+const REQUIRED_FIELDS: readonly ProductImportField[] = ['name', 'supplier']
+
+const ACTION_STYLES: Record<ProductImportRow['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  invalid: 'bg-red-100 text-red-800'
+}
+
+/**
+ * Wizard for importing products from a CSV or Excel file: upload, map
+ * columns, preview validation results, then save the valid rows in batches
+ * @param props - Component props
+ * @returns Import wizard component
+ */
+function ProductImportWizard({ isOpen, onClose }: ProductImportWizardProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState<string>('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ProductImportMapping>({})
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [results, setResults] = useState<ProductImportResult[]>([])
+  const [isCommitting, setIsCommitting] = useState<boolean>(false)
+  // Rows as they were when the import started; the catalog refetches afterwards
+  const [committedRows, setCommittedRows] = useState<ProductImportRow[]>([])
+
+  // Current catalog, used to tell creates from updates
+  const { data: existingProducts, isLoading: isLoadingProducts, isError: isProductsError } = useQuery({
+    queryKey: ['products', 'all'],
+    queryFn: () => inventoryApi.getAllProducts(),
+    enabled: step === 'preview'
+  })
+
+  const importRows = step === 'commit'
+    ? committedRows
+    : existingProducts ? validateImportRows(dataRows, mapping, existingProducts) : []
+  const validRows = importRows.filter((row) => row.action !== 'invalid')
+  const invalidRows = importRows.filter((row) => row.action === 'invalid')
+  const failedResults = results.filter((result) => result.status === 'failed')
+  const partialResults = results.filter((result) => result.status === 'partial')
+  const missingRequired = REQUIRED_FIELDS.filter((field) => mapping[field] === undefined)
+
+  /**
+   * Read the chosen file and guess the column mapping
+   * @param e - File input change event
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileError(null)
+    try {
+      const [headerRow = [], ...rows] = await readSpreadsheet(file)
+      if (rows.length === 0) {
+        setFileError('The file has no data rows.')
+        return
+      }
+      setFileName(file.name)
+      setHeaders(headerRow)
+      setDataRows(rows)
+      setMapping(guessImportMapping(headerRow))
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      setFileError('The file could not be read. Use a CSV, XLS or XLSX file.')
+    }
+  }
+
+  /**
+   * Update the column mapped to a field
+   * @param field - Product field
+   * @param value - Column index as a string, or empty to skip the field
+   */
+  const handleMappingChange = (field: ProductImportField, value: string): void => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  /**
+   * Save one valid row; stock changes on existing products are recorded as adjustments
+   * @param row - Row to save
+   * @returns Promise with the outcome of the row
+   */
+  const commitRow = async (row: ProductImportRow): Promise<ProductImportResult> => {
+    const { rowNumber } = row
+    if (!row.data) return { rowNumber, status: 'success' }
+    if (!row.match) {
+      await inventoryApi.createProduct(row.data)
+      return { rowNumber, status: 'success' }
+    }
+
+    // The update goes first: the adjustment changes the product, so its
+    // If-Match would no longer hold, and a rejected row must not move stock
+    await inventoryApi.updateProduct(
+      row.match.id,
+      { ...row.data, stockQuantity: row.match.stockQuantity },
+      row.match.updatedAt
+    )
+    const stockDelta = row.data.stockQuantity - row.match.stockQuantity
+    if (stockDelta !== 0) {
+      try {
+        await inventoryApi.createStockMovement({
+          productId: row.match.id,
+          type: 'adjust',
+          quantity: stockDelta,
+          reason: 'count_correction',
+          note: `Imported from ${fileName}`
+        })
+      } catch (error) {
+        // The update is saved; importing the row again would fail its If-Match
+        return { rowNumber, status: 'partial', error: `Stock adjustment failed: ${getErrorMessage(error)}` }
+      }
+    }
+    return { rowNumber, status: 'success' }
+  }
+
+  /**
+   * Save all valid rows in batches, recording the outcome of each row
+   */
+  const handleCommit = async (): Promise<void> => {
+    setCommittedRows(importRows)
+    setStep('commit')
+    setIsCommitting(true)
+    setResults([])
+
+    for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE)
+      const settled = await Promise.allSettled(batch.map(commitRow))
+      const batchResults = settled.map((outcome, index): ProductImportResult =>
+        outcome.status === 'fulfilled'
+          ? outcome.value
+          : { rowNumber: batch[index].rowNumber, status: 'failed', error: getErrorMessage(outcome.reason) }
+      )
+      setResults((prev) => [...prev, ...batchResults])
+    }
+
+    setIsCommitting(false)
+    queryClient.invalidateQueries({ queryKey: ['products'] })
+    queryClient.invalidateQueries({ queryKey: ['categories'] })
+  }
+
+  /**
+   * Download a CSV listing every row that failed validation or saving
+   */
+  const handleDownloadErrors = (): void => {
+    const failures = new Map(
+      [...failedResults, ...partialResults].map((result) => [result.rowNumber, result.error ?? 'Failed to save'])
+    )
+    const reportRows = importRows
+      .filter((row) => row.action === 'invalid' || failures.has(row.rowNumber))
+      .map((row) => [
+        row.rowNumber,
+        row.name,
+        row.supplier,
+        row.action === 'invalid' ? row.errors.join('; ') : failures.get(row.rowNumber)
+      ])
+
+    downloadFile(
+      toCsv([['Row', 'Name', 'Supplier', 'Errors'], ...reportRows]),
+      `${fileName.replace(/\.[^.]+$/, '')}-import-errors.csv`,
+      'text/csv;charset=utf-8'
+    )
+  }
+
+  const progress = validRows.length === 0 ? 100 : Math.round((results.length / validRows.length) * 100)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isCommitting && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel file with one product per row and a header row.'}
+            {step === 'map' && `Match the columns of ${fileName} to product fields.`}
+            {step === 'preview' && 'Review the rows before importing. Only valid rows are saved.'}
+            {step === 'commit' && (isCommitting ? 'Importing products...' : 'Import finished.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-md p-8 cursor-pointer hover:bg-gray-50">
+              <Upload className="h-6 w-6 text-gray-500" />
+              <span className="text-sm text-gray-600">Choose a .csv, .xls or .xlsx file</span>
+              <input
+                type="file"
+                accept=".csv,.xls,.xlsx"
+                onChange={handleFileChange}
+                className="sr-only"
+              />
+            </label>
+            {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {PRODUCT_IMPORT_FIELDS.map(({ field, label }) => (
+              <div key={field} className="grid grid-cols-3 gap-4 items-center">
+                <label htmlFor={`map-${field}`} className="text-sm font-medium text-gray-700">
+                  {label} {REQUIRED_FIELDS.includes(field) && <span className="text-red-500">*</span>}
+                </label>
+                <select
+                  id={`map-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Not imported</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-500 truncate">
+                  {mapping[field] !== undefined && dataRows[0]?.[mapping[field]]}
+                </span>
+              </div>
+            ))}
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map the required fields to continue.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            {isLoadingProducts && <p className="text-sm text-gray-500">Checking for existing products...</p>}
+            {isProductsError && (
+              <p className="text-sm text-red-600">Error loading existing products. Make sure the API is running.</p>
+            )}
+            {existingProducts && (
+              <>
+                <div className="flex gap-4 text-sm">
+                  <span>{importRows.filter((row) => row.action === 'create').length} new</span>
+                  <span>{importRows.filter((row) => row.action === 'update').length} updates</span>
+                  <span className="text-red-600">{invalidRows.length} with errors</span>
+                </div>
+                <VirtualizedTable
+                  rows={importRows}
+                  getRowKey={(row) => row.rowNumber}
+                  columnCount={5}
+                  className="max-h-[50vh] border rounded-md"
+                  tableClassName="w-full text-sm"
+                  headerClassName="bg-gray-100"
+                  rowClassName="border-t align-top"
+                  estimateRowHeight={37}
+                  header={
+                    <>
+                      <th className="px-3 py-2 text-left">Row</th>
+                      <th className="px-3 py-2 text-left">Action</th>
+                      <th className="px-3 py-2 text-left">Name</th>
+                      <th className="px-3 py-2 text-left">Supplier</th>
+                      <th className="px-3 py-2 text-left">Errors</th>
+                    </>
+                  }
+                  renderRow={(row) => (
+                    <>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2">
+                        <span className={cn('px-2 py-1 rounded-full text-xs font-medium capitalize', ACTION_STYLES[row.action])}>
+                          {row.action}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">{row.name}</td>
+                      <td className="px-3 py-2">{row.supplier}</td>
+                      <td className="px-3 py-2 text-red-600">
+                        {row.errors.map((error) => (
+                          <div key={error}>{error}</div>
+                        ))}
+                      </td>
+                    </>
+                  )}
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'commit' && (
+          <div className="space-y-3">
+            <div className="h-3 w-full bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${progress}%` }}
+                role="progressbar"
+                aria-valuenow={progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+            <p className="text-sm text-gray-600">
+              {results.length} of {validRows.length} rows processed
+              {failedResults.length > 0 && (
+                <span className="text-red-600"> ({failedResults.length} failed)</span>
+              )}
+              {partialResults.length > 0 && (
+                <span className="text-yellow-700"> ({partialResults.length} saved without their stock change)</span>
+              )}
+            </p>
+            {!isCommitting && (
+              <p className="text-sm">
+                {results.length - failedResults.length} products saved.
+                {invalidRows.length > 0 && ` ${invalidRows.length} rows were skipped because of validation errors.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {(invalidRows.length > 0 || failedResults.length > 0 || partialResults.length > 0) && !isCommitting && (
+            <Button variant="outline" onClick={handleDownloadErrors} className="sm:mr-auto">
+              <Download className="h-4 w-4" />
+              Error Report
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button onClick={handleCommit} disabled={validRows.length === 0}>
+                Import {validRows.length} {validRows.length === 1 ? 'Row' : 'Rows'}
+              </Button>
+            </>
+          )}
+          {step === 'commit' && !isCommitting && (
+            <Button onClick={onClose}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ProductImportWizard
@@ -1,84 +1,100 @@
-import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
-import { inventoryApi } from '../../services/api'
-import { Product, ProductFilters } from '../../types/inventory'
-import { formatCurrency, formatDate, isLowStock, isExpired, isExpiringSoon } from '../../lib/utils'
+import type { JSX } from 'react'
+import type {
+  Product,
+  ProductFilters as ProductFilterValues,
+  ProductSortField,
+  ProductStatus
+} from '../../types/inventory'
+import { PRODUCT_STATUS_LABELS } from '../../types/inventory'
+import {
+  buildProductQuery,
+  formatCurrency,
+  formatDate,
+  getErrorMessage,
+  getProductStatus,
+  getProductStock,
+  scopeProductToLocation,
+  toggleOrdering
+} from '../../lib/utils'
+import { useProducts } from '../../hooks/use-inventory'
+import { useDebouncedValue } from '../../hooks/use-debounced-value'
+import { useProductListParams } from '../../hooks/use-product-list-params'
+import { useProductSelection } from '../../hooks/use-product-selection'
+import { useLocationStore } from '../../stores/location-store'
 import ProductFilters from '../molecules/product-filters'
+import ExportMenu from '../molecules/export-menu'
+import Can from '../molecules/can'
+import { SortableHeader } from '../molecules/sortable-header'
+import { PaginationControls } from '../molecules/pagination-controls'
+import { VirtualizedTable } from './virtualized-table'
+import ProductSelectionBar from './product-selection-bar'
 
 interface ProductListProps {
   /** Handler for editing a product */
   readonly onEdit: (product: Product) => void;
   /** Handler for deleting a product */
   readonly onDelete: (product: Product) => void;
+  /** Handler for dispensing a product */
+  readonly onDispense: (product: Product) => void;
+  /** Handler for viewing product details and stock history */
+  readonly onView: (product: Product) => void;
+}
+
+// Badge colors for each product status
+const STATUS_BADGE_CLASSES: Record<ProductStatus, string> = {
+  outOfStock: 'bg-red-100 text-red-800',
+  lowStock: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-red-100 text-red-800',
+  expiringSoon: 'bg-orange-100 text-orange-800',
+  inStock: 'bg-green-100 text-green-800'
 }
 
 /**
  * Displays a list of inventory products with filtering options
+ * Filters, sort order and page are read from and written to the URL.
+ * Rows can be selected across pages for bulk actions and shelf labels.
+ * Stock and statuses are those of the location chosen in the header.
  * @param props - Component props
  * @returns Product list component
  */
-function ProductList({ onEdit, onDelete }: ProductListProps): JSX.Element {
-  const [filters, setFilters] = useState<ProductFilters>({
-    searchTerm: '',
-    category: '',
-    stockStatus: 'all',
-    expiryStatus: 'all'
-  })
+function ProductList({ onEdit, onDelete, onDispense, onView }: ProductListProps): JSX.Element {
+  const { filters, page, pageSize, ordering, setFilters, setPage, setPageSize, setOrdering } =
+    useProductListParams()
 
-  // Fetch products data
-  const { data: products = [], isLoading, isError, error } = useQuery({
-    queryKey: ['products', filters],
-    queryFn: () => inventoryApi.getProducts(filters as unknown as Record<string, string>)
-  })
+  // Wait for typing to pause before querying the server
+  const debouncedFilters = useDebouncedValue(filters)
+
+  // Fetch the current page of products
+  const locationId = useLocationStore((state) => state.locationId)
+  const query = buildProductQuery(debouncedFilters, page, pageSize, ordering, locationId)
+  const { data, isLoading, isFetching, isError, error, fetchStatus } = useProducts(query)
+  // Stock, statuses and dispensing use the stock at the chosen location
+  const products = (data?.results ?? []).map((product) => scopeProductToLocation(product, locationId))
+  const selection = useProductSelection(products, query, data?.count ?? 0)
 
   /**
    * Handle filter changes from the filter component
    * @param newFilters - Updated filters
    */
-  const handleFilterChange = (newFilters: ProductFilters): void => {
+  const handleFilterChange = (newFilters: ProductFilterValues): void => {
     setFilters(newFilters)
   }
 
   /**
-   * Get the appropriate status badge class for a product
-   * @param product - Product to check status for
-   * @returns CSS class string for the badge
+   * Handle column header clicks
+   * @param field - Column to sort by
    */
-  const getStatusBadgeClass = (product: Product): string => {
-    if (product.stockQuantity === 0) {
-      return 'bg-red-100 text-red-800'
-    }
-    if (isLowStock(product.stockQuantity, product.minimumStockThreshold)) {
-      return 'bg-yellow-100 text-yellow-800'
-    }
-    if (isExpired(product.expiryDate)) {
-      return 'bg-red-100 text-red-800'
-    }
-    if (isExpiringSoon(product.expiryDate)) {
-      return 'bg-orange-100 text-orange-800'
-    }
-    return 'bg-green-100 text-green-800'
+  const handleSort = (field: ProductSortField): void => {
+    setOrdering(toggleOrdering(ordering, field))
   }
 
-  /**
-   * Get the status text for a product
-   * @param product - Product to check status for
-   * @returns Status text
-   */
-  const getStatusText = (product: Product): string => {
-    if (product.stockQuantity === 0) {
-      return 'Out of Stock'
-    }
-    if (isLowStock(product.stockQuantity, product.minimumStockThreshold)) {
-      return 'Low Stock'
-    }
-    if (isExpired(product.expiryDate)) {
-      return 'Expired'
-    }
-    if (isExpiringSoon(product.expiryDate)) {
-      return 'Expiring Soon'
-    }
-    return 'In Stock'
+  // Offline with nothing cached for this page; the query runs once back online
+  if (!data && fetchStatus === 'paused') {
+    return (
+      <div className="text-center p-8 bg-gray-50 rounded-md">
+        You are offline and this page has not been loaded before. It will load once the connection is back.
+      </div>
+    )
   }
 
   // Loading state
@@ -86,11 +102,11 @@ function ProductList({ onEdit, onDelete }: ProductListProps): JSX.Element {
     return <div className="text-center p-8">Loading products...</div>
   }
 
-  // Error state
-  if (isError) {
+  // Error state; a failed background refetch keeps the last page on screen
+  if (isError && !data) {
     return (
       <div className="text-center p-8 text-red-500">
-        Error loading products: {(error as Error).message}
+        Error loading products: {getErrorMessage(error)}
       </div>
     )
   }
@@ -98,60 +114,115 @@ function ProductList({ onEdit, onDelete }: ProductListProps): JSX.Element {
   return (
     <div className="space-y-4">
       <ProductFilters filters={filters} onFilterChange={handleFilterChange} />
+
+      <div className="flex justify-end">
+        <ExportMenu query={query} />
+      </div>
+
+      <ProductSelectionBar selection={selection} matchingCount={data?.count ?? 0} />
       
       {products.length === 0 ? (
         <div className="text-center p-8 bg-gray-50 rounded-md">
           No products found matching your criteria
         </div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="w-full border-collapse">
-            <thead className="bg-gray-100">
-              <tr>
-                <th className="px-4 py-2 text-left">Name</th>
-                <th className="px-4 py-2 text-left">Category</th>
-                <th className="px-4 py-2 text-left">Stock</th>
-                <th className="px-4 py-2 text-left">Price</th>
-                <th className="px-4 py-2 text-left">Expiry Date</th>
-                <th className="px-4 py-2 text-left">Status</th>
-                <th className="px-4 py-2 text-left">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {products.map((product) => (
-                <tr key={product.id} className="border-t hover:bg-gray-50">
-                  <td className="px-4 py-2">{product.name}</td>
-                  <td className="px-4 py-2">{product.category}</td>
-                  <td className="px-4 py-2">{product.stockQuantity}</td>
-                  <td className="px-4 py-2">{formatCurrency(product.price)}</td>
-                  <td className="px-4 py-2">{formatDate(product.expiryDate)}</td>
-                  <td className="px-4 py-2">
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(product)}`}>
-                      {getStatusText(product)}
-                    </span>
-                  </td>
-                  <td className="px-4 py-2">
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => onEdit(product)}
-                        className="text-blue-600 hover:text-blue-800"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => onDelete(product)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <VirtualizedTable
+          rows={products}
+          getRowKey={(product) => product.id}
+          columnCount={8}
+          onRowActivate={onView}
+          tableClassName="w-full border-collapse"
+          headerClassName="bg-gray-100"
+          rowClassName="border-t hover:bg-gray-50"
+          estimateRowHeight={41}
+          header={
+            <>
+              <th className="w-10 px-4 py-2">
+                <input
+                  type="checkbox"
+                  checked={selection.isPageSelected}
+                  onChange={selection.togglePage}
+                  aria-label="Select all products on this page"
+                />
+              </th>
+              <SortableHeader label="Name" field="name" ordering={ordering} onSort={handleSort} className="px-4 py-2 text-left" />
+              <SortableHeader label="Category" field="category" ordering={ordering} onSort={handleSort} className="px-4 py-2 text-left" />
+              <SortableHeader label="Stock" field="stockQuantity" ordering={ordering} onSort={handleSort} className="px-4 py-2 text-left" />
+              <SortableHeader label="Price" field="price" ordering={ordering} onSort={handleSort} className="px-4 py-2 text-left" />
+              <SortableHeader label="Expiry Date" field="expiryDate" ordering={ordering} onSort={handleSort} className="px-4 py-2 text-left" />
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2 text-left">Actions</th>
+            </>
+          }
+          renderRow={(product) => (
+            <>
+              <td className="px-4 py-2">
+                <input
+                  type="checkbox"
+                  checked={selection.isSelected(product.id)}
+                  onChange={() => selection.toggle(product)}
+                  aria-label={`Select ${product.name}`}
+                />
+              </td>
+              <td className="px-4 py-2">
+                <button
+                  onClick={() => onView(product)}
+                  className="text-left hover:underline"
+                >
+                  {product.name}
+                </button>
+              </td>
+              <td className="px-4 py-2">{product.category}</td>
+              <td className="px-4 py-2">{getProductStock(product)}</td>
+              <td className="px-4 py-2">{formatCurrency(product.price)}</td>
+              <td className="px-4 py-2">{formatDate(product.expiryDate)}</td>
+              <td className="px-4 py-2">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[getProductStatus(product)]}`}>
+                  {PRODUCT_STATUS_LABELS[getProductStatus(product)]}
+                </span>
+              </td>
+              <td className="px-4 py-2">
+                <div className="flex space-x-2">
+                  <Can permission="stock.dispense">
+                    <button
+                      onClick={() => onDispense(product)}
+                      disabled={getProductStock(product) === 0}
+                      className="text-green-600 hover:text-green-800 disabled:text-gray-400"
+                    >
+                      Dispense
+                    </button>
+                  </Can>
+                  <Can permission="product.edit">
+                    <button
+                      onClick={() => onEdit(product)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                  </Can>
+                  <Can permission="product.delete">
+                    <button
+                      onClick={() => onDelete(product)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </Can>
+                </div>
+              </td>
+            </>
+          )}
+        />
       )}
+
+      <PaginationControls
+        page={page}
+        pageSize={pageSize}
+        count={data?.count ?? 0}
+        onPageChange={setPage}
+        onPageSizeChange={setPageSize}
+        isFetching={isFetching}
+      />
     </div>
   )
 }
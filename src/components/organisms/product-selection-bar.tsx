@@ -0,0 +1,124 @@
+import { useState, type JSX } from 'react'
+import type { BulkProductActionType, Product } from '../../types/inventory'
+import { BULK_PRODUCT_ACTION_LABELS } from '../../types/inventory'
+import type { ProductSelection } from '../../hooks/use-product-selection'
+import { BULK_ACTION_PERMISSIONS } from '../../lib/bulk-actions'
+import { getErrorMessage } from '../../lib/utils'
+import Can from '../molecules/can'
+import BulkActionDialog from './bulk-action-dialog'
+import LabelSheetDialog from './label-sheet-dialog'
+
+interface ProductSelectionBarProps {
+  /** Row selection of the product table */
+  readonly selection: ProductSelection;
+  /** Number of products matching the current filters */
+  readonly matchingCount: number;
+}
+
+type SelectionTask = BulkProductActionType | 'labels'
+
+const BULK_ACTIONS = Object.keys(BULK_PRODUCT_ACTION_LABELS) as BulkProductActionType[]
+
+/**
+ * Toolbar shown while product rows are selected, with bulk actions and
+ * label printing for the selection
+ * @param props - Component props
+ * @returns Selection toolbar component, or nothing when no rows are selected
+ */
+function ProductSelectionBar({ selection, matchingCount }: ProductSelectionBarProps): JSX.Element | null {
+  const [task, setTask] = useState<{ type: SelectionTask; products: Product[] } | null>(null)
+  const [loadingTask, setLoadingTask] = useState<SelectionTask | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  /**
+   * Resolve the selected products, then open the dialog for a task
+   * @param type - Bulk action or label printing
+   */
+  const startTask = async (type: SelectionTask): Promise<void> => {
+    setLoadingTask(type)
+    setLoadError(null)
+    try {
+      setTask({ type, products: await selection.getSelectedProducts() })
+    } catch (error) {
+      setLoadError(`Failed to load the selected products: ${getErrorMessage(error)}`)
+    } finally {
+      setLoadingTask(null)
+    }
+  }
+
+  /**
+   * Keep only the failed products selected so the action can be retried
+   * @param failed - Products the action failed for
+   */
+  const handleCompleted = (failed: Product[]): void => {
+    if (failed.length > 0) {
+      selection.select(failed)
+    } else {
+      selection.clear()
+    }
+  }
+
+  if (selection.count === 0 && !task) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 bg-blue-50 rounded-md text-sm">
+      <span className="font-medium text-blue-900">
+        {selection.isAllMatching
+          ? `All ${selection.count} matching products selected`
+          : `${selection.count} selected`}
+      </span>
+      {selection.isPageSelected && !selection.isAllMatching && matchingCount > selection.count && (
+        <button onClick={selection.selectAllMatching} className="text-blue-700 hover:underline">
+          Select all {matchingCount} matching
+        </button>
+      )}
+      <button onClick={selection.clear} className="text-gray-600 hover:text-gray-800">
+        Clear
+      </button>
+
+      <div className="flex flex-wrap gap-2 ml-auto">
+        <button
+          onClick={() => startTask('labels')}
+          disabled={loadingTask !== null}
+          className="px-3 py-1.5 rounded bg-white border hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loadingTask === 'labels' ? 'Loading...' : 'Print Labels'}
+        </button>
+        {BULK_ACTIONS.map((type) => (
+          <Can key={type} permission={BULK_ACTION_PERMISSIONS[type]}>
+            <button
+              onClick={() => startTask(type)}
+              disabled={loadingTask !== null}
+              className={
+                type === 'delete'
+                  ? 'px-3 py-1.5 rounded bg-white border border-red-200 text-red-700 hover:bg-red-50 disabled:opacity-50'
+                  : 'px-3 py-1.5 rounded bg-white border hover:bg-gray-50 disabled:opacity-50'
+              }
+            >
+              {loadingTask === type ? 'Loading...' : BULK_PRODUCT_ACTION_LABELS[type]}
+            </button>
+          </Can>
+        ))}
+      </div>
+
+      {loadError && <p className="w-full text-red-600">{loadError}</p>}
+
+      {task?.type === 'labels' && (
+        <LabelSheetDialog products={task.products} isOpen onClose={() => setTask(null)} />
+      )}
+      {task && task.type !== 'labels' && (
+        <BulkActionDialog
+          actionType={task.type}
+          products={task.products}
+          isOpen
+          onClose={() => setTask(null)}
+          onCompleted={handleCompleted}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ProductSelectionBar
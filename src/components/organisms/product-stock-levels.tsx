@@ -0,0 +1,136 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { Product } from '../../types/inventory'
+import type { ProductStockLevel } from '../../types/location'
+import { LOCATION_KIND_LABELS } from '../../types/location'
+import { inventoryApi } from '../../services/api'
+import { useLocations } from '../../hooks/use-locations'
+import { usePermission } from '../../hooks/use-permission'
+import { updateCachedProduct } from '../../lib/product-cache'
+import { cn, getErrorMessage, isLowStock } from '../../lib/utils'
+import { showToast } from '../../stores/toast-store'
+import { useLocationStore } from '../../stores/location-store'
+
+interface ProductStockLevelsProps {
+  /** Product whose stock levels to show */
+  readonly product: Product;
+}
+
+/**
+ * Table of a product's stock at every location that holds it, with the
+ * units on their way there by transfer and the low stock threshold of each
+ * location; users who may edit products can change the thresholds
+ * @param props - Component props
+ * @returns Product stock levels component
+ */
+function ProductStockLevels({ product }: ProductStockLevelsProps): JSX.Element | null {
+  const queryClient = useQueryClient()
+  const canEdit = usePermission('product.edit')
+  const currentLocationId = useLocationStore((state) => state.locationId)
+  const { data: locations = [] } = useLocations()
+  // Thresholds being edited, by location
+  const [drafts, setDrafts] = useState<Record<number, string>>({})
+
+  // Save the threshold of one location
+  const thresholdMutation = useMutation({
+    mutationFn: ({ locationId, threshold }: { locationId: number; threshold: number }) =>
+      inventoryApi.updateStockLevel(product.id, locationId, threshold),
+    onSuccess: (level) => {
+      updateCachedProduct(queryClient, product.id, (cached) => ({
+        ...cached,
+        stockLevels: cached.stockLevels.map((current) => (current.locationId === level.locationId ? level : current))
+      }))
+      setDrafts((current) => {
+        const next = { ...current }
+        delete next[level.locationId]
+        return next
+      })
+      queryClient.invalidateQueries({ queryKey: ['products', 'list'], refetchType: 'none' })
+    },
+    onError: (error) => {
+      showToast(`Failed to save the threshold: ${getErrorMessage(error)}`, { variant: 'error' })
+    }
+  })
+
+  if (product.stockLevels.length === 0) return null
+
+  /**
+   * Save an edited threshold
+   * @param level - Stock level being edited
+   */
+  const handleSave = (level: ProductStockLevel): void => {
+    const threshold = parseInt(drafts[level.locationId] ?? '', 10)
+    if (Number.isNaN(threshold) || threshold < 0) return
+    thresholdMutation.mutate({ locationId: level.locationId, threshold })
+  }
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold mb-3">Stock by Location</h3>
+      <table className="w-full text-sm border">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="px-3 py-2 text-left">Branch</th>
+            <th className="px-3 py-2 text-left">Location</th>
+            <th className="px-3 py-2 text-right">Stock</th>
+            <th className="px-3 py-2 text-right">In Transit</th>
+            <th className="px-3 py-2 text-left">Low Stock At</th>
+          </tr>
+        </thead>
+        <tbody>
+          {product.stockLevels.map((level) => {
+            const location = locations.find(({ id }) => id === level.locationId)
+            const draft = drafts[level.locationId]
+            return (
+              <tr
+                key={level.locationId}
+                className={cn('border-t', level.locationId === currentLocationId && 'bg-blue-50')}
+              >
+                <td className="px-3 py-2">{location?.branch ?? '—'}</td>
+                <td className="px-3 py-2">
+                  {location ? `${location.name} (${LOCATION_KIND_LABELS[location.kind]})` : `Location ${level.locationId}`}
+                </td>
+                <td
+                  className={cn(
+                    'px-3 py-2 text-right',
+                    (level.quantity === 0 || isLowStock(level.quantity, level.minimumStockThreshold)) && 'text-red-600 font-medium'
+                  )}
+                >
+                  {level.quantity}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-500">{level.inTransitQuantity || '—'}</td>
+                <td className="px-3 py-2">
+                  {canEdit ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        aria-label={`Low stock threshold at ${location?.name ?? level.locationId}`}
+                        value={draft ?? String(level.minimumStockThreshold)}
+                        onChange={(e) => setDrafts((current) => ({ ...current, [level.locationId]: e.target.value }))}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      {draft !== undefined && draft !== String(level.minimumStockThreshold) && (
+                        <button
+                          onClick={() => handleSave(level)}
+                          disabled={thresholdMutation.isPending}
+                          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                        >
+                          Save
+                        </button>
+                      )}
+                    </div>
+                  ) : (
+                    level.minimumStockThreshold
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </section>
+  )
+}
+
+export default ProductStockLevels
@@ -0,0 +1,39 @@
+import type { JSX } from 'react'
+import type { Product } from '../../types/inventory'
+import { useTransfers } from '../../hooks/use-transfers'
+import TransferTable from './transfer-table'
+
+interface ProductTransferHistoryProps {
+  /** Product whose transfers are shown */
+  readonly product: Product;
+}
+
+/**
+ * Transfers of a product between locations, newest first, including the
+ * ones still waiting to be approved, shipped or received
+ * @param props - Component props
+ * @returns Product transfer history component
+ */
+function ProductTransferHistory({ product }: ProductTransferHistoryProps): JSX.Element {
+  const { data: transfers = [], isLoading, isError } = useTransfers({ product: product.id })
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold mb-3">Transfers</h3>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading transfers...</p>}
+
+      {isError && (
+        <p className="text-sm text-red-600">Error loading transfers.</p>
+      )}
+
+      {!isLoading && !isError && transfers.length === 0 && (
+        <p className="text-sm text-gray-500">No transfers requested yet.</p>
+      )}
+
+      {transfers.length > 0 && <TransferTable transfers={transfers} showProduct={false} />}
+    </section>
+  )
+}
+
+export default ProductTransferHistory
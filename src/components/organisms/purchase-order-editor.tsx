@@ -0,0 +1,197 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { PurchaseOrder, PurchaseOrderLine } from '../../types/purchase-order'
+import { inventoryApi } from '../../services/api'
+import { formatCurrency, getErrorMessage } from '../../lib/utils'
+import { getPurchaseOrderTotal } from '../../lib/purchase-order'
+
+interface PurchaseOrderEditorProps {
+  /** Draft purchase order to edit */
+  readonly order: PurchaseOrder;
+  /** Handler called after the draft was deleted */
+  readonly onDeleted: () => void;
+}
+
+type EditableLine = Pick<PurchaseOrderLine, 'productId' | 'productName' | 'sku' | 'quantity' | 'unitPrice'>
+
+/**
+ * Editor for the lines and note of a draft purchase order, with actions to
+ * save, send or delete it
+ * @param props - Component props
+ * @returns Purchase order editor component
+ */
+function PurchaseOrderEditor({ order, onDeleted }: PurchaseOrderEditorProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const [lines, setLines] = useState<EditableLine[]>(() => order.lines.map((line) => ({ ...line })))
+  const [note, setNote] = useState<string>(order.note)
+  const hasLines = lines.some((line) => line.quantity > 0)
+
+  /**
+   * Save the edited lines and note; lines with no quantity are dropped
+   * @returns Promise with the saved order
+   */
+  const saveDraft = (): Promise<PurchaseOrder> =>
+    inventoryApi.updatePurchaseOrder(order.id, {
+      supplier: order.supplier,
+      note,
+      lines: lines
+        .filter((line) => line.quantity > 0)
+        .map(({ productId, quantity, unitPrice }) => ({ productId, quantity, unitPrice }))
+    })
+
+  /**
+   * Refresh cached purchase orders after a change
+   */
+  const invalidateOrders = (): void => {
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+  }
+
+  // Save the draft
+  const saveMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: invalidateOrders
+  })
+
+  // Save the draft, then mark it as sent
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      await saveDraft()
+      return inventoryApi.updatePurchaseOrderStatus(order.id, 'sent')
+    },
+    onSuccess: invalidateOrders
+  })
+
+  // Delete the draft
+  const deleteMutation = useMutation({
+    mutationFn: () => inventoryApi.deletePurchaseOrder(order.id),
+    onSuccess: () => {
+      invalidateOrders()
+      onDeleted()
+    }
+  })
+
+  /**
+   * Update a numeric field of a line
+   * @param index - Line index
+   * @param field - Field to update
+   * @param value - Input value
+   */
+  const handleLineChange = (index: number, field: 'quantity' | 'unitPrice', value: string): void => {
+    const parsed = Math.max(Number(value) || 0, 0)
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, [field]: parsed } : line)))
+  }
+
+  const isBusy = saveMutation.isPending || sendMutation.isPending || deleteMutation.isPending
+  const mutationError = saveMutation.error ?? sendMutation.error ?? deleteMutation.error
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full border-collapse">
+        <thead className="bg-gray-100 text-left text-sm">
+          <tr>
+            <th className="px-4 py-2">Product</th>
+            <th className="px-4 py-2">Quantity</th>
+            <th className="px-4 py-2">Unit Price ($)</th>
+            <th className="px-4 py-2">Total</th>
+            <th className="px-4 py-2">
+              <span className="sr-only">Actions</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={line.productId} className="border-t text-sm">
+              <td className="px-4 py-2">
+                <div className="font-medium">{line.productName}</div>
+                {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+              </td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  min="0"
+                  aria-label={`Quantity of ${line.productName}`}
+                  value={line.quantity}
+                  onChange={(e) => handleLineChange(index, 'quantity', e.target.value)}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  aria-label={`Unit price of ${line.productName}`}
+                  value={line.unitPrice}
+                  onChange={(e) => handleLineChange(index, 'unitPrice', e.target.value)}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </td>
+              <td className="px-4 py-2">{formatCurrency(line.quantity * line.unitPrice)}</td>
+              <td className="px-4 py-2">
+                <button
+                  onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t font-medium">
+            <td className="px-4 py-2" colSpan={3}>Total</td>
+            <td className="px-4 py-2" colSpan={2}>{formatCurrency(getPurchaseOrderTotal(lines))}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div>
+        <label htmlFor="orderNote" className="block text-sm font-medium text-gray-700 mb-1">
+          Note to supplier
+        </label>
+        <textarea
+          id="orderNote"
+          rows={3}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      {mutationError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          {getErrorMessage(mutationError)}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => deleteMutation.mutate()}
+          disabled={isBusy}
+          className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-md disabled:bg-red-300"
+        >
+          {deleteMutation.isPending ? 'Deleting...' : 'Delete Draft'}
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={isBusy || !hasLines}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md disabled:text-gray-400"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Draft'}
+          </button>
+          <button
+            onClick={() => sendMutation.mutate()}
+            disabled={isBusy || !hasLines}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:bg-blue-300"
+          >
+            {sendMutation.isPending ? 'Sending...' : 'Mark as Sent'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PurchaseOrderEditor
@@ -0,0 +1,264 @@
+import { useState, type JSX, type KeyboardEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { DeliveryFlag, PurchaseOrder, PurchaseOrderReceiptLine, ReceivingEntry } from '../../types/purchase-order'
+import { inventoryApi } from '../../services/api'
+import { cn, getErrorMessage } from '../../lib/utils'
+import { parseGs1 } from '../../lib/gs1'
+import {
+  addScannedUnit,
+  buildReceipt,
+  findOrderLine,
+  getDeliveryFlag,
+  getOutstandingQuantity,
+  getReceivedByLine,
+  insertReceivingEntry,
+  validateReceiptLine
+} from '../../lib/receiving'
+
+interface PurchaseOrderReceivingProps {
+  /** Sent or partially received order to receive against */
+  readonly order: PurchaseOrder;
+  /** Handler called after the delivery was posted */
+  readonly onReceived: (order: PurchaseOrder) => void;
+}
+
+const FLAG_STYLES: Record<DeliveryFlag, { label: string; className: string }> = {
+  none: { label: 'Not delivered', className: 'bg-gray-100 text-gray-700' },
+  under: { label: 'Under-delivered', className: 'bg-yellow-100 text-yellow-800' },
+  complete: { label: 'Complete', className: 'bg-green-100 text-green-800' },
+  over: { label: 'Over-delivered', className: 'bg-red-100 text-red-800' }
+}
+
+/**
+ * Form for receiving a delivery against a purchase order: received
+ * quantities, lot numbers and expiry dates per line, with barcode scanning
+ * A keyboard-wedge scanner types the code into the scan field and presses
+ * Enter; each scan counts one unit of the matching line, taking the lot
+ * number and expiry date from a GS1 DataMatrix code.
+ * @param props - Component props
+ * @returns Purchase order receiving component
+ */
+function PurchaseOrderReceiving({ order, onReceived }: PurchaseOrderReceivingProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const [entries, setEntries] = useState<ReceivingEntry[]>(() =>
+    order.lines.map((line, index) => ({
+      key: index,
+      lineId: line.id,
+      quantity: getOutstandingQuantity(line),
+      lotNumber: '',
+      expiryDate: '',
+      isScanned: false
+    }))
+  )
+  const [scanCode, setScanCode] = useState<string>('')
+  const [scanMessage, setScanMessage] = useState<string | null>(null)
+  const [scannedLineId, setScannedLineId] = useState<number | null>(null)
+  const [acceptOverDelivery, setAcceptOverDelivery] = useState<boolean>(false)
+  // One key per receiving session so a repeated submit is applied only once
+  const [idempotencyKey] = useState<string>(() => crypto.randomUUID())
+
+  const receivedByLine = getReceivedByLine(entries)
+  const flags = new Map(order.lines.map((line) => [line.id, getDeliveryFlag(line, receivedByLine.get(line.id) ?? 0)]))
+  const hasOverDelivery = [...flags.values()].includes('over')
+  const entryErrors = new Map(entries.map((entry) => [entry.key, validateReceiptLine(entry)]))
+  const hasErrors = [...entryErrors.values()].some((errors) => errors.length > 0)
+  const receipt = buildReceipt(order, entries)
+  const canConfirm = receipt.lines.length > 0 && !hasErrors && (!hasOverDelivery || acceptOverDelivery)
+  const scannedLine = order.lines.find((line) => line.id === scannedLineId)
+
+  // Post the delivery
+  const receiveMutation = useMutation({
+    mutationFn: () => inventoryApi.receivePurchaseOrder(order.id, receipt, idempotencyKey),
+    onSuccess: (updatedOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      onReceived(updatedOrder)
+    }
+  })
+
+  /**
+   * Update a field of a lot
+   * @param key - Lot key
+   * @param changes - Changed fields
+   */
+  const updateEntry = (key: number, changes: Partial<PurchaseOrderReceiptLine>): void => {
+    setEntries((prev) => prev.map((entry) => (entry.key === key ? { ...entry, ...changes } : entry)))
+  }
+
+  /**
+   * Add another lot for a line, e.g. when a delivery holds two expiry dates
+   * @param lineId - Purchase order line
+   */
+  const addLot = (lineId: number): void => {
+    setEntries((prev) =>
+      insertReceivingEntry(prev, { lineId, quantity: 0, lotNumber: '', expiryDate: '', isScanned: false })
+    )
+  }
+
+  /**
+   * Handle a scanned code: count one unit of the matching line
+   * @param e - Key event from the scan field
+   */
+  const handleScanKeyDown = (e: KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+    // Read the field itself; a scanner can send the next code before a re-render
+    const code = e.currentTarget.value.trim()
+    setScanCode('')
+    if (!code) return
+
+    const line = findOrderLine(order.lines, code)
+    if (!line) {
+      setScanMessage(`${code} is not on this order`)
+      setScannedLineId(null)
+      return
+    }
+
+    // Count from the latest lots so scans arriving before a re-render all count
+    setEntries((prev) => addScannedUnit(prev, line.id, parseGs1(code)))
+    setScanMessage(null)
+    setScannedLineId(line.id)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-md">
+        <label htmlFor="scanCode" className="block text-sm font-medium text-gray-700 mb-1">
+          Scan barcode
+        </label>
+        <input
+          id="scanCode"
+          type="text"
+          autoFocus
+          autoComplete="off"
+          value={scanCode}
+          onChange={(e) => setScanCode(e.target.value)}
+          onKeyDown={handleScanKeyDown}
+          placeholder="Scan or type a barcode or SKU and press Enter"
+          className="w-full md:w-96 px-3 py-2 border border-gray-300 rounded-md"
+        />
+        {scanMessage && <p className="mt-1 text-sm text-gray-600">{scanMessage}</p>}
+        {!scanMessage && scannedLine && (
+          <p className="mt-1 text-sm text-gray-600">
+            {scannedLine.productName}: {receivedByLine.get(scannedLine.id) ?? 0} received
+          </p>
+        )}
+      </div>
+
+      <table className="w-full border-collapse">
+        <thead className="bg-gray-100 text-left text-sm">
+          <tr>
+            <th className="px-4 py-2">Product</th>
+            <th className="px-4 py-2">Ordered</th>
+            <th className="px-4 py-2">Outstanding</th>
+            <th className="px-4 py-2">Received</th>
+            <th className="px-4 py-2">Lot Number</th>
+            <th className="px-4 py-2">Expiry Date</th>
+            <th className="px-4 py-2">Delivery</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map((line) => {
+            const lineEntries = entries.filter((entry) => entry.lineId === line.id)
+            const flag = flags.get(line.id) ?? 'none'
+
+            return lineEntries.map((entry, index) => (
+              <tr
+                key={entry.key}
+                className={cn('text-sm align-top', index === 0 && 'border-t', scannedLineId === line.id && 'bg-blue-50')}
+              >
+                {index === 0 && (
+                  <>
+                    <td className="px-4 py-2" rowSpan={lineEntries.length}>
+                      <div className="font-medium">{line.productName}</div>
+                      {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                      <button
+                        type="button"
+                        onClick={() => addLot(line.id)}
+                        className="mt-1 text-xs text-blue-600 hover:underline"
+                      >
+                        + Add lot
+                      </button>
+                    </td>
+                    <td className="px-4 py-2" rowSpan={lineEntries.length}>{line.quantity}</td>
+                    <td className="px-4 py-2" rowSpan={lineEntries.length}>{getOutstandingQuantity(line)}</td>
+                  </>
+                )}
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    aria-label={`Received quantity of ${line.productName}`}
+                    value={entry.quantity}
+                    onChange={(e) => updateEntry(entry.key, { quantity: Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="text"
+                    aria-label={`Lot number of ${line.productName}`}
+                    value={entry.lotNumber}
+                    onChange={(e) => updateEntry(entry.key, { lotNumber: e.target.value })}
+                    className="w-32 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="date"
+                    aria-label={`Expiry date of ${line.productName}`}
+                    value={entry.expiryDate}
+                    onChange={(e) => updateEntry(entry.key, { expiryDate: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                  {entryErrors.get(entry.key)?.map((error) => (
+                    <p key={error} className="mt-1 text-xs text-red-600">{error}</p>
+                  ))}
+                </td>
+                {index === 0 && (
+                  <td className="px-4 py-2" rowSpan={lineEntries.length}>
+                    <span className={cn('px-2 py-1 rounded-full text-xs font-medium', FLAG_STYLES[flag].className)}>
+                      {FLAG_STYLES[flag].label}
+                    </span>
+                  </td>
+                )}
+              </tr>
+            ))
+          })}
+        </tbody>
+      </table>
+
+      {hasOverDelivery && (
+        <label className="flex items-center gap-2 p-3 bg-red-50 text-red-800 rounded-md text-sm">
+          <input
+            type="checkbox"
+            checked={acceptOverDelivery}
+            onChange={(e) => setAcceptOverDelivery(e.target.checked)}
+          />
+          More units were delivered than ordered. Accept the over-delivery.
+        </label>
+      )}
+
+      {receiveMutation.isError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          Failed to receive delivery: {getErrorMessage(receiveMutation.error)}
+        </div>
+      )}
+
+      <div className="flex justify-end items-center gap-4">
+        <span className="text-sm text-gray-600">
+          Order will be marked {receipt.status === 'received' ? 'fully received' : 'partially received'}
+        </span>
+        <button
+          onClick={() => receiveMutation.mutate()}
+          disabled={!canConfirm || receiveMutation.isPending}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md disabled:bg-green-300"
+        >
+          {receiveMutation.isPending ? 'Receiving...' : 'Confirm Delivery'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default PurchaseOrderReceiving
@@ -0,0 +1,107 @@
+import type { JSX } from 'react'
+import type { ReorderSuggestion } from '../../types/purchase-order'
+import { formatCurrency } from '../../lib/utils'
+import { getPurchaseOrderTotal } from '../../lib/purchase-order'
+import Can from '../molecules/can'
+
+interface ReorderSupplierGroupProps {
+  /** Supplier the products are ordered from */
+  readonly supplier: string;
+  /** Products of the supplier that need reordering */
+  readonly suggestions: readonly ReorderSuggestion[];
+  /** Order quantity per product ID */
+  readonly quantities: Readonly<Record<number, number>>;
+  /** Handler for editing an order quantity */
+  readonly onQuantityChange: (productId: number, quantity: number) => void;
+  /** Handler for creating a draft purchase order for the supplier */
+  readonly onCreateOrder: () => void;
+  /** Whether the dispense velocity column is shown */
+  readonly showVelocity: boolean;
+  /** Whether the draft order is being created */
+  readonly isCreating: boolean;
+}
+
+/**
+ * Reorder suggestions of one supplier with editable order quantities
+ * @param props - Component props
+ * @returns Supplier group component
+ */
+function ReorderSupplierGroup({
+  supplier,
+  suggestions,
+  quantities,
+  onQuantityChange,
+  onCreateOrder,
+  showVelocity,
+  isCreating
+}: ReorderSupplierGroupProps): JSX.Element {
+  const lines = suggestions.map(({ product }) => ({
+    quantity: quantities[product.id] ?? 0,
+    unitPrice: product.price
+  }))
+  const hasLines = lines.some((line) => line.quantity > 0)
+
+  return (
+    <section className="bg-white border rounded-lg">
+      <div className="flex justify-between items-center px-4 py-3 border-b">
+        <div>
+          <h3 className="font-semibold">{supplier}</h3>
+          <p className="text-sm text-gray-500">
+            {suggestions.length} {suggestions.length === 1 ? 'product' : 'products'} · Estimated{' '}
+            {formatCurrency(getPurchaseOrderTotal(lines))}
+          </p>
+        </div>
+        <Can permission="purchaseOrder.manage">
+          <button
+            onClick={onCreateOrder}
+            disabled={!hasLines || isCreating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isCreating ? 'Creating...' : 'Create Draft PO'}
+          </button>
+        </Can>
+      </div>
+
+      <table className="w-full">
+        <thead className="bg-gray-50 text-left text-sm text-gray-600">
+          <tr>
+            <th className="px-4 py-2">Product</th>
+            <th className="px-4 py-2">Stock</th>
+            <th className="px-4 py-2">Threshold</th>
+            {showVelocity && <th className="px-4 py-2">Dispensed / Day</th>}
+            <th className="px-4 py-2">Suggested</th>
+            <th className="px-4 py-2">Order Qty</th>
+            <th className="px-4 py-2">Unit Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          {suggestions.map(({ product, stock, dailyVelocity, suggestedQuantity }) => (
+            <tr key={product.id} className="border-t text-sm">
+              <td className="px-4 py-2">
+                <div className="font-medium">{product.name}</div>
+                {product.sku && <div className="text-xs text-gray-500">{product.sku}</div>}
+              </td>
+              <td className={stock === 0 ? 'px-4 py-2 text-red-600 font-medium' : 'px-4 py-2'}>{stock}</td>
+              <td className="px-4 py-2">{product.minimumStockThreshold}</td>
+              {showVelocity && <td className="px-4 py-2">{dailyVelocity.toFixed(1)}</td>}
+              <td className="px-4 py-2 text-gray-500">{suggestedQuantity}</td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  min="0"
+                  aria-label={`Order quantity for ${product.name}`}
+                  value={quantities[product.id] ?? 0}
+                  onChange={(e) => onQuantityChange(product.id, Math.max(parseInt(e.target.value, 10) || 0, 0))}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </td>
+              <td className="px-4 py-2">{formatCurrency(product.price)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
+
+export default ReorderSupplierGroup
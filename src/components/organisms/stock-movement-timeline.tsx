@@ -0,0 +1,73 @@
+import type { JSX } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { Product } from '../../types/inventory'
+import { STOCK_MOVEMENT_REASON_LABELS, STOCK_MOVEMENT_TYPE_LABELS } from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { cn, formatDate, getProductStock, withRunningBalance } from '../../lib/utils'
+
+interface StockMovementTimelineProps {
+  /** Product whose movements are shown */
+  readonly product: Product;
+}
+
+/**
+ * Timeline of a product's stock movements, newest first, with the running balance
+ * @param props - Component props
+ * @returns Stock movement timeline component
+ */
+function StockMovementTimeline({ product }: StockMovementTimelineProps): JSX.Element {
+  // Fetch the movement ledger of the product
+  const { data: movements = [], isLoading, isError } = useQuery({
+    queryKey: ['products', product.id, 'movements'],
+    queryFn: () => inventoryApi.getStockMovements(product.id)
+  })
+
+  const timeline = withRunningBalance(movements, getProductStock(product))
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold mb-3">Stock Movements</h3>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading movements...</p>}
+
+      {isError && (
+        <p className="text-sm text-red-600">Error loading stock movements.</p>
+      )}
+
+      {!isLoading && !isError && timeline.length === 0 && (
+        <p className="text-sm text-gray-500">No stock movements recorded yet.</p>
+      )}
+
+      <ol className="relative border-l border-gray-200 ml-2">
+        {timeline.map((movement) => (
+          <li key={movement.id} className="mb-4 ml-4">
+            <span
+              className={cn(
+                'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white',
+                movement.quantity >= 0 ? 'bg-green-500' : 'bg-red-500'
+              )}
+            />
+            <div className="flex justify-between items-baseline">
+              <p className="text-sm font-medium">
+                {STOCK_MOVEMENT_TYPE_LABELS[movement.type]}{' '}
+                <span className={movement.quantity >= 0 ? 'text-green-700' : 'text-red-700'}>
+                  {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                </span>
+              </p>
+              <p className="text-xs text-gray-500">Balance: {movement.balance}</p>
+            </div>
+            <p className="text-xs text-gray-500">
+              {formatDate(movement.createdAt, 'MMM dd, yyyy HH:mm')} by {movement.user}
+            </p>
+            <p className="text-xs text-gray-700">
+              {STOCK_MOVEMENT_REASON_LABELS[movement.reason]}
+              {movement.note && ` — ${movement.note}`}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
+
+export default StockMovementTimeline
@@ -0,0 +1,236 @@
+import { useState, type JSX, type KeyboardEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { Stocktake, StocktakeCount, StocktakeLine } from '../../types/stocktake'
+import { inventoryApi } from '../../services/api'
+import { useIdempotencyKey } from '../../hooks/use-idempotency-key'
+import { findStocktakeLine } from '../../lib/stocktake'
+import { cn, getErrorMessage } from '../../lib/utils'
+
+interface StocktakeCountSheetProps {
+  /** Stocktake being counted */
+  readonly stocktake: Stocktake;
+}
+
+interface CountDraft {
+  /** Count as typed or stepped */
+  readonly text: string;
+  /** Saved count the draft started from, null when the line was not counted yet */
+  readonly savedQuantity: number | null;
+}
+
+/**
+ * Parses a typed count
+ * @param value - Text typed into a count field
+ * @returns Whole number of units, or null when the text is not one
+ */
+const parseCount = (value: string): number | null => {
+  const count = Number(value)
+  return value.trim() !== '' && Number.isInteger(count) && count >= 0 ? count : null
+}
+
+/**
+ * Count entry screen of a stocktake, sized for a tablet
+ * A keyboard-wedge scanner types the code into the scan field and presses
+ * Enter; each scan adds one unit to the matching product. Counts can also be
+ * typed or stepped with the buttons. Counts are kept on the device until
+ * they are saved. Saving sends the units counted here since the draft
+ * started, which the server adds to the saved count, so counts saved
+ * meanwhile by other counters on the same session are kept.
+ * Expected quantities are not shown, so they do not bias the count.
+ * @param props - Component props
+ * @returns Stocktake count sheet component
+ */
+function StocktakeCountSheet({ stocktake }: StocktakeCountSheetProps): JSX.Element {
+  const queryClient = useQueryClient()
+  // Counts entered but not saved yet, by line
+  const [drafts, setDrafts] = useState<Record<number, CountDraft>>({})
+  const [scanCode, setScanCode] = useState<string>('')
+  const [scanMessage, setScanMessage] = useState<string | null>(null)
+  const [scannedLineId, setScannedLineId] = useState<number | null>(null)
+  const [showUncountedOnly, setShowUncountedOnly] = useState<boolean>(false)
+
+  const saveKey = useIdempotencyKey()
+
+  const counts: StocktakeCount[] = Object.entries(drafts).flatMap(([lineId, draft]) => {
+    const countedQuantity = parseCount(draft.text)
+    return countedQuantity === null
+      ? []
+      : [{ lineId: Number(lineId), addedQuantity: countedQuantity - (draft.savedQuantity ?? 0) }]
+  })
+  const hasInvalidDrafts = counts.length < Object.keys(drafts).length
+  const lines = showUncountedOnly
+    ? stocktake.lines.filter((line) => line.countedQuantity === null && drafts[line.id] === undefined)
+    : stocktake.lines
+
+  // Save the entered counts
+  const saveMutation = useMutation({
+    mutationFn: () => inventoryApi.saveStocktakeCounts(stocktake.id, counts, saveKey.getKey(counts)),
+    onSuccess: (updated) => {
+      saveKey.reset()
+      queryClient.setQueryData(['stocktakes', stocktake.id], updated)
+      queryClient.invalidateQueries({ queryKey: ['stocktakes', 'list'] })
+      setDrafts({})
+    }
+  })
+
+  /**
+   * Gets the count shown for a line: the unsaved draft, else the saved count
+   * @param line - Stocktake line
+   * @returns Count as typed text
+   */
+  const getCountText = (line: StocktakeLine): string =>
+    drafts[line.id]?.text ?? (line.countedQuantity === null ? '' : String(line.countedQuantity))
+
+  /**
+   * Changes the draft of a line, starting one from the saved count
+   * @param line - Stocktake line
+   * @param getText - Gets the new text from the current one
+   */
+  const updateDraft = (line: StocktakeLine, getText: (text: string) => string): void => {
+    // Read the latest draft so scans arriving before a re-render all count
+    setDrafts((prev) => {
+      const draft = prev[line.id] ?? { text: String(line.countedQuantity ?? 0), savedQuantity: line.countedQuantity }
+      return { ...prev, [line.id]: { ...draft, text: getText(draft.text) } }
+    })
+  }
+
+  /**
+   * Change the count of a line by a number of units
+   * @param line - Stocktake line
+   * @param delta - Units to add, negative to remove
+   */
+  const stepCount = (line: StocktakeLine, delta: number): void => {
+    updateDraft(line, (text) => String(Math.max((parseCount(text) ?? 0) + delta, 0)))
+  }
+
+  /**
+   * Handle a scanned code: add one unit to the matching product
+   * @param e - Key event from the scan field
+   */
+  const handleScanKeyDown = (e: KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+    const code = scanCode.trim()
+    setScanCode('')
+    if (!code) return
+
+    const line = findStocktakeLine(stocktake.lines, code)
+    if (!line) {
+      setScanMessage(`${code} is not part of this stocktake`)
+      setScannedLineId(null)
+      return
+    }
+
+    stepCount(line, 1)
+    setScanMessage(`${line.productName}: ${(parseCount(getCountText(line)) ?? 0) + 1} counted`)
+    setScannedLineId(line.id)
+    document.getElementById(`stocktake-line-${line.id}`)?.scrollIntoView({ block: 'nearest' })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-md flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label htmlFor="stocktakeScan" className="block text-sm font-medium text-gray-700 mb-1">
+            Scan barcode
+          </label>
+          <input
+            id="stocktakeScan"
+            type="text"
+            autoFocus
+            autoComplete="off"
+            value={scanCode}
+            onChange={(e) => setScanCode(e.target.value)}
+            onKeyDown={handleScanKeyDown}
+            placeholder="Scan or type a barcode or SKU and press Enter"
+            className="w-full px-4 py-3 text-lg border border-gray-300 rounded-md"
+          />
+          {scanMessage && <p className="mt-1 text-sm text-gray-600">{scanMessage}</p>}
+        </div>
+        <label className="flex items-center gap-2 text-sm py-3">
+          <input
+            type="checkbox"
+            checked={showUncountedOnly}
+            onChange={(e) => setShowUncountedOnly(e.target.checked)}
+            className="h-5 w-5"
+          />
+          Uncounted only
+        </label>
+      </div>
+
+      <ul className="divide-y border rounded-md">
+        {lines.map((line) => {
+          const countText = getCountText(line)
+          const isDraft = drafts[line.id] !== undefined
+          return (
+            <li
+              key={line.id}
+              id={`stocktake-line-${line.id}`}
+              className={cn('flex items-center justify-between gap-4 p-3', scannedLineId === line.id && 'bg-blue-50')}
+            >
+              <div>
+                <div className="font-medium">{line.productName}</div>
+                <div className="text-xs text-gray-500">
+                  {[line.sku, line.barcode].filter(Boolean).join(' · ')}
+                  {line.countedBy && !isDraft && ` · Counted by ${line.countedBy}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  aria-label={`One less ${line.productName}`}
+                  onClick={() => stepCount(line, -1)}
+                  className="h-12 w-12 text-xl bg-gray-100 hover:bg-gray-200 rounded"
+                >
+                  −
+                </button>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  aria-label={`Counted ${line.productName}`}
+                  value={countText}
+                  onChange={(e) => {
+                    const text = e.target.value
+                    updateDraft(line, () => text)
+                  }}
+                  className={cn(
+                    'h-12 w-20 text-center text-lg border rounded-md',
+                    isDraft && parseCount(countText) === null ? 'border-red-500' : 'border-gray-300',
+                    isDraft && 'bg-yellow-50'
+                  )}
+                />
+                <button
+                  type="button"
+                  aria-label={`One more ${line.productName}`}
+                  onClick={() => stepCount(line, 1)}
+                  className="h-12 w-12 text-xl bg-gray-100 hover:bg-gray-200 rounded"
+                >
+                  +
+                </button>
+              </div>
+            </li>
+          )
+        })}
+        {lines.length === 0 && (
+          <li className="p-6 text-center text-gray-500">Every product has been counted.</li>
+        )}
+      </ul>
+
+      <div className="sticky bottom-0 bg-white border-t py-3 flex items-center gap-3">
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={counts.length === 0 || hasInvalidDrafts || saveMutation.isPending}
+          className="px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-gray-300"
+        >
+          {saveMutation.isPending ? 'Saving...' : `Save ${counts.length} Counts`}
+        </button>
+        {hasInvalidDrafts && <p className="text-sm text-red-600">Counts must be whole numbers.</p>}
+        {saveMutation.isError && (
+          <p className="text-sm text-red-600">Failed to save the counts: {getErrorMessage(saveMutation.error)}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default StocktakeCountSheet
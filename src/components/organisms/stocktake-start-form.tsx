@@ -0,0 +1,125 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { Stocktake } from '../../types/stocktake'
+import { inventoryApi } from '../../services/api'
+import { useLocations } from '../../hooks/use-locations'
+import { getErrorMessage } from '../../lib/utils'
+import { useLocationStore } from '../../stores/location-store'
+
+interface StocktakeStartFormProps {
+  /** Handler called with the new session once it has started */
+  readonly onStarted: (stocktake: Stocktake) => void;
+}
+
+/**
+ * Form choosing the scope of a new stocktake: one category, one location,
+ * both or every product; the location defaults to the one chosen in the header
+ * @param props - Component props
+ * @returns Stocktake start form component
+ */
+function StocktakeStartForm({ onStarted }: StocktakeStartFormProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const currentLocationId = useLocationStore((state) => state.locationId)
+  const { data: locations = [] } = useLocations()
+  const [category, setCategory] = useState<string>('')
+  const [locationId, setLocationId] = useState<number | null>(currentLocationId)
+  const [note, setNote] = useState<string>('')
+
+  // Fetch categories for the scope select
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => inventoryApi.getCategories()
+  })
+
+  // Start the session
+  const startMutation = useMutation({
+    mutationFn: () => inventoryApi.createStocktake({ category: category || null, locationId, note: note.trim() }),
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] })
+      onStarted(stocktake)
+    }
+  })
+
+  /**
+   * Handle form submission
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (startMutation.isPending) return
+    startMutation.mutate()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 p-4 rounded-md space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="stocktakeCategory" className="block text-sm font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          <select
+            id="stocktakeCategory"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+          >
+            <option value="">All categories</option>
+            {categories.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="stocktakeLocation" className="block text-sm font-medium text-gray-700 mb-1">
+            Location
+          </label>
+          <select
+            id="stocktakeLocation"
+            value={locationId ?? ''}
+            onChange={(e) => setLocationId(e.target.value ? Number(e.target.value) : null)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.branch} · {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="stocktakeNote" className="block text-sm font-medium text-gray-700 mb-1">
+            Note
+          </label>
+          <input
+            id="stocktakeNote"
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Yearly stocktake"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={startMutation.isPending}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded disabled:bg-gray-300"
+        >
+          {startMutation.isPending ? 'Starting...' : 'Start Stocktake'}
+        </button>
+        <p className="text-sm text-gray-500">
+          Expected quantities are frozen when the stocktake starts.
+        </p>
+      </div>
+      {startMutation.isError && (
+        <p className="text-sm text-red-600">
+          Failed to start the stocktake: {getErrorMessage(startMutation.error)}
+        </p>
+      )}
+    </form>
+  )
+}
+
+export default StocktakeStartForm
@@ -0,0 +1,165 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { StockMovementReason } from '../../types/inventory'
+import { STOCK_MOVEMENT_REASON_LABELS } from '../../types/inventory'
+import type { Stocktake } from '../../types/stocktake'
+import { STOCKTAKE_REASONS } from '../../types/stocktake'
+import { inventoryApi } from '../../services/api'
+import { usePermission } from '../../hooks/use-permission'
+import { getStocktakeVariances, summarizeStocktake } from '../../lib/stocktake'
+import { cn, formatCurrency, getErrorMessage } from '../../lib/utils'
+import { showToast } from '../../stores/toast-store'
+
+interface StocktakeVarianceReportProps {
+  /** Stocktake to report on */
+  readonly stocktake: Stocktake;
+}
+
+/**
+ * Variance report of a stocktake: counted against expected stock per
+ * product, with shrinkage and surplus valued at the product price
+ * While counting, users allowed to approve can post the variances as one
+ * batch of adjustments with a reason.
+ * @param props - Component props
+ * @returns Stocktake variance report component
+ */
+function StocktakeVarianceReport({ stocktake }: StocktakeVarianceReportProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const canApprove = usePermission('stocktake.approve')
+  const [reason, setReason] = useState<StockMovementReason>('count_correction')
+  const [note, setNote] = useState<string>(stocktake.note)
+  // One key per report so a repeated approval is applied only once
+  const [idempotencyKey] = useState<string>(() => crypto.randomUUID())
+
+  const variances = getStocktakeVariances(stocktake.lines)
+  const summary = summarizeStocktake(stocktake)
+
+  // Post the adjustments
+  const approveMutation = useMutation({
+    mutationFn: () => inventoryApi.approveStocktake(stocktake.id, { reason, note: note.trim() }, idempotencyKey),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['stocktakes', stocktake.id], updated)
+      queryClient.invalidateQueries({ queryKey: ['stocktakes', 'list'] })
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      showToast(`${updated.number} approved: ${variances.length} adjustments posted`)
+    }
+  })
+
+  return (
+    <section className="space-y-4">
+      <h3 className="text-sm font-semibold">Variance Report</h3>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm bg-white border rounded-lg p-4">
+        <div>
+          <dt className="text-gray-500">Counted</dt>
+          <dd className="font-medium">{summary.countedLines} of {stocktake.lines.length}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Shrinkage</dt>
+          <dd className="font-medium text-red-600">{formatCurrency(summary.shrinkageValue)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Surplus</dt>
+          <dd className="font-medium text-green-700">{formatCurrency(summary.surplusValue)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Net</dt>
+          <dd className={cn('font-medium', summary.netValue < 0 ? 'text-red-600' : 'text-green-700')}>
+            {formatCurrency(summary.netValue)}
+          </dd>
+        </div>
+      </dl>
+
+      {variances.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {summary.countedLines === 0 ? 'Nothing has been counted yet.' : 'Every counted product matches the expected stock.'}
+        </p>
+      ) : (
+        <table className="w-full border-collapse text-sm">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="px-4 py-2">Product</th>
+              <th className="px-4 py-2 text-right">Expected</th>
+              <th className="px-4 py-2 text-right">Counted</th>
+              <th className="px-4 py-2 text-right">Variance</th>
+              <th className="px-4 py-2 text-right">Unit Price</th>
+              <th className="px-4 py-2 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {variances.map(({ line, quantity, value }) => (
+              <tr key={line.id} className="border-t">
+                <td className="px-4 py-2">
+                  <div className="font-medium">{line.productName}</div>
+                  {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                </td>
+                <td className="px-4 py-2 text-right">{line.expectedQuantity}</td>
+                <td className="px-4 py-2 text-right">{line.countedQuantity}</td>
+                <td className={cn('px-4 py-2 text-right', quantity < 0 ? 'text-red-600' : 'text-green-700')}>
+                  {quantity > 0 ? `+${quantity}` : quantity}
+                </td>
+                <td className="px-4 py-2 text-right">{formatCurrency(line.price)}</td>
+                <td className={cn('px-4 py-2 text-right', value < 0 ? 'text-red-600' : 'text-green-700')}>
+                  {formatCurrency(value)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {stocktake.status === 'counting' && canApprove && (
+        <div className="bg-gray-50 p-4 rounded-md space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="stocktakeReason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <select
+                id="stocktakeReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as StockMovementReason)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                {STOCKTAKE_REASONS.map((value) => (
+                  <option key={value} value={value}>{STOCK_MOVEMENT_REASON_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="stocktakeApprovalNote" className="block text-sm font-medium text-gray-700 mb-1">
+                Note
+              </label>
+              <input
+                id="stocktakeApprovalNote"
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          {summary.uncountedLines > 0 && (
+            <p className="text-sm text-yellow-700">
+              {summary.uncountedLines} products have not been counted; their stock will be left unchanged.
+            </p>
+          )}
+          <button
+            onClick={() => approveMutation.mutate()}
+            disabled={summary.countedLines === 0 || approveMutation.isPending}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded disabled:bg-gray-300"
+          >
+            {approveMutation.isPending ? 'Posting...' : `Approve and Post ${variances.length} Adjustments`}
+          </button>
+          {approveMutation.isError && (
+            <p className="text-sm text-red-600">
+              Failed to approve the stocktake: {getErrorMessage(approveMutation.error)}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default StocktakeVarianceReport
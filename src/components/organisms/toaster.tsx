@@ -0,0 +1,70 @@
+import { useEffect, type JSX } from 'react'
+import type { Toast, ToastVariant } from '../../types/toast'
+import { useToastStore } from '../../stores/toast-store'
+import { cn } from '../../lib/utils'
+
+interface ToastItemProps {
+  /** Toast to show */
+  readonly toast: Toast;
+  /** Handler for closing the toast */
+  readonly onDismiss: (id: number) => void;
+}
+
+const VARIANT_STYLES: Record<ToastVariant, string> = {
+  info: 'bg-gray-900 text-white',
+  success: 'bg-green-700 text-white',
+  error: 'bg-red-700 text-white'
+}
+
+/**
+ * Single toast that closes itself after its duration
+ * @param props - Component props
+ * @returns Toast component
+ */
+function ToastItem({ toast, onDismiss }: ToastItemProps): JSX.Element {
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(toast.id), toast.durationMs)
+    return () => clearTimeout(timeout)
+  }, [toast.id, toast.durationMs, onDismiss])
+
+  return (
+    <div
+      role={toast.variant === 'error' ? 'alert' : 'status'}
+      className={cn('flex items-center gap-4 px-4 py-3 rounded-md shadow-lg text-sm', VARIANT_STYLES[toast.variant])}
+    >
+      <span className="flex-1">{toast.message}</span>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick()
+            onDismiss(toast.id)
+          }}
+          className="font-semibold underline hover:no-underline"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss" className="opacity-70 hover:opacity-100">
+        &times;
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Stack of toasts in the bottom right corner of the screen
+ * @returns Toaster component
+ */
+function Toaster(): JSX.Element {
+  const { toasts, dismissToast } = useToastStore()
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-96 max-w-[calc(100vw-2rem)]">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+      ))}
+    </div>
+  )
+}
+
+export default Toaster
@@ -0,0 +1,176 @@
+import { useState, type JSX } from 'react'
+import type { Product } from '../../types/inventory'
+import { useLocations } from '../../hooks/use-locations'
+import { useCreateTransfer } from '../../hooks/use-transfers'
+import { getErrorMessage } from '../../lib/utils'
+import { useLocationStore } from '../../stores/location-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface TransferRequestDialogProps {
+  /** Product to transfer */
+  readonly product: Product;
+  /** Dialog open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+}
+
+/**
+ * Dialog for requesting stock of a product from another location; the
+ * receiving location defaults to the one chosen in the header and the
+ * sending one to the location holding the most stock
+ * @param props - Component props
+ * @returns Transfer request dialog component
+ */
+function TransferRequestDialog({ product, isOpen, onClose }: TransferRequestDialogProps): JSX.Element {
+  const { data: locations = [] } = useLocations()
+  const currentLocationId = useLocationStore((state) => state.locationId)
+  const createTransfer = useCreateTransfer()
+
+  const [toLocationId, setToLocationId] = useState<number | null>(currentLocationId)
+  const [fromLocationId, setFromLocationId] = useState<number | null>(() => {
+    const sources = product.stockLevels.filter((level) => level.locationId !== currentLocationId && level.quantity > 0)
+    const fullest = [...sources].sort((a, b) => b.quantity - a.quantity)[0]
+    return fullest?.locationId ?? null
+  })
+  const [quantity, setQuantity] = useState<number>(1)
+  const [note, setNote] = useState<string>('')
+
+  const available = product.stockLevels.find((level) => level.locationId === fromLocationId)?.quantity ?? 0
+  const canSubmit = fromLocationId !== null
+    && toLocationId !== null
+    && fromLocationId !== toLocationId
+    && quantity > 0
+    && quantity <= available
+
+  /**
+   * Handle request submission
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (!canSubmit || fromLocationId === null || toLocationId === null || createTransfer.isPending) return
+    createTransfer.mutate(
+      { productId: product.id, fromLocationId, toLocationId, quantity, note: note.trim() },
+      { onSuccess: onClose }
+    )
+  }
+
+  /**
+   * Label for a location option, with the product's stock held there
+   * @param locationId - Location ID
+   * @param name - Location name
+   * @param branch - Branch name
+   * @returns Option label
+   */
+  const getOptionLabel = (locationId: number, name: string, branch: string): string => {
+    const stock = product.stockLevels.find((level) => level.locationId === locationId)?.quantity ?? 0
+    return `${branch} · ${name} (${stock} in stock)`
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Transfer of {product.name}</DialogTitle>
+          <DialogDescription>
+            Stock leaves the sending location once the transfer is approved and shipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="transferFrom">From</Label>
+              <select
+                id="transferFrom"
+                value={fromLocationId ?? ''}
+                onChange={(e) => setFromLocationId(e.target.value ? Number(e.target.value) : null)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Choose a location</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id} disabled={location.id === toLocationId}>
+                    {getOptionLabel(location.id, location.name, location.branch)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="transferTo">To</Label>
+              <select
+                id="transferTo"
+                value={toLocationId ?? ''}
+                onChange={(e) => setToLocationId(e.target.value ? Number(e.target.value) : null)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">Choose a location</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id} disabled={location.id === fromLocationId}>
+                    {getOptionLabel(location.id, location.name, location.branch)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="transferQuantity">Quantity</Label>
+            <Input
+              id="transferQuantity"
+              type="number"
+              min="1"
+              max={available || undefined}
+              value={quantity || ''}
+              onChange={(e) => setQuantity(parseInt(e.target.value, 10) || 0)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="transferNote">Note</Label>
+            <Textarea
+              id="transferNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Out of stock at the counter"
+              className="mt-1"
+            />
+          </div>
+
+          {fromLocationId !== null && quantity > available && (
+            <p className="text-sm text-red-600">Only {available} units are held at the sending location.</p>
+          )}
+
+          {createTransfer.isError && (
+            <p className="text-sm text-red-600">
+              Failed to request the transfer: {getErrorMessage(createTransfer.error)}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || createTransfer.isPending}>
+              {createTransfer.isPending ? 'Requesting...' : 'Request Transfer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TransferRequestDialog
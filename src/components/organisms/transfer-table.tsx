@@ -0,0 +1,153 @@
+import { useRef, type JSX } from 'react'
+import { Link } from 'react-router'
+import type { StockTransfer, TransferAction } from '../../types/transfer'
+import { TRANSFER_ACTIONS, TRANSFER_ACTION_LABELS } from '../../types/transfer'
+import { useLocations } from '../../hooks/use-locations'
+import { usePermission } from '../../hooks/use-permission'
+import { useTransferAction } from '../../hooks/use-transfers'
+import { cn, formatDate } from '../../lib/utils'
+import TransferStatusBadge from '../molecules/transfer-status-badge'
+
+interface TransferTableProps {
+  /** Transfers to list */
+  readonly transfers: readonly StockTransfer[];
+  /** Whether to show the product column; off when every transfer is of one product */
+  readonly showProduct?: boolean;
+}
+
+const ACTION_CLASSES: Record<TransferAction, string> = {
+  approve: 'text-blue-600 hover:text-blue-800',
+  ship: 'text-blue-600 hover:text-blue-800',
+  receive: 'text-green-600 hover:text-green-800',
+  cancel: 'text-red-600 hover:text-red-800'
+}
+
+/**
+ * Gets the date a transfer reached its current status
+ * @param transfer - Transfer to check
+ * @returns ISO date string
+ */
+const getStatusDate = (transfer: StockTransfer): string => {
+  switch (transfer.status) {
+    case 'approved':
+      return transfer.approvedAt ?? transfer.updatedAt
+    case 'shipped':
+      return transfer.shippedAt ?? transfer.updatedAt
+    case 'received':
+      return transfer.receivedAt ?? transfer.updatedAt
+    case 'cancelled':
+      return transfer.cancelledAt ?? transfer.updatedAt
+    default:
+      return transfer.requestedAt
+  }
+}
+
+/**
+ * Table of stock transfers with buttons for the next steps the user may take
+ * @param props - Component props
+ * @returns Transfer table component
+ */
+function TransferTable({ transfers, showProduct = true }: TransferTableProps): JSX.Element {
+  const { data: locations = [] } = useLocations()
+  const transferAction = useTransferAction()
+  const canApprove = usePermission('transfer.approve')
+  const canMove = usePermission('transfer.request')
+  // Approving and cancelling is up to a manager; counter staff ship and receive
+  const allowed: Record<TransferAction, boolean> = {
+    approve: canApprove,
+    cancel: canApprove,
+    ship: canMove,
+    receive: canMove
+  }
+  // Key per transfer step, kept until the step succeeds
+  const idempotencyKeys = useRef(new Map<string, string>())
+
+  /**
+   * Formats a location as branch and storage area
+   * @param locationId - Location ID
+   * @returns Display name
+   */
+  const getLocationName = (locationId: number): string => {
+    const location = locations.find(({ id }) => id === locationId)
+    return location ? `${location.branch} · ${location.name}` : `Location ${locationId}`
+  }
+
+  /**
+   * Sends a step of a transfer, reusing the idempotency key of an earlier
+   * attempt at the same step so a retry is applied only once
+   * @param transfer - Transfer to move on
+   * @param action - Step to take
+   */
+  const handleAction = (transfer: StockTransfer, action: TransferAction): void => {
+    const step = `${transfer.id}-${action}`
+    const idempotencyKey = idempotencyKeys.current.get(step) ?? crypto.randomUUID()
+    idempotencyKeys.current.set(step, idempotencyKey)
+    transferAction.mutate(
+      { transfer, action, idempotencyKey },
+      { onSuccess: () => idempotencyKeys.current.delete(step) }
+    )
+  }
+
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead className="bg-gray-100 text-left">
+        <tr>
+          <th className="px-4 py-2">Number</th>
+          {showProduct && <th className="px-4 py-2">Product</th>}
+          <th className="px-4 py-2">From</th>
+          <th className="px-4 py-2">To</th>
+          <th className="px-4 py-2 text-right">Quantity</th>
+          <th className="px-4 py-2">Status</th>
+          <th className="px-4 py-2">Since</th>
+          <th className="px-4 py-2">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {transfers.map((transfer) => (
+          <tr key={transfer.id} className="border-t align-top">
+            <td className="px-4 py-2">
+              <div className="font-medium">{transfer.number}</div>
+              <div className="text-xs text-gray-500">
+                {formatDate(transfer.requestedAt)} by {transfer.requestedBy}
+              </div>
+            </td>
+            {showProduct && (
+              <td className="px-4 py-2">
+                <Link to={`/products/${transfer.productId}`} className="text-blue-600 hover:underline">
+                  {transfer.productName}
+                </Link>
+                {transfer.sku && <div className="text-xs text-gray-500">{transfer.sku}</div>}
+              </td>
+            )}
+            <td className="px-4 py-2">{getLocationName(transfer.fromLocationId)}</td>
+            <td className="px-4 py-2">{getLocationName(transfer.toLocationId)}</td>
+            <td className="px-4 py-2 text-right">{transfer.quantity}</td>
+            <td className="px-4 py-2">
+              <TransferStatusBadge status={transfer.status} />
+              {transfer.note && <div className="mt-1 text-xs text-gray-500">{transfer.note}</div>}
+            </td>
+            <td className="px-4 py-2">{formatDate(getStatusDate(transfer))}</td>
+            <td className="px-4 py-2">
+              <div className="flex gap-3">
+                {TRANSFER_ACTIONS[transfer.status]
+                  .filter((action) => allowed[action])
+                  .map((action) => (
+                    <button
+                      key={action}
+                      onClick={() => handleAction(transfer, action)}
+                      disabled={transferAction.isPending}
+                      className={cn(ACTION_CLASSES[action], 'disabled:text-gray-400')}
+                    >
+                      {TRANSFER_ACTION_LABELS[action]}
+                    </button>
+                  ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default TransferTable
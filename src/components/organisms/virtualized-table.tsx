@@ -0,0 +1,159 @@
+import { useRef, useState, type KeyboardEvent, type ReactNode } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { cn } from '@/lib/utils.ts';
+
+interface VirtualizedTableProps<T> {
+  /** Rows to render */
+  readonly rows: readonly T[];
+  /** Stable key of a row; keeps measurements and the active row across refetches */
+  readonly getRowKey: (row: T) => number;
+  /** Number of columns, used for spacer and expanded rows */
+  readonly columnCount: number;
+  /** Header cells, rendered inside a sticky header row */
+  readonly header: ReactNode;
+  /** Cells of a row */
+  readonly renderRow: (row: T) => ReactNode;
+  /** Optional content shown in a full-width row below a row */
+  readonly renderExpandedRow?: (row: T) => ReactNode;
+  /** Handler for Enter on the active row */
+  readonly onRowActivate?: (row: T) => void;
+  /** Estimated row height in pixels before rows are measured */
+  readonly estimateRowHeight?: number;
+  /** Class names for the scroll container, e.g. its max height */
+  readonly className?: string;
+  /** Class names for the table element */
+  readonly tableClassName?: string;
+  /** Class names for the header row */
+  readonly headerClassName?: string;
+  /** Class names for each row */
+  readonly rowClassName?: string;
+}
+
+/**
+ * Table that only renders the rows in view, with a sticky header and
+ * keyboard row navigation (arrows, Page Up/Down, Home/End, Enter)
+ *
+ * Each row is its own measured tbody so rows may grow, e.g. when expanded.
+ */
+export const VirtualizedTable = <T,>({
+  rows,
+  getRowKey,
+  columnCount,
+  header,
+  renderRow,
+  renderExpandedRow,
+  onRowActivate,
+  estimateRowHeight = 53,
+  className,
+  tableClassName,
+  headerClassName,
+  rowClassName,
+}: VirtualizedTableProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [activeKey, setActiveKey] = useState<number | null>(null);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateRowHeight,
+    getItemKey: (index) => getRowKey(rows[index]),
+    overscan: 10,
+  });
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0
+    ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+    : 0;
+  const activeIndex = activeKey === null ? -1 : rows.findIndex((row) => getRowKey(row) === activeKey);
+
+  const moveTo = (index: number) => {
+    if (rows.length === 0) return;
+    const nextIndex = Math.min(Math.max(index, 0), rows.length - 1);
+    setActiveKey(getRowKey(rows[nextIndex]));
+    virtualizer.scrollToIndex(nextIndex, { align: 'auto' });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Leave keys alone while a control inside a row has focus
+    if (e.target !== e.currentTarget) return;
+
+    const pageRows = Math.max(1, Math.floor((scrollRef.current?.clientHeight ?? 0) / estimateRowHeight) - 1);
+    const keyMoves: Record<string, number> = {
+      ArrowDown: activeIndex + 1,
+      ArrowUp: activeIndex - 1,
+      PageDown: activeIndex + pageRows,
+      PageUp: activeIndex - pageRows,
+      Home: 0,
+      End: rows.length - 1,
+    };
+
+    if (e.key in keyMoves) {
+      e.preventDefault();
+      moveTo(keyMoves[e.key]);
+    } else if (e.key === 'Enter' && activeIndex >= 0 && onRowActivate) {
+      e.preventDefault();
+      onRowActivate(rows[activeIndex]);
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      tabIndex={0}
+      role="grid"
+      aria-rowcount={rows.length}
+      onKeyDown={handleKeyDown}
+      className={cn('overflow-auto max-h-[70vh] focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500', className)}
+    >
+      <table className={cn('min-w-full', tableClassName)}>
+        <thead className="sticky top-0 z-10">
+          <tr className={headerClassName}>{header}</tr>
+        </thead>
+        {paddingTop > 0 && (
+          <tbody aria-hidden>
+            <tr style={{ height: paddingTop }}>
+              <td colSpan={columnCount} />
+            </tr>
+          </tbody>
+        )}
+        {virtualRows.map((virtualRow) => {
+          const row = rows[virtualRow.index];
+          const key = getRowKey(row);
+          const expanded = renderExpandedRow?.(row);
+
+          return (
+            <tbody
+              key={virtualRow.key}
+              ref={virtualizer.measureElement}
+              data-index={virtualRow.index}
+            >
+              <tr
+                aria-rowindex={virtualRow.index + 1}
+                aria-selected={key === activeKey}
+                onClick={() => setActiveKey(key)}
+                className={cn(rowClassName, key === activeKey && 'bg-blue-50 hover:bg-blue-50')}
+              >
+                {renderRow(row)}
+              </tr>
+              {expanded && (
+                <tr>
+                  <td colSpan={columnCount} className="p-0">
+                    {expanded}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          );
+        })}
+        {paddingBottom > 0 && (
+          <tbody aria-hidden>
+            <tr style={{ height: paddingBottom }}>
+              <td colSpan={columnCount} />
+            </tr>
+          </tbody>
+        )}
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import { useState, type JSX } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { Product, ProductBatch } from '../../types/inventory'
+import type { DisposalMethod, WriteOffReason } from '../../types/disposal'
+import { DISPOSAL_METHOD_LABELS, WRITE_OFF_REASON_LABELS } from '../../types/disposal'
+import { inventoryApi } from '../../services/api'
+import { formatDate, getErrorMessage, isExpired } from '../../lib/utils'
+import { useAuthStore } from '../../stores/auth-store'
+import { showToast } from '../../stores/toast-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface WriteOffDialogProps {
+  /** Product the batch belongs to */
+  readonly product: Product;
+  /** Batch to write off */
+  readonly batch: ProductBatch;
+  /** Dialog open state */
+  readonly isOpen: boolean;
+  /** Handler for closing the dialog */
+  readonly onClose: () => void;
+}
+
+/**
+ * Dialog for writing off units of a batch, from quarantine or from
+ * available stock, with the disposal method and a witness for the
+ * destruction register
+ * @param props - Component props
+ * @returns Write-off dialog component
+ */
+function WriteOffDialog({ product, batch, isOpen, onClose }: WriteOffDialogProps): JSX.Element {
+  const queryClient = useQueryClient()
+  const username = useAuthStore((state) => state.user?.username)
+  const [fromQuarantine, setFromQuarantine] = useState<boolean>(batch.quarantinedQuantity > 0)
+  const [quantity, setQuantity] = useState<number>(batch.quarantinedQuantity || batch.quantity)
+  const [reason, setReason] = useState<WriteOffReason>(isExpired(batch.expiryDate) ? 'expired' : 'damaged')
+  const [method, setMethod] = useState<DisposalMethod>('waste_contractor')
+  const [witness, setWitness] = useState<string>('')
+  const [note, setNote] = useState<string>('')
+  // One key per dialog session so a repeated submit is applied only once
+  const [idempotencyKey] = useState<string>(() => crypto.randomUUID())
+
+  const available = fromQuarantine ? batch.quarantinedQuantity : batch.quantity
+  // The witness must be someone other than the person writing the stock off
+  const isOwnWitness = !!username && witness.trim().toLowerCase() === username.toLowerCase()
+  const canSubmit = quantity > 0 && quantity <= available && witness.trim() !== '' && !isOwnWitness
+
+  // Write-off mutation
+  const writeOffMutation = useMutation({
+    mutationFn: () => inventoryApi.writeOffStock(
+      { batchId: batch.id, quantity, fromQuarantine, reason, method, witness: witness.trim(), note: note.trim() },
+      idempotencyKey
+    ),
+    onSuccess: (record) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      queryClient.invalidateQueries({ queryKey: ['destruction-register'] })
+      showToast(`${record.quantity} units of ${record.productName} written off as ${record.number}`)
+      onClose()
+    }
+  })
+
+  /**
+   * Handle write-off confirmation
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (!canSubmit || writeOffMutation.isPending) return
+    writeOffMutation.mutate()
+  }
+
+  /**
+   * Switch between writing off quarantined and available units
+   * @param quarantined - Whether to take quarantined units
+   */
+  const handleSourceChange = (quarantined: boolean): void => {
+    setFromQuarantine(quarantined)
+    setQuantity(quarantined ? batch.quarantinedQuantity : batch.quantity)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Write Off {product.name}</DialogTitle>
+          <DialogDescription>
+            Lot {batch.lotNumber}, expiry {formatDate(batch.expiryDate)}. The units leave stock through a
+            write-off movement and are added to the destruction register.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset className="flex gap-6 text-sm">
+            <legend className="sr-only">Units to write off</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="writeOffSource"
+                checked={fromQuarantine}
+                onChange={() => handleSourceChange(true)}
+                disabled={batch.quarantinedQuantity === 0}
+              />
+              Quarantined ({batch.quarantinedQuantity})
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="writeOffSource"
+                checked={!fromQuarantine}
+                onChange={() => handleSourceChange(false)}
+                disabled={batch.quantity === 0}
+              />
+              Available ({batch.quantity})
+            </label>
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="writeOffQuantity">Quantity</Label>
+              <Input
+                id="writeOffQuantity"
+                type="number"
+                min="1"
+                max={available}
+                value={quantity || ''}
+                onChange={(e) => setQuantity(parseInt(e.target.value, 10) || 0)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="writeOffReason">Reason</Label>
+              <select
+                id="writeOffReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as WriteOffReason)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {Object.entries(WRITE_OFF_REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="writeOffMethod">Disposal Method</Label>
+            <select
+              id="writeOffMethod"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as DisposalMethod)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {Object.entries(DISPOSAL_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Label htmlFor="writeOffWitness">Witness</Label>
+            <Input
+              id="writeOffWitness"
+              value={witness}
+              onChange={(e) => setWitness(e.target.value)}
+              placeholder="Name of the person witnessing the destruction"
+              className="mt-1"
+            />
+            {isOwnWitness && (
+              <p className="mt-1 text-sm text-red-600">The witness must be someone else.</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="writeOffNote">Note</Label>
+            <Textarea
+              id="writeOffNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          {quantity > available && (
+            <p className="text-sm text-red-600">Only {available} units can be written off.</p>
+          )}
+
+          {writeOffMutation.isError && (
+            <p className="text-sm text-red-600">
+              Failed to write off: {getErrorMessage(writeOffMutation.error)}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!canSubmit || writeOffMutation.isPending}>
+              {writeOffMutation.isPending ? 'Writing off...' : 'Write Off'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default WriteOffDialog
@@ -0,0 +1,88 @@
+import type { JSX } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { inventoryApi } from '../../services/api'
+import { formatCurrency, getErrorMessage } from '../../lib/utils'
+import { getInventoryStats } from '../../lib/inventory-stats'
+import { toProductListSearch } from '../../hooks/use-product-list-params'
+import StatTile from '../molecules/stat-tile'
+import CategoryValueChart from '../organisms/category-value-chart'
+import ExpiryTimelineChart from '../organisms/expiry-timeline-chart'
+
+/**
+ * Inventory overview with stock value, status counts and charts
+ * Every tile opens the product list with the matching filters applied.
+ * @returns Dashboard page component
+ */
+function DashboardPage(): JSX.Element {
+  // The figures cover the whole catalog, not one page
+  const { data: products, isLoading, isError, error } = useQuery({
+    queryKey: ['products', 'all'],
+    queryFn: () => inventoryApi.getAllProducts()
+  })
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading dashboard...</div>
+  }
+
+  if (isError || !products) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading dashboard: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  const stats = getInventoryStats(products)
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold">Dashboard</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <StatTile
+          label={`Stock Value (${stats.productCount} products)`}
+          value={formatCurrency(stats.totalValue)}
+          to="/products"
+        />
+        <StatTile
+          label="Low Stock"
+          value={stats.lowStockCount}
+          tone={stats.lowStockCount > 0 ? 'warning' : 'default'}
+          to={{ pathname: '/products', search: toProductListSearch({ stockStatus: 'lowStock' }) }}
+        />
+        <StatTile
+          label="Out of Stock"
+          value={stats.outOfStockCount}
+          tone={stats.outOfStockCount > 0 ? 'danger' : 'default'}
+          to={{ pathname: '/products', search: toProductListSearch({ stockStatus: 'outOfStock' }) }}
+        />
+        <StatTile
+          label="Expired"
+          value={stats.expiredCount}
+          tone={stats.expiredCount > 0 ? 'danger' : 'default'}
+          to={{ pathname: '/products', search: toProductListSearch({ expiryStatus: 'expired' }) }}
+        />
+        <StatTile
+          label="Expiring Soon"
+          value={stats.expiringSoonCount}
+          tone={stats.expiringSoonCount > 0 ? 'warning' : 'default'}
+          to={{ pathname: '/products', search: toProductListSearch({ expiryStatus: 'expiringSoon' }) }}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="bg-white border rounded-lg p-4">
+          <h3 className="text-sm font-semibold mb-4">Value by Category</h3>
+          <CategoryValueChart categories={stats.valueByCategory} />
+        </section>
+
+        <section className="bg-white border rounded-lg p-4">
+          <h3 className="text-sm font-semibold mb-4">Expiry Timeline (units)</h3>
+          <ExpiryTimelineChart buckets={stats.expiryTimeline} />
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default DashboardPage
@@ -0,0 +1,30 @@
+import type { JSX } from 'react'
+import { Link, isRouteErrorResponse, useRouteError } from 'react-router'
+import NotFoundPage from './not-found-page'
+import { getErrorMessage } from '../../lib/utils'
+
+/**
+ * Page shown when a route throws while rendering or loading
+ * @returns Error page component
+ */
+function ErrorPage(): JSX.Element {
+  const error = useRouteError()
+
+  if (isRouteErrorResponse(error) && error.status === 404) {
+    return <NotFoundPage />
+  }
+
+  return (
+    <div className="text-center p-12">
+      <h2 className="text-xl font-semibold mb-2">Something went wrong</h2>
+      <p className="text-red-600 mb-6">
+        {isRouteErrorResponse(error) ? error.statusText : getErrorMessage(error)}
+      </p>
+      <Link to="/products" className="text-blue-600 hover:text-blue-800 hover:underline">
+        Back to products
+      </Link>
+    </div>
+  )
+}
+
+export default ErrorPage
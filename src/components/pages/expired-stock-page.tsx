@@ -0,0 +1,61 @@
+import type { JSX } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { inventoryApi } from '../../services/api'
+import { getExpiredStockLines } from '../../lib/disposal'
+import { formatCurrency, getErrorMessage } from '../../lib/utils'
+import { useLocationStore } from '../../stores/location-store'
+import ExpiredStockTable from '../organisms/expired-stock-table'
+import DestructionRegister from '../organisms/destruction-register'
+import Can from '../molecules/can'
+
+/**
+ * Workspace for expired and soon-to-expire stock at the location chosen in
+ * the header: stock can be quarantined or written off, and write-offs are
+ * listed in the destruction register
+ * @returns Expired stock page component
+ */
+function ExpiredStockPage(): JSX.Element {
+  const locationId = useLocationStore((state) => state.locationId)
+
+  // Batches are checked across the whole catalog, not one page
+  const { data: products = [], isLoading, isError, error } = useQuery({
+    queryKey: ['products', 'all'],
+    queryFn: () => inventoryApi.getAllProducts()
+  })
+
+  const lines = getExpiredStockLines(products, locationId)
+  const expiredValue = lines
+    .filter((line) => line.status === 'expired')
+    .reduce((total, line) => total + line.value, 0)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Expired Stock</h2>
+        {lines.length > 0 && (
+          <p className="text-sm text-gray-500">{formatCurrency(expiredValue)} of expired stock to deal with</p>
+        )}
+      </div>
+
+      {isLoading && <div className="text-center p-8">Loading stock...</div>}
+
+      {isError && (
+        <div className="text-center p-8 text-red-500">
+          Error loading stock: {getErrorMessage(error)}
+        </div>
+      )}
+
+      {!isLoading && !isError && lines.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-md">No expired or soon-to-expire stock</div>
+      )}
+
+      {lines.length > 0 && <ExpiredStockTable lines={lines} />}
+
+      <Can permission="stock.writeOff">
+        <DestructionRegister />
+      </Can>
+    </div>
+  )
+}
+
+export default ExpiredStockPage
@@ -0,0 +1,20 @@
+import type { JSX } from 'react'
+import { Link } from 'react-router'
+
+/**
+ * Page shown for unknown routes and missing records
+ * @returns Not found page component
+ */
+function NotFoundPage(): JSX.Element {
+  return (
+    <div className="text-center p-12">
+      <h2 className="text-xl font-semibold mb-2">Page not found</h2>
+      <p className="text-gray-500 mb-6">The page or product you are looking for does not exist.</p>
+      <Link to="/products" className="text-blue-600 hover:text-blue-800 hover:underline">
+        Back to products
+      </Link>
+    </div>
+  )
+}
+
+export default NotFoundPage
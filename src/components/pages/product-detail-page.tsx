@@ -0,0 +1,189 @@
+import { useState, type JSX } from 'react'
+import { Link, useLocation, useNavigate, useParams } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { inventoryApi } from '../../services/api'
+import { formatCurrency, formatDate, getErrorMessage, getProductStock, scopeProductToLocation } from '../../lib/utils'
+import { useLocationStore } from '../../stores/location-store'
+import { ProductStatusBadge } from '../molecules/product-status-badge'
+import Can from '../molecules/can'
+import { ProductBatchTable } from '../organisms/product-batch-table'
+import StockMovementTimeline from '../organisms/stock-movement-timeline'
+import ProductStockLevels from '../organisms/product-stock-levels'
+import ProductTransferHistory from '../organisms/product-transfer-history'
+import TransferRequestDialog from '../organisms/transfer-request-dialog'
+import DispenseDialog from '../organisms/dispense-dialog'
+import DeleteConfirmationModal from '../organisms/delete-confirmation-modal'
+import NotFoundPage from './not-found-page'
+
+/**
+ * Detail page for a single product with its batches, stock movements and
+ * transfers between locations
+ * Stock, status, batches and dispensing are those of the location chosen
+ * in the header; the stock at every location is listed separately.
+ * @returns Product detail page component
+ */
+function ProductDetailPage(): JSX.Element {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { id } = useParams()
+  const productId = Number(id)
+  const [isDispenseOpen, setIsDispenseOpen] = useState<boolean>(false)
+  const [isDeleteOpen, setIsDeleteOpen] = useState<boolean>(false)
+  const [isTransferOpen, setIsTransferOpen] = useState<boolean>(false)
+  const locationId = useLocationStore((state) => state.locationId)
+
+  // Fetch the product
+  const { data: product, isLoading, isError, error } = useQuery({
+    queryKey: ['products', productId],
+    queryFn: () => inventoryApi.getProductById(productId),
+    enabled: Number.isInteger(productId)
+  })
+
+  if (!Number.isInteger(productId) || (isAxiosError(error) && error.response?.status === 404)) {
+    return <NotFoundPage />
+  }
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading product...</div>
+  }
+
+  if (isError || !product) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading product: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  const scopedProduct = scopeProductToLocation(product, locationId)
+  const stock = getProductStock(scopedProduct)
+
+  return (
+    <div className="space-y-6">
+      <Link to="/products" className="text-sm text-blue-600 hover:text-blue-800 hover:underline">
+        &larr; Back to products
+      </Link>
+
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold">{product.name}</h2>
+          <p className="text-gray-500">{product.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <Can permission="stock.dispense">
+            <button
+              onClick={() => setIsDispenseOpen(true)}
+              disabled={stock === 0}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded disabled:bg-gray-300"
+            >
+              Dispense
+            </button>
+          </Can>
+          <Can permission="transfer.request">
+            <button
+              onClick={() => setIsTransferOpen(true)}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+            >
+              Request Transfer
+            </button>
+          </Can>
+          <Can permission="product.edit">
+            <Link
+              to={`/products/${product.id}/edit`}
+              state={{ from: location.pathname }}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded"
+            >
+              Edit
+            </Link>
+          </Can>
+          <Can permission="product.delete">
+            <button
+              onClick={() => setIsDeleteOpen(true)}
+              className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded"
+            >
+              Delete
+            </button>
+          </Can>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm bg-white border rounded-lg p-4">
+        <div>
+          <dt className="text-gray-500">SKU</dt>
+          <dd className="font-medium">{product.sku || '—'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Barcode</dt>
+          <dd className="font-medium">{product.barcode || '—'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Stock</dt>
+          <dd className="font-medium">{stock}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Price</dt>
+          <dd className="font-medium">{formatCurrency(product.price)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Expiry Date</dt>
+          <dd className="font-medium">{formatDate(product.expiryDate)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Category</dt>
+          <dd className="font-medium">{product.category}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Supplier</dt>
+          <dd className="font-medium">{product.supplier}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Min Stock</dt>
+          <dd className="font-medium">{scopedProduct.minimumStockThreshold}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 mb-1">Status</dt>
+          <dd><ProductStatusBadge product={scopedProduct} /></dd>
+        </div>
+      </dl>
+
+      <section>
+        <h3 className="text-sm font-semibold mb-3">Batches</h3>
+        <ProductBatchTable product={scopedProduct} />
+      </section>
+
+      <ProductStockLevels product={product} />
+
+      <ProductTransferHistory product={product} />
+
+      <StockMovementTimeline product={product} />
+
+      {isDispenseOpen && (
+        <DispenseDialog
+          product={scopedProduct}
+          isOpen={isDispenseOpen}
+          onClose={() => setIsDispenseOpen(false)}
+        />
+      )}
+
+      {isTransferOpen && (
+        <TransferRequestDialog
+          product={product}
+          isOpen={isTransferOpen}
+          onClose={() => setIsTransferOpen(false)}
+        />
+      )}
+
+      {isDeleteOpen && (
+        <DeleteConfirmationModal
+          product={product}
+          isOpen={isDeleteOpen}
+          onClose={() => setIsDeleteOpen(false)}
+          onDeleted={() => navigate('/products')}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ProductDetailPage
@@ -0,0 +1,68 @@
+import type { JSX } from 'react'
+import { Navigate, useLocation, useNavigate, useParams } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import type { ProductFormData } from '../../types/inventory'
+import ProductFormModal from '../organisms/product-form-modal'
+import NotFoundPage from './not-found-page'
+import { inventoryApi } from '../../services/api'
+import { usePermission } from '../../hooks/use-permission'
+
+/**
+ * Route for /products/new and /products/:id/edit, showing the product form
+ * over the product list
+ * Closing the form goes back to the list with its filters, or to the page
+ * passed as `from` in the navigation state. A new product is prefilled
+ * with the `prefill` values of the navigation state, e.g. a scanned barcode.
+ * @returns Product form route component
+ */
+function ProductFormPage(): JSX.Element | null {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { id } = useParams()
+  const productId = id === undefined ? null : Number(id)
+  const isEditMode = productId !== null
+  const canCreate = usePermission('product.create')
+  const canEdit = usePermission('product.edit')
+  const { from, prefill } = (location.state as { from?: string; prefill?: Partial<ProductFormData> } | null) ?? {}
+
+  // Fetch the product being edited
+  const { data: product, isLoading, isError } = useQuery({
+    queryKey: ['products', productId],
+    queryFn: () => inventoryApi.getProductById(productId as number),
+    enabled: isEditMode && Number.isInteger(productId)
+  })
+
+  /**
+   * Closes the form and returns to where it was opened from
+   */
+  const handleClose = (): void => {
+    navigate(from ?? { pathname: '/products', search: location.search })
+  }
+
+  if (isEditMode && !Number.isInteger(productId)) {
+    return <NotFoundPage />
+  }
+
+  if (isEditMode ? !canEdit : !canCreate) {
+    return <Navigate to={isEditMode ? `/products/${productId}` : '/products'} replace />
+  }
+
+  if (isEditMode && isLoading) {
+    return null
+  }
+
+  if (isEditMode && (isError || !product)) {
+    return <NotFoundPage />
+  }
+
+  return (
+    <ProductFormModal
+      product={product ?? null}
+      isOpen
+      onClose={handleClose}
+      defaults={prefill}
+    />
+  )
+}
+
+export default ProductFormPage
@@ -0,0 +1,101 @@
+import { useState, type JSX } from 'react'
+import { Outlet, useLocation, useNavigate } from 'react-router'
+import ProductList from '../organisms/product-list'
+import DeleteConfirmationModal from '../organisms/delete-confirmation-modal'
+import DispenseDialog from '../organisms/dispense-dialog'
+import ProductImportWizard from '../organisms/product-import-wizard'
+import Can from '../molecules/can'
+import type { Product } from '../../types/inventory'
+
+/**
+ * Product list page; the create and edit forms open over it as child routes
+ * @returns Products page component
+ */
+function ProductsPage(): JSX.Element {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [productToDelete, setProductToDelete] = useState<Product | null>(null)
+  const [productToDispense, setProductToDispense] = useState<Product | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false)
+
+  /**
+   * Opens the form for creating a new product, keeping the list filters
+   */
+  const handleAddProduct = (): void => {
+    navigate({ pathname: '/products/new', search: location.search })
+  }
+
+  /**
+   * Opens the form for editing an existing product, keeping the list filters
+   * @param product - The product to edit
+   */
+  const handleEditProduct = (product: Product): void => {
+    navigate({ pathname: `/products/${product.id}/edit`, search: location.search })
+  }
+
+  /**
+   * Opens the detail page of a product
+   * @param product - The product to view
+   */
+  const handleViewProduct = (product: Product): void => {
+    navigate(`/products/${product.id}`)
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Products</h2>
+        <div className="flex gap-2">
+          <Can permission="product.create">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded"
+            >
+              Import
+            </button>
+            <button
+              onClick={handleAddProduct}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+            >
+              Add Product
+            </button>
+          </Can>
+        </div>
+      </div>
+
+      <ProductList
+        onEdit={handleEditProduct}
+        onDelete={setProductToDelete}
+        onDispense={setProductToDispense}
+        onView={handleViewProduct}
+      />
+
+      <Outlet />
+
+      {productToDelete && (
+        <DeleteConfirmationModal
+          product={productToDelete}
+          isOpen={!!productToDelete}
+          onClose={() => setProductToDelete(null)}
+        />
+      )}
+
+      {productToDispense && (
+        <DispenseDialog
+          product={productToDispense}
+          isOpen={!!productToDispense}
+          onClose={() => setProductToDispense(null)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ProductImportWizard
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+    </>
+  )
+}
+
+export default ProductsPage
@@ -0,0 +1,130 @@
+import type { JSX } from 'react'
+import { Link, useNavigate, useParams } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { inventoryApi } from '../../services/api'
+import { formatCurrency, formatDate, getErrorMessage } from '../../lib/utils'
+import { getPurchaseOrderTotal, printPurchaseOrder } from '../../lib/purchase-order'
+import { usePermission } from '../../hooks/use-permission'
+import PurchaseOrderStatusBadge from '../molecules/purchase-order-status-badge'
+import PurchaseOrderEditor from '../organisms/purchase-order-editor'
+import Can from '../molecules/can'
+import NotFoundPage from './not-found-page'
+
+/**
+ * Detail page of a purchase order; drafts can be edited and sent
+ * @returns Purchase order detail page component
+ */
+function PurchaseOrderDetailPage(): JSX.Element {
+  const navigate = useNavigate()
+  const { id } = useParams()
+  const orderId = Number(id)
+  const canManage = usePermission('purchaseOrder.manage')
+
+  // Fetch the purchase order
+  const { data: order, isLoading, isError, error } = useQuery({
+    queryKey: ['purchase-orders', orderId],
+    queryFn: () => inventoryApi.getPurchaseOrderById(orderId),
+    enabled: Number.isInteger(orderId)
+  })
+
+  if (!Number.isInteger(orderId) || (isAxiosError(error) && error.response?.status === 404)) {
+    return <NotFoundPage />
+  }
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading purchase order...</div>
+  }
+
+  if (isError || !order) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading purchase order: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link to="/purchase-orders" className="text-sm text-blue-600 hover:text-blue-800 hover:underline">
+        &larr; Back to purchase orders
+      </Link>
+
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-3">
+            {order.number}
+            <PurchaseOrderStatusBadge status={order.status} />
+          </h2>
+          <p className="text-gray-500">
+            {order.supplier} · Created {formatDate(order.createdAt)} by {order.createdBy}
+            {order.sentAt && ` · Sent ${formatDate(order.sentAt)}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => printPurchaseOrder(order)}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+          >
+            Print / PDF
+          </button>
+          {(order.status === 'sent' || order.status === 'partially_received') && (
+            <Can permission="stock.receive">
+              <Link
+                to={`/purchase-orders/${order.id}/receive`}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded"
+              >
+                Receive Delivery
+              </Link>
+            </Can>
+          )}
+        </div>
+      </div>
+
+      {order.status === 'draft' && canManage ? (
+        <PurchaseOrderEditor
+          key={order.updatedAt}
+          order={order}
+          onDeleted={() => navigate('/purchase-orders')}
+        />
+      ) : (
+        <>
+          <table className="w-full border-collapse">
+            <thead className="bg-gray-100 text-left text-sm">
+              <tr>
+                <th className="px-4 py-2">Product</th>
+                <th className="px-4 py-2">Quantity</th>
+                <th className="px-4 py-2">Received</th>
+                <th className="px-4 py-2">Unit Price</th>
+                <th className="px-4 py-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.lines.map((line) => (
+                <tr key={line.id} className="border-t text-sm">
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{line.productName}</div>
+                    {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                  </td>
+                  <td className="px-4 py-2">{line.quantity}</td>
+                  <td className="px-4 py-2">{line.receivedQuantity}</td>
+                  <td className="px-4 py-2">{formatCurrency(line.unitPrice)}</td>
+                  <td className="px-4 py-2">{formatCurrency(line.quantity * line.unitPrice)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t font-medium">
+                <td className="px-4 py-2" colSpan={4}>Total</td>
+                <td className="px-4 py-2">{formatCurrency(getPurchaseOrderTotal(order.lines))}</td>
+              </tr>
+            </tfoot>
+          </table>
+          {order.note && <p className="text-sm text-gray-700 whitespace-pre-wrap">{order.note}</p>}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default PurchaseOrderDetailPage
@@ -0,0 +1,80 @@
+import type { JSX } from 'react'
+import { Link, Navigate, useNavigate, useParams } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { inventoryApi } from '../../services/api'
+import { getErrorMessage } from '../../lib/utils'
+import { usePermission } from '../../hooks/use-permission'
+import PurchaseOrderStatusBadge from '../molecules/purchase-order-status-badge'
+import PurchaseOrderReceiving from '../organisms/purchase-order-receiving'
+import NotFoundPage from './not-found-page'
+
+/**
+ * Receiving screen for a delivery against an open purchase order
+ * @returns Purchase order receive page component
+ */
+function PurchaseOrderReceivePage(): JSX.Element {
+  const navigate = useNavigate()
+  const { id } = useParams()
+  const orderId = Number(id)
+  const canReceive = usePermission('stock.receive')
+
+  // Fetch the purchase order
+  const { data: order, isLoading, isError, error } = useQuery({
+    queryKey: ['purchase-orders', orderId],
+    queryFn: () => inventoryApi.getPurchaseOrderById(orderId),
+    enabled: Number.isInteger(orderId)
+  })
+
+  if (!Number.isInteger(orderId) || (isAxiosError(error) && error.response?.status === 404)) {
+    return <NotFoundPage />
+  }
+
+  if (!canReceive) {
+    return <Navigate to={`/purchase-orders/${orderId}`} replace />
+  }
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading purchase order...</div>
+  }
+
+  if (isError || !order) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading purchase order: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  const isOpen = order.status === 'sent' || order.status === 'partially_received'
+
+  return (
+    <div className="space-y-6">
+      <Link to={`/purchase-orders/${order.id}`} className="text-sm text-blue-600 hover:text-blue-800 hover:underline">
+        &larr; Back to {order.number}
+      </Link>
+
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-3">
+          Receive {order.number}
+          <PurchaseOrderStatusBadge status={order.status} />
+        </h2>
+        <p className="text-gray-500">{order.supplier}</p>
+      </div>
+
+      {isOpen ? (
+        <PurchaseOrderReceiving
+          key={order.updatedAt}
+          order={order}
+          onReceived={(updatedOrder) => navigate(`/purchase-orders/${updatedOrder.id}`)}
+        />
+      ) : (
+        <div className="text-center p-8 bg-gray-50 rounded-md">
+          Only sent or partially received orders can be received.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PurchaseOrderReceivePage
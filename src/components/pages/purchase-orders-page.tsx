@@ -0,0 +1,95 @@
+import { useState, type JSX } from 'react'
+import { Link } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import type { PurchaseOrderStatus } from '../../types/purchase-order'
+import { PURCHASE_ORDER_STATUS_LABELS } from '../../types/purchase-order'
+import { inventoryApi } from '../../services/api'
+import { formatCurrency, formatDate, getErrorMessage } from '../../lib/utils'
+import { getPurchaseOrderTotal } from '../../lib/purchase-order'
+import PurchaseOrderStatusBadge from '../molecules/purchase-order-status-badge'
+
+/**
+ * Lists purchase orders with their status and value
+ * @returns Purchase orders page component
+ */
+function PurchaseOrdersPage(): JSX.Element {
+  const [status, setStatus] = useState<PurchaseOrderStatus | ''>('')
+
+  // Fetch purchase orders, optionally by status
+  const { data: orders = [], isLoading, isError, error } = useQuery({
+    queryKey: ['purchase-orders', 'list', status],
+    queryFn: () => inventoryApi.getPurchaseOrders(status || undefined)
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Purchase Orders</h2>
+        <div className="flex gap-2">
+          <select
+            aria-label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as PurchaseOrderStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">All Statuses</option>
+            {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <Link
+            to="/reorder"
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+          >
+            Reorder
+          </Link>
+        </div>
+      </div>
+
+      {isLoading && <div className="text-center p-8">Loading purchase orders...</div>}
+
+      {isError && (
+        <div className="text-center p-8 text-red-500">
+          Error loading purchase orders: {getErrorMessage(error)}
+        </div>
+      )}
+
+      {!isLoading && !isError && orders.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-md">No purchase orders found</div>
+      )}
+
+      {orders.length > 0 && (
+        <table className="w-full border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left">Number</th>
+              <th className="px-4 py-2 text-left">Supplier</th>
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2 text-left">Lines</th>
+              <th className="px-4 py-2 text-left">Total</th>
+              <th className="px-4 py-2 text-left">Created</th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map((order) => (
+              <tr key={order.id} className="border-t hover:bg-gray-50">
+                <td className="px-4 py-2">
+                  <Link to={`/purchase-orders/${order.id}`} className="text-blue-600 hover:underline">
+                    {order.number}
+                  </Link>
+                </td>
+                <td className="px-4 py-2">{order.supplier}</td>
+                <td className="px-4 py-2"><PurchaseOrderStatusBadge status={order.status} /></td>
+                <td className="px-4 py-2">{order.lines.length}</td>
+                <td className="px-4 py-2">{formatCurrency(getPurchaseOrderTotal(order.lines))}</td>
+                <td className="px-4 py-2">{formatDate(order.createdAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default PurchaseOrdersPage
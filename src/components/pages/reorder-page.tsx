@@ -0,0 +1,210 @@
+import { useState, type JSX } from 'react'
+import { useNavigate } from 'react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { Product } from '../../types/inventory'
+import type { ReorderMethod, ReorderSettings } from '../../types/purchase-order'
+import { DEFAULT_REORDER_SETTINGS } from '../../types/purchase-order'
+import { inventoryApi } from '../../services/api'
+import { getErrorMessage } from '../../lib/utils'
+import { getDailyVelocity, getVelocityStart, groupBySupplier, needsReorder, suggestReorder } from '../../lib/reorder'
+import ReorderSupplierGroup from '../organisms/reorder-supplier-group'
+
+/**
+ * Lists products at or below their threshold grouped by supplier, with
+ * suggested order quantities, and turns each group into a draft purchase order
+ * Unit prices start at the product price and can be changed on the draft.
+ * @returns Reorder page component
+ */
+function ReorderPage(): JSX.Element {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [settings, setSettings] = useState<ReorderSettings>(DEFAULT_REORDER_SETTINGS)
+  // Quantities the user typed; other products use the suggestion
+  const [editedQuantities, setEditedQuantities] = useState<Record<number, number>>({})
+
+  // Whole catalog, filtered to products that need reordering
+  const { data: products = [], isLoading, isError, error } = useQuery({
+    queryKey: ['products', 'all'],
+    queryFn: () => inventoryApi.getAllProducts()
+  })
+  const reorderProducts = products.filter(needsReorder)
+
+  // Units dispensed per product over the velocity window, summed by the
+  // server in one call, only when that method is used
+  const velocityStart = getVelocityStart(settings.velocityDays)
+  const dispensedQuery = useQuery({
+    queryKey: ['products', 'movement-totals', 'dispense', velocityStart],
+    queryFn: () => inventoryApi.getStockMovementTotals('dispense', velocityStart),
+    enabled: settings.method === 'velocity'
+  })
+  const isLoadingVelocity = settings.method === 'velocity' && dispensedQuery.isLoading
+  const dispensedByProduct = new Map(
+    (dispensedQuery.data ?? []).map((total) => [total.productId, total.quantity])
+  )
+
+  const suggestions = reorderProducts.map((product) => {
+    const dispensed = dispensedByProduct.get(product.id) ?? 0
+    const velocity = settings.method === 'velocity' ? getDailyVelocity(dispensed, settings.velocityDays) : 0
+    return suggestReorder(product, velocity, settings)
+  })
+  const groups = groupBySupplier(suggestions)
+  const quantities = Object.fromEntries(
+    suggestions.map(({ product, suggestedQuantity }) => [
+      product.id,
+      editedQuantities[product.id] ?? suggestedQuantity
+    ])
+  )
+
+  // Create a draft purchase order for one supplier
+  const createOrderMutation = useMutation({
+    mutationFn: ({ supplier, products: orderProducts }: { supplier: string; products: Product[] }) =>
+      inventoryApi.createPurchaseOrder({
+        supplier,
+        note: '',
+        lines: orderProducts
+          .filter((product) => quantities[product.id] > 0)
+          .map((product) => ({
+            productId: product.id,
+            quantity: quantities[product.id],
+            unitPrice: product.price
+          }))
+      }),
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      navigate(`/purchase-orders/${order.id}`)
+    }
+  })
+
+  /**
+   * Update a numeric reorder setting
+   * @param field - Setting to change
+   * @param value - Input value
+   */
+  const handleSettingChange = (field: Exclude<keyof ReorderSettings, 'method'>, value: string): void => {
+    const parsed = Number(value)
+    if (Number.isFinite(parsed) && parsed > 0) {
+      setSettings((prev) => ({ ...prev, [field]: parsed }))
+      setEditedQuantities({})
+    }
+  }
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading products...</div>
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading products: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold">Reorder</h2>
+
+      <div className="flex flex-wrap items-end gap-4 bg-gray-50 p-4 rounded-md text-sm">
+        <div>
+          <label htmlFor="reorderMethod" className="block font-medium text-gray-700 mb-1">
+            Suggest quantities by
+          </label>
+          <select
+            id="reorderMethod"
+            value={settings.method}
+            onChange={(e) => {
+              setSettings((prev) => ({ ...prev, method: e.target.value as ReorderMethod }))
+              setEditedQuantities({})
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="target">Target stock level</option>
+            <option value="velocity">Recent dispense velocity</option>
+          </select>
+        </div>
+
+        {settings.method === 'target' ? (
+          <div>
+            <label htmlFor="targetMultiple" className="block font-medium text-gray-700 mb-1">
+              Target level (× threshold)
+            </label>
+            <input
+              id="targetMultiple"
+              type="number"
+              min="1"
+              step="0.5"
+              defaultValue={settings.targetMultiple}
+              onChange={(e) => handleSettingChange('targetMultiple', e.target.value)}
+              className="w-28 px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="velocityDays" className="block font-medium text-gray-700 mb-1">
+                Velocity window (days)
+              </label>
+              <input
+                id="velocityDays"
+                type="number"
+                min="1"
+                defaultValue={settings.velocityDays}
+                onChange={(e) => handleSettingChange('velocityDays', e.target.value)}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label htmlFor="coverDays" className="block font-medium text-gray-700 mb-1">
+                Cover (days)
+              </label>
+              <input
+                id="coverDays"
+                type="number"
+                min="1"
+                defaultValue={settings.coverDays}
+                onChange={(e) => handleSettingChange('coverDays', e.target.value)}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          </>
+        )}
+
+        {isLoadingVelocity && <span className="text-gray-500">Loading dispense history...</span>}
+      </div>
+
+      {createOrderMutation.isError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          Failed to create purchase order: {getErrorMessage(createOrderMutation.error)}
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="text-center p-8 bg-gray-50 rounded-md">
+          No products are at or below their minimum stock threshold
+        </div>
+      ) : (
+        groups.map(({ supplier, suggestions: supplierSuggestions }) => (
+          <ReorderSupplierGroup
+            key={supplier}
+            supplier={supplier}
+            suggestions={supplierSuggestions}
+            quantities={quantities}
+            onQuantityChange={(productId, quantity) =>
+              setEditedQuantities((prev) => ({ ...prev, [productId]: quantity }))
+            }
+            onCreateOrder={() =>
+              createOrderMutation.mutate({
+                supplier,
+                products: supplierSuggestions.map(({ product }) => product)
+              })
+            }
+            showVelocity={settings.method === 'velocity'}
+            isCreating={createOrderMutation.isPending && createOrderMutation.variables?.supplier === supplier}
+          />
+        ))
+      )}
+    </div>
+  )
+}
+
+export default ReorderPage
@@ -0,0 +1,123 @@
+import { useState, type JSX } from 'react'
+import { Link, useParams } from 'react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { isAxiosError } from 'axios'
+import { inventoryApi } from '../../services/api'
+import { useLocations } from '../../hooks/use-locations'
+import { usePermission } from '../../hooks/use-permission'
+import { cn, formatDate, getErrorMessage } from '../../lib/utils'
+import StocktakeStatusBadge from '../molecules/stocktake-status-badge'
+import StocktakeCountSheet from '../organisms/stocktake-count-sheet'
+import StocktakeVarianceReport from '../organisms/stocktake-variance-report'
+import NotFoundPage from './not-found-page'
+
+/**
+ * Screen of a stocktake session: counters enter counts on the count tab,
+ * and the variance report compares them with the frozen expected stock
+ * @returns Stocktake page component
+ */
+function StocktakePage(): JSX.Element {
+  const queryClient = useQueryClient()
+  const { id } = useParams()
+  const stocktakeId = Number(id)
+  const canCount = usePermission('stock.adjust')
+  const canApprove = usePermission('stocktake.approve')
+  const { data: locations = [] } = useLocations()
+  const [tab, setTab] = useState<'count' | 'report'>('count')
+
+  // Fetch the stocktake
+  const { data: stocktake, isLoading, isError, error } = useQuery({
+    queryKey: ['stocktakes', stocktakeId],
+    queryFn: () => inventoryApi.getStocktakeById(stocktakeId),
+    enabled: Number.isInteger(stocktakeId)
+  })
+
+  // Abandon the session
+  const cancelMutation = useMutation({
+    mutationFn: () => inventoryApi.cancelStocktake(stocktakeId),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['stocktakes', stocktakeId], updated)
+      queryClient.invalidateQueries({ queryKey: ['stocktakes', 'list'] })
+    }
+  })
+
+  if (!Number.isInteger(stocktakeId) || (isAxiosError(error) && error.response?.status === 404)) {
+    return <NotFoundPage />
+  }
+
+  if (isLoading) {
+    return <div className="text-center p-8">Loading stocktake...</div>
+  }
+
+  if (isError || !stocktake) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        Error loading stocktake: {getErrorMessage(error)}
+      </div>
+    )
+  }
+
+  const location = locations.find(({ id: locationId }) => locationId === stocktake.locationId)
+  const isCounting = stocktake.status === 'counting'
+  const showCountSheet = isCounting && canCount && tab === 'count'
+
+  /**
+   * Class names for a tab button
+   * @param active - Whether the tab is shown
+   * @returns CSS class string
+   */
+  const tabClass = (active: boolean): string =>
+    cn('px-4 py-2 rounded', active ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900')
+
+  return (
+    <div className="space-y-6">
+      <Link to="/stocktakes" className="text-sm text-blue-600 hover:text-blue-800 hover:underline">
+        &larr; Back to stocktakes
+      </Link>
+
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-3">
+            {stocktake.number}
+            <StocktakeStatusBadge status={stocktake.status} />
+          </h2>
+          <p className="text-gray-500">
+            {stocktake.category ?? 'All categories'}
+            {' · '}
+            {location ? `${location.branch} · ${location.name}` : 'All locations'}
+            {' · '}Started {formatDate(stocktake.createdAt)} by {stocktake.createdBy}
+            {stocktake.approvedAt && ` · Approved ${formatDate(stocktake.approvedAt)} by ${stocktake.approvedBy}`}
+          </p>
+        </div>
+        {isCounting && canApprove && (
+          <button
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded disabled:text-gray-400"
+          >
+            Cancel Stocktake
+          </button>
+        )}
+      </div>
+
+      {isCounting && canCount && (
+        <div className="flex gap-1">
+          <button onClick={() => setTab('count')} className={tabClass(tab === 'count')}>
+            Count
+          </button>
+          <button onClick={() => setTab('report')} className={tabClass(tab === 'report')}>
+            Variance Report
+          </button>
+        </div>
+      )}
+
+      {showCountSheet ? (
+        <StocktakeCountSheet stocktake={stocktake} />
+      ) : (
+        <StocktakeVarianceReport stocktake={stocktake} />
+      )}
+    </div>
+  )
+}
+
+export default StocktakePage
@@ -0,0 +1,93 @@
+import type { JSX } from 'react'
+import { Link, useNavigate } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import { inventoryApi } from '../../services/api'
+import { useLocations } from '../../hooks/use-locations'
+import { formatDate, getErrorMessage } from '../../lib/utils'
+import StocktakeStatusBadge from '../molecules/stocktake-status-badge'
+import StocktakeStartForm from '../organisms/stocktake-start-form'
+import Can from '../molecules/can'
+
+/**
+ * Lists stocktake sessions with their scope and progress; a new session
+ * can be started from the top of the page
+ * @returns Stocktakes page component
+ */
+function StocktakesPage(): JSX.Element {
+  const navigate = useNavigate()
+  const { data: locations = [] } = useLocations()
+
+  // Fetch stocktake sessions
+  const { data: stocktakes = [], isLoading, isError, error } = useQuery({
+    queryKey: ['stocktakes', 'list'],
+    queryFn: () => inventoryApi.getStocktakes()
+  })
+
+  /**
+   * Formats a location for the scope column
+   * @param locationId - Location ID, null for every location
+   * @returns Display name
+   */
+  const getLocationName = (locationId: number | null): string => {
+    if (locationId === null) return 'All locations'
+    const location = locations.find(({ id }) => id === locationId)
+    return location ? `${location.branch} · ${location.name}` : `Location ${locationId}`
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Stocktake</h2>
+
+      <Can permission="stock.adjust">
+        <StocktakeStartForm onStarted={(stocktake) => navigate(`/stocktakes/${stocktake.id}`)} />
+      </Can>
+
+      {isLoading && <div className="text-center p-8">Loading stocktakes...</div>}
+
+      {isError && (
+        <div className="text-center p-8 text-red-500">
+          Error loading stocktakes: {getErrorMessage(error)}
+        </div>
+      )}
+
+      {!isLoading && !isError && stocktakes.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-md">No stocktakes found</div>
+      )}
+
+      {stocktakes.length > 0 && (
+        <table className="w-full border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left">Number</th>
+              <th className="px-4 py-2 text-left">Category</th>
+              <th className="px-4 py-2 text-left">Location</th>
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2 text-left">Counted</th>
+              <th className="px-4 py-2 text-left">Started</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stocktakes.map((stocktake) => (
+              <tr key={stocktake.id} className="border-t hover:bg-gray-50">
+                <td className="px-4 py-2">
+                  <Link to={`/stocktakes/${stocktake.id}`} className="text-blue-600 hover:underline">
+                    {stocktake.number}
+                  </Link>
+                </td>
+                <td className="px-4 py-2">{stocktake.category ?? 'All categories'}</td>
+                <td className="px-4 py-2">{getLocationName(stocktake.locationId)}</td>
+                <td className="px-4 py-2"><StocktakeStatusBadge status={stocktake.status} /></td>
+                <td className="px-4 py-2">
+                  {stocktake.lines.filter((line) => line.countedQuantity !== null).length} / {stocktake.lines.length}
+                </td>
+                <td className="px-4 py-2">{formatDate(stocktake.createdAt)} by {stocktake.createdBy}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default StocktakesPage
@@ -0,0 +1,66 @@
+import { useState, type JSX } from 'react'
+import type { TransferStatus } from '../../types/transfer'
+import { TRANSFER_STATUS_LABELS } from '../../types/transfer'
+import { useTransfers } from '../../hooks/use-transfers'
+import { getErrorMessage } from '../../lib/utils'
+import { useLocationStore } from '../../stores/location-store'
+import TransferTable from '../organisms/transfer-table'
+
+/**
+ * Lists stock transfers from or to the location chosen in the header, with
+ * the steps each one is waiting for; transfers are requested from the
+ * product detail page
+ * @returns Transfers page component
+ */
+function TransfersPage(): JSX.Element {
+  const locationId = useLocationStore((state) => state.locationId)
+  const [status, setStatus] = useState<TransferStatus | ''>('')
+
+  // Fetch transfers, optionally by status
+  const { data: transfers = [], isLoading, isError, error } = useTransfers({
+    status: status || undefined,
+    location: locationId ?? undefined
+  })
+
+  const inTransit = transfers
+    .filter((transfer) => transfer.status === 'shipped')
+    .reduce((total, transfer) => total + transfer.quantity, 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">Transfers</h2>
+          {inTransit > 0 && <p className="text-sm text-gray-500">{inTransit} units in transit</p>}
+        </div>
+        <select
+          aria-label="Status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as TransferStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">All Statuses</option>
+          {Object.entries(TRANSFER_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading && <div className="text-center p-8">Loading transfers...</div>}
+
+      {isError && (
+        <div className="text-center p-8 text-red-500">
+          Error loading transfers: {getErrorMessage(error)}
+        </div>
+      )}
+
+      {!isLoading && !isError && transfers.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-md">No transfers found</div>
+      )}
+
+      {transfers.length > 0 && <TransferTable transfers={transfers} />}
+    </div>
+  )
+}
+
+export default TransfersPage
@@ -0,0 +1,165 @@
+import { useState, type JSX } from 'react'
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { Product } from '../../types/inventory'
+import { INVENTORY_CONSTANTS } from '../../types/inventory'
+import { inventoryApi } from '../../services/api'
+import { showToast } from '../../stores/toast-store'
+import { formatDate, getErrorMessage } from '../../lib/utils'
+import { PaginationControls } from '../molecules/pagination-controls'
+import Can from '../molecules/can'
+
+/**
+ * Lists products moved to the trash, which can be restored or deleted
+ * permanently
+ * @returns Trash page component
+ */
+function TrashPage(): JSX.Element {
+  const queryClient = useQueryClient()
+  const [page, setPage] = useState<number>(1)
+  const [pageSize, setPageSize] = useState<number>(INVENTORY_CONSTANTS.DEFAULT_PAGE_SIZE)
+  // Product whose permanent deletion waits for a second click
+  const [purgeCandidateId, setPurgeCandidateId] = useState<number | null>(null)
+
+  // Fetch deleted products
+  const { data, isLoading, isFetching, isError, error } = useQuery({
+    queryKey: ['products', 'trash', page, pageSize],
+    queryFn: () => inventoryApi.getDeletedProducts(page, pageSize),
+    placeholderData: keepPreviousData
+  })
+  const products = data?.results ?? []
+
+  // Restore a product
+  const restoreMutation = useMutation({
+    mutationFn: (product: Product) => inventoryApi.restoreProduct(product.id),
+    onSuccess: (_, product) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+      showToast(`"${product.name}" restored`, { variant: 'success' })
+    },
+    onError: (mutationError) => {
+      showToast(`Failed to restore: ${getErrorMessage(mutationError)}`, { variant: 'error' })
+    }
+  })
+
+  // Delete a product for good
+  const purgeMutation = useMutation({
+    mutationFn: (product: Product) => inventoryApi.purgeProduct(product.id),
+    onSuccess: (_, product) => {
+      setPurgeCandidateId(null)
+      queryClient.invalidateQueries({ queryKey: ['products', 'trash'] })
+      showToast(`"${product.name}" permanently deleted`)
+    },
+    onError: (mutationError) => {
+      showToast(`Failed to delete: ${getErrorMessage(mutationError)}`, { variant: 'error' })
+    }
+  })
+
+  /**
+   * Change the page size, starting again from the first page
+   * @param size - New page size
+   */
+  const handlePageSizeChange = (size: number): void => {
+    setPageSize(size)
+    setPage(1)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Trash</h2>
+        <p className="text-sm text-gray-500">Deleted products can be restored until they are deleted permanently.</p>
+      </div>
+
+      {isLoading && <div className="text-center p-8">Loading deleted products...</div>}
+
+      {isError && !data && (
+        <div className="text-center p-8 text-red-500">
+          Error loading deleted products: {getErrorMessage(error)}
+        </div>
+      )}
+
+      {data && products.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-md">The trash is empty</div>
+      )}
+
+      {products.length > 0 && (
+        <table className="w-full border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left">Name</th>
+              <th className="px-4 py-2 text-left">Category</th>
+              <th className="px-4 py-2 text-left">Supplier</th>
+              <th className="px-4 py-2 text-left">Deleted</th>
+              <th className="px-4 py-2 text-left">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {products.map((product) => (
+              <tr key={product.id} className="border-t">
+                <td className="px-4 py-2">
+                  <div>{product.name}</div>
+                  {product.sku && <div className="text-xs text-gray-500">{product.sku}</div>}
+                </td>
+                <td className="px-4 py-2">{product.category}</td>
+                <td className="px-4 py-2">{product.supplier}</td>
+                <td className="px-4 py-2 text-sm">
+                  {product.deletedAt && formatDate(product.deletedAt, 'MMM dd, yyyy HH:mm')}
+                  {product.deletedBy && <div className="text-xs text-gray-500">by {product.deletedBy}</div>}
+                </td>
+                <td className="px-4 py-2">
+                  <Can permission="product.delete">
+                    <div className="flex space-x-3">
+                      <button
+                        onClick={() => restoreMutation.mutate(product)}
+                        disabled={restoreMutation.isPending}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        Restore
+                      </button>
+                      {purgeCandidateId === product.id ? (
+                        <>
+                          <button
+                            onClick={() => purgeMutation.mutate(product)}
+                            disabled={purgeMutation.isPending}
+                            className="text-red-600 hover:text-red-800 font-medium disabled:text-gray-400"
+                          >
+                            {purgeMutation.isPending ? 'Deleting...' : 'Confirm delete'}
+                          </button>
+                          <button
+                            onClick={() => setPurgeCandidateId(null)}
+                            className="text-gray-600 hover:text-gray-800"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setPurgeCandidateId(product.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Delete permanently
+                        </button>
+                      )}
+                    </div>
+                  </Can>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {data && data.count > 0 && (
+        <PaginationControls
+          page={page}
+          pageSize={pageSize}
+          count={data.count}
+          onPageChange={setPage}
+          onPageSizeChange={handlePageSizeChange}
+          isFetching={isFetching}
+        />
+      )}
+    </div>
+  )
+}
+
+export default TrashPage
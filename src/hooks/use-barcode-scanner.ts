@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { INVENTORY_CONSTANTS } from '../types/inventory';
+
+/** GS1 group separator; scanners type it as Ctrl+] when set to send it */
+const GROUP_SEPARATOR = '\x1d';
+
+/**
+ * Checks if a key event targets a field the user is typing into
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Listens for a keyboard-wedge barcode scanner anywhere on the page
+ * Scanners type the code faster than a person and finish with Enter, so
+ * keystrokes arriving within a few milliseconds of each other are buffered
+ * and passed to `onScan` as one code. Keys typed into form fields are left
+ * alone so fields with their own scan handling keep working.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled: boolean = true): void => {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (isEditableTarget(e.target)) return;
+
+      const now = e.timeStamp;
+      if (now - lastKeyAt > INVENTORY_CONSTANTS.SCANNER_KEY_INTERVAL_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= INVENTORY_CONSTANTS.SCANNER_MIN_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key === GROUP_SEPARATOR || (e.ctrlKey && e.key === ']')) {
+        buffer += GROUP_SEPARATOR;
+      } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
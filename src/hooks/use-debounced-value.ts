@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns a copy of a value that only updates once it has stopped changing
+ * for the given delay, e.g. to avoid a request per keystroke
+ */
+export const useDebouncedValue = <T>(value: T, delay: number = 300): T => {
+  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,25 @@
+import { useRef } from 'react';
+
+/**
+ * Idempotency keys for a mutation, one per payload
+ *
+ * Retrying the same payload reuses its key, so the server applies it only
+ * once; a changed payload gets a new key. Call reset after a success so the
+ * same payload sent again later counts as a new request.
+ */
+export const useIdempotencyKey = () => {
+  const current = useRef<{ payload: string; key: string } | null>(null);
+
+  return {
+    getKey: (payload: unknown): string => {
+      const serialized = JSON.stringify(payload);
+      if (current.current?.payload !== serialized) {
+        current.current = { payload: serialized, key: crypto.randomUUID() };
+      }
+      return current.current.key;
+    },
+    reset: () => {
+      current.current = null;
+    },
+  };
+};
@@ -1,45 +1,47 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { inventoryApi } from '../services/api';
-import type { Product, NewProduct } from '../types/inventory';
+import type {
+  Product,
+  ProductFormData,
+  ProductBatchFormData,
+  ProductQuery,
+  StockMovementFormData,
+} from '../types/inventory';
 import { useInventoryStore } from '../stores/inventory-store';
+import { showToast } from '../stores/toast-store';
+import { useConflictStore } from '../stores/conflict-store';
+import {
+  createTemporaryId,
+  insertCachedProduct,
+  isTemporaryId,
+  patchCachedProduct,
+  removeCachedProduct,
+  restoreProductCache,
+  snapshotProductCache,
+  toOptimisticProduct,
+} from '../lib/product-cache';
+import { offerDeleteUndo, offerUpdateUndo } from '../lib/undo';
+import { sendOrQueue } from '../lib/outbox';
+import { getErrorMessage, isConflictError } from '../lib/utils';
 
 const QUERY_KEYS = {
   products: ['products'] as const,
+  list: (query: ProductQuery) => ['products', 'list', query] as const,
+  lists: ['products', 'list'] as const,
+  all: ['products', 'all'] as const,
   product: (id: number) => ['products', id] as const,
-  lowStock: ['products', 'low-stock'] as const,
-  expiring: ['products', 'expiring'] as const,
+  movements: (id: number) => ['products', id, 'movements'] as const,
 } as const;
 
-export const useProducts = () => {
-  const { filters } = useInventoryStore();
-  
+/**
+ * Fetches a page of products; pagination, ordering and filters are part of
+ * the query key so every combination is cached separately
+ */
+export const useProducts = (query: ProductQuery) => {
   return useQuery({
-    queryKey: [...QUERY_KEYS.products, filters],
-    queryFn: async () => {
-      if (filters.lowStock) {
-        return inventoryApi.getLowStockProducts();
-      }
-      if (filters.expiringSoon) {
-        return inventoryApi.getExpiringProducts();
-      }
-      
-      // Apply client-side filters
-      let filteredProducts = await inventoryApi.getProducts();
-      
-      if (filters.category) {
-        filteredProducts = filteredProducts.filter(p => 
-          p.category.toLowerCase().includes(filters.category!.toLowerCase())
-        );
-      }
-      
-      if (filters.supplier) {
-        filteredProducts = filteredProducts.filter(p => 
-          p.supplier.toLowerCase().includes(filters.supplier!.toLowerCase())
-        );
-      }
-      
-      return filteredProducts;
-    },
+    queryKey: QUERY_KEYS.list(query),
+    queryFn: () => inventoryApi.getProducts(query),
+    placeholderData: keepPreviousData,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 };
@@ -47,48 +49,218 @@ export const useProducts = () => {
 export const useProduct = (id: number) => {
   return useQuery({
     queryKey: QUERY_KEYS.product(id),
-    queryFn: () => inventoryApi.getProduct(id),
+    queryFn: () => inventoryApi.getProductById(id),
     enabled: !!id,
   });
 };
 
+/**
+ * Creates a product, showing it in the cached lists straight away under a
+ * temporary ID; the placeholder is removed again if the server rejects it
+ * While offline the product is queued in the outbox and keeps its
+ * temporary ID until it is synced.
+ */
 export const useCreateProduct = () => {
   const queryClient = useQueryClient();
   const { closeForm } = useInventoryStore();
-  
+
   return useMutation({
-    mutationFn: (product: NewProduct) => inventoryApi.createProduct(product),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products });
+    mutationFn: async (product: ProductFormData) => {
+      const temporaryId = createTemporaryId();
+      const created = await sendOrQueue(
+        { type: 'create_product', temporaryId, data: product },
+        `Add "${product.name}"`,
+        (idempotencyKey) => inventoryApi.createProduct(product, idempotencyKey)
+      );
+      return created ?? toOptimisticProduct(product, temporaryId);
+    },
+    // Runs offline too, so the product can be queued
+    networkMode: 'always',
+    onMutate: async (product) => {
+      const snapshot = await snapshotProductCache(queryClient);
+      const placeholder = toOptimisticProduct(product, createTemporaryId());
+      insertCachedProduct(queryClient, placeholder);
       closeForm();
+      return { snapshot, placeholder };
+    },
+    onError: (error, product, context) => {
+      if (context) restoreProductCache(queryClient, context.snapshot);
+      showToast(`Failed to add "${product.name}": ${getErrorMessage(error)}`, { variant: 'error' });
+    },
+    onSuccess: (created, _, context) => {
+      patchCachedProduct(queryClient, created, context.placeholder.id);
+      if (isTemporaryId(created.id)) {
+        showToast(`"${created.name}" saved offline; it will be added once back online`);
+        return;
+      }
+      // Ordering and filters decide where the product belongs in each list
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.lists });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.all, refetchType: 'none' });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      showToast(`"${created.name}" added`, { variant: 'success' });
     },
   });
 };
 
+/**
+ * Variables of a product update
+ */
+export interface UpdateProductVariables {
+  /** Product as it was before the edit */
+  readonly previous: Product;
+  /** New product values */
+  readonly product: ProductFormData;
+  /** Stock adjustment recorded after the update, when the stock changed */
+  readonly adjustment?: StockMovementFormData;
+}
+
+/**
+ * Outcome of a product update
+ */
+interface UpdateProductResult {
+  /** Product as saved, or null when the change was queued offline */
+  readonly updated: Product | null;
+  /** Why the server rejected the stock adjustment after saving the update */
+  readonly adjustmentError?: unknown;
+}
+
+/**
+ * Updates a product, patching it in the cached lists and detail straight
+ * away; the cache is rolled back if the server rejects the change
+ * While offline the update and the adjustment are queued in the outbox.
+ * The update is only applied if nobody changed the product since
+ * `previous` was read; otherwise both versions are offered for merging.
+ * The update is sent before the adjustment, since the adjustment changes
+ * the product on the server, and leaves the stock as it was so the stock
+ * only moves through the adjustment. A rejected adjustment keeps the saved
+ * update and is reported on its own.
+ */
 export const useUpdateProduct = () => {
   const queryClient = useQueryClient();
   const { closeForm } = useInventoryStore();
-  
+  const openConflict = useConflictStore((state) => state.openConflict);
+
   return useMutation({
-    mutationFn: ({ id, product }: { id: number; product: Partial<Product> }) => 
-      inventoryApi.updateProduct(id, product),
-    onSuccess: (_, { id }) => {
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products });
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.product(id) });
+    mutationFn: async ({ previous, product, adjustment }: UpdateProductVariables): Promise<UpdateProductResult> => {
+      const data = { ...product, stockQuantity: previous.stockQuantity };
+      const updated = await sendOrQueue(
+        { type: 'update_product', productId: previous.id, data, base: previous },
+        `Update "${previous.name}"`,
+        () => inventoryApi.updateProduct(previous.id, data, previous.updatedAt)
+      );
+      if (!adjustment) return { updated };
+
+      try {
+        const movement = await sendOrQueue(
+          { type: 'create_stock_movement', productId: previous.id, data: adjustment },
+          `Adjust stock of "${previous.name}" by ${adjustment.quantity > 0 ? '+' : ''}${adjustment.quantity}`,
+          (idempotencyKey) => inventoryApi.createStockMovement(adjustment, idempotencyKey)
+        );
+        // The adjustment changed the product again; read the version it left behind
+        return { updated: updated && movement ? await inventoryApi.getProductById(previous.id) : null };
+      } catch (error) {
+        if (!updated) throw error;
+        return { updated, adjustmentError: error };
+      }
+    },
+    // Runs offline too, so the change can be queued
+    networkMode: 'always',
+    onMutate: async ({ previous, product, adjustment }) => {
+      const snapshot = await snapshotProductCache(queryClient);
+      patchCachedProduct(queryClient, {
+        ...previous,
+        ...product,
+        stockQuantity: previous.stockQuantity + (adjustment?.quantity ?? 0),
+      });
       closeForm();
+      return { snapshot };
+    },
+    onError: (error, { previous, product, adjustment }, context) => {
+      if (context) restoreProductCache(queryClient, context.snapshot);
+      if (!isConflictError(error)) {
+        showToast(`Failed to save "${previous.name}": ${getErrorMessage(error)}`, { variant: 'error' });
+        return;
+      }
+      // Someone else saved the product first; let the user merge both versions
+      inventoryApi
+        .getProductById(previous.id)
+        .then((server) => {
+          patchCachedProduct(queryClient, server);
+          openConflict({ base: previous, mine: product, server, adjustment });
+        })
+        .catch((fetchError: unknown) => {
+          showToast(`Failed to save "${previous.name}": ${getErrorMessage(fetchError)}`, { variant: 'error' });
+        });
+    },
+    onSuccess: ({ updated, adjustmentError }, { previous, adjustment }) => {
+      if (!updated) {
+        showToast(`Changes to "${previous.name}" saved offline; they will sync once back online`);
+        return;
+      }
+      patchCachedProduct(queryClient, updated);
+      // Sorted and filtered lists may no longer hold the product where they did
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products, refetchType: 'none' });
+      if (adjustment) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.movements(previous.id) });
+      }
+      if (adjustmentError !== undefined) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.product(previous.id) });
+        showToast(
+          `"${previous.name}" saved, but the stock adjustment failed: ${getErrorMessage(adjustmentError)}`,
+          { variant: 'error' }
+        );
+        return;
+      }
+      offerUpdateUndo(queryClient, previous, updated, adjustment?.quantity ?? 0);
     },
   });
 };
 
+/**
+ * Moves a product to the trash, removing it from the cached lists straight
+ * away; the cache is rolled back if the server rejects the deletion
+ */
 export const useDeleteProduct = () => {
   const queryClient = useQueryClient();
   const { closeDeleteDialog } = useInventoryStore();
-  
+
   return useMutation({
-    mutationFn: (id: number) => inventoryApi.deleteProduct(id),
+    mutationFn: (product: Product) => inventoryApi.deleteProduct(product.id),
+    onMutate: async (product) => {
+      const snapshot = await snapshotProductCache(queryClient);
+      removeCachedProduct(queryClient, product.id);
+      closeDeleteDialog();
+      return { snapshot };
+    },
+    onError: (error, product, context) => {
+      if (context) restoreProductCache(queryClient, context.snapshot);
+      showToast(`Failed to delete "${product.name}": ${getErrorMessage(error)}`, { variant: 'error' });
+    },
+    onSuccess: (_, product) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products, refetchType: 'none' });
+      offerDeleteUndo(queryClient, [product]);
+    },
+  });
+};
+
+export const useCreateBatch = (productId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (batch: ProductBatchFormData) => inventoryApi.createBatch(productId, batch),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products });
+    },
+  });
+};
+
+export const useDeleteBatch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (batchId: number) => inventoryApi.deleteBatch(batchId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products });
-      closeDeleteDialog();
     },
   });
 };
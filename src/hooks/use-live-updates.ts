@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { listenToInventoryEvents } from '../lib/inventory-events';
+
+/**
+ * Keeps the cached products in sync with changes made on other screens by
+ * listening to the live inventory channel
+ * After a dropped connection the products are refetched, since changes
+ * pushed meanwhile were missed.
+ * @param enabled - Whether to listen, e.g. only while signed in
+ */
+export const useLiveUpdates = (enabled: boolean) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    return listenToInventoryEvents(queryClient);
+  }, [enabled, queryClient]);
+};
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { inventoryApi } from '../services/api';
+
+/**
+ * Fetches the storage locations of every branch; they rarely change, so
+ * they are cached for the whole session
+ */
+export const useLocations = () => {
+  return useQuery({
+    queryKey: ['locations'],
+    queryFn: () => inventoryApi.getLocations(),
+    staleTime: Infinity,
+  });
+};
@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '../stores/auth-store';
+import { useOutboxStore } from '../stores/outbox-store';
+import { loadOutbox, replayOutbox } from '../lib/outbox';
+import { showToast } from '../stores/toast-store';
+
+/**
+ * Tracks the connection and sends changes queued offline as soon as the
+ * server can be reached again, including those left from an earlier session
+ * Only the signed-in user's changes are loaded and sent; they are reloaded
+ * when another user signs in.
+ * @param enabled - Whether to sync, e.g. only while signed in
+ */
+export const useOutboxSync = (enabled: boolean) => {
+  const queryClient = useQueryClient();
+  const setOnline = useOutboxStore((state) => state.setOnline);
+  const userId = useAuthStore((state) => state.user?.id);
+
+  useEffect(() => {
+    if (!enabled || userId === undefined) return;
+
+    const sync = () => {
+      replayOutbox(queryClient)
+        .then((sent) => {
+          if (sent > 0) {
+            showToast(`${sent} offline ${sent === 1 ? 'change' : 'changes'} synced`, { variant: 'success' });
+          }
+        })
+        .catch((error: unknown) => console.error('Error syncing offline changes:', error));
+    };
+
+    setOnline(onlineManager.isOnline());
+    loadOutbox().then(sync, (error: unknown) => console.error('Error loading offline changes:', error));
+
+    return onlineManager.subscribe((isOnline) => {
+      setOnline(isOnline);
+      if (isOnline) sync();
+    });
+  }, [enabled, userId, queryClient, setOnline]);
+};
@@ -0,0 +1,9 @@
+import { useAuthStore } from '../stores/auth-store';
+import type { Permission } from '../types/auth';
+
+/**
+ * Checks whether the signed-in user has a permission from their profile
+ */
+export const usePermission = (permission: Permission): boolean => {
+  return useAuthStore((state) => state.user?.permissions.includes(permission) ?? false);
+};
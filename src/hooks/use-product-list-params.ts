@@ -0,0 +1,105 @@
+import { useSearchParams } from 'react-router';
+import type { ProductFilters, ProductOrdering, ProductSortField } from '../types/inventory';
+import { INVENTORY_CONSTANTS } from '../types/inventory';
+
+const SORT_FIELDS: readonly ProductSortField[] = ['name', 'category', 'price', 'stockQuantity', 'supplier', 'expiryDate'];
+const STOCK_STATUSES: readonly NonNullable<ProductFilters['stockStatus']>[] = ['all', 'inStock', 'lowStock', 'outOfStock'];
+const EXPIRY_STATUSES: readonly NonNullable<ProductFilters['expiryStatus']>[] = ['all', 'expired', 'expiringSoon', 'valid'];
+
+/**
+ * Returns a value when it is one of the allowed options
+ */
+const oneOf = <T extends string>(value: string | null, options: readonly T[]): T | undefined =>
+  options.find((option) => option === value);
+
+/**
+ * Parses a positive integer search param
+ */
+const positiveInt = (value: string | null, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Maps filters to their search param names
+ */
+const toFilterParams = (filters: ProductFilters): Record<string, string | undefined> => ({
+  search: filters.searchTerm,
+  category: filters.category,
+  stock: filters.stockStatus,
+  expiry: filters.expiryStatus,
+});
+
+/**
+ * Builds the search string of a product list link with filters preapplied
+ */
+export const toProductListSearch = (filters: ProductFilters): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(toFilterParams(filters))) {
+    if (value && value !== 'all') params.set(key, value);
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Reads the product list filters, sort order and page from search params
+ *
+ * Unknown or invalid params fall back to their defaults.
+ */
+export const parseProductListParams = (searchParams: URLSearchParams) => {
+  const filters: ProductFilters = {
+    searchTerm: searchParams.get('search') ?? '',
+    category: searchParams.get('category') ?? '',
+    stockStatus: oneOf(searchParams.get('stock'), STOCK_STATUSES) ?? 'all',
+    expiryStatus: oneOf(searchParams.get('expiry'), EXPIRY_STATUSES) ?? 'all',
+  };
+  const page = positiveInt(searchParams.get('page'), 1);
+  const pageSize = positiveInt(searchParams.get('pageSize'), INVENTORY_CONSTANTS.DEFAULT_PAGE_SIZE);
+  const orderingParam = searchParams.get('ordering') ?? '';
+  const ordering = oneOf(orderingParam.replace(/^-/, ''), SORT_FIELDS)
+    ? (orderingParam as ProductOrdering)
+    : undefined;
+
+  return { filters, page, pageSize, ordering };
+};
+
+/**
+ * Product list filters, sort order and page, kept in the URL search params so
+ * a filtered view can be bookmarked or shared
+ *
+ * Filter, sort and page size changes replace the history entry and reset to
+ * page 1; page changes add one so the back button returns to the previous page.
+ */
+export const useProductListParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, page, pageSize, ordering } = parseProductListParams(searchParams);
+
+  const update = (values: Record<string, string | number | undefined>, options: { push?: boolean } = {}) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined || value === '' || value === 'all') {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      }
+      return next;
+    }, { replace: !options.push });
+  };
+
+  return {
+    filters,
+    page,
+    pageSize,
+    ordering,
+    setFilters: (next: ProductFilters) => update({ ...toFilterParams(next), page: undefined }),
+    setPage: (next: number) => update({ page: next === 1 ? undefined : next }, { push: true }),
+    setPageSize: (next: number) => update({
+      pageSize: next === INVENTORY_CONSTANTS.DEFAULT_PAGE_SIZE ? undefined : next,
+      page: undefined,
+    }),
+    setOrdering: (next: ProductOrdering | undefined) => update({ ordering: next, page: undefined }),
+  };
+};
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { inventoryApi } from '../services/api';
+import type { Product, ProductQuery } from '../types/inventory';
+
+type ProductListQuery = Omit<ProductQuery, 'page' | 'pageSize'>;
+
+/**
+ * Identifies the filters and sort order of a query, ignoring the page
+ */
+const getQueryKey = (query: ProductQuery | ProductListQuery): string =>
+  JSON.stringify({ ...query, page: undefined, pageSize: undefined });
+
+/**
+ * Row selection for a paginated product table
+ * Rows stay selected across pages. "Select all matching" selects every
+ * product matching the query the table shows; it ends as soon as the
+ * filters change or a single row is deselected.
+ */
+export const useProductSelection = (
+  pageProducts: readonly Product[],
+  query: ProductQuery,
+  matchingCount: number
+) => {
+  const [selected, setSelected] = useState<ReadonlyMap<number, Product>>(new Map());
+  const [matchingQueryKey, setMatchingQueryKey] = useState<string | null>(null);
+
+  const isAllMatching = matchingQueryKey !== null && matchingQueryKey === getQueryKey(query);
+  const isSelected = (productId: number): boolean => isAllMatching || selected.has(productId);
+  const isPageSelected = pageProducts.length > 0 && pageProducts.every((product) => isSelected(product.id));
+  const count = isAllMatching ? matchingCount : selected.size;
+
+  const toggle = (product: Product) => {
+    if (isAllMatching) {
+      // Fall back to the current page without the deselected row
+      setMatchingQueryKey(null);
+      setSelected(new Map(pageProducts.filter(({ id }) => id !== product.id).map((row) => [row.id, row])));
+      return;
+    }
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(product.id)) {
+        next.delete(product.id);
+      } else {
+        next.set(product.id, product);
+      }
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    const deselect = isPageSelected;
+    setMatchingQueryKey(null);
+    setSelected((prev) => {
+      const next = new Map(isAllMatching ? [] : prev);
+      for (const product of pageProducts) {
+        if (deselect) {
+          next.delete(product.id);
+        } else {
+          next.set(product.id, product);
+        }
+      }
+      return next;
+    });
+  };
+
+  const selectAllMatching = () => {
+    setMatchingQueryKey(getQueryKey(query));
+  };
+
+  const select = (products: readonly Product[]) => {
+    setMatchingQueryKey(null);
+    setSelected(new Map(products.map((product) => [product.id, product])));
+  };
+
+  const clear = () => {
+    setMatchingQueryKey(null);
+    setSelected(new Map());
+  };
+
+  /**
+   * Resolves the selection to products, fetching every matching page when
+   * all matching products are selected
+   */
+  const getSelectedProducts = async (): Promise<Product[]> =>
+    isAllMatching ? inventoryApi.getAllProducts(query) : [...selected.values()];
+
+  return {
+    count,
+    isAllMatching,
+    isPageSelected,
+    isSelected,
+    toggle,
+    togglePage,
+    selectAllMatching,
+    select,
+    clear,
+    getSelectedProducts,
+  };
+};
+
+export type ProductSelection = ReturnType<typeof useProductSelection>;
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { authApi } from '../services/api';
+import { useAuthStore } from '../stores/auth-store';
+
+/**
+ * Reloads the signed-in user's profile when the app starts and after every
+ * token refresh, so a changed role or permission applies without signing
+ * out; the stored profile is kept while the server cannot be reached
+ * @param enabled - Whether to reload, e.g. only while signed in
+ */
+export const useProfileSync = (enabled: boolean) => {
+  const accessToken = useAuthStore((state) => state.accessToken);
+  const setUser = useAuthStore((state) => state.setUser);
+
+  useEffect(() => {
+    if (!enabled || !accessToken) return;
+
+    let isCancelled = false;
+    authApi
+      .getCurrentUser()
+      .then((user) => {
+        if (!isCancelled) setUser(user);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [enabled, accessToken, setUser]);
+};
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { inventoryApi } from '../services/api';
+import type { StockTransfer, StockTransferFormData, TransferAction, TransferQuery } from '../types/transfer';
+import { TRANSFER_STATUS_LABELS } from '../types/transfer';
+import { showToast } from '../stores/toast-store';
+import { getErrorMessage } from '../lib/utils';
+
+const QUERY_KEYS = {
+  transfers: ['transfers'] as const,
+  list: (query: TransferQuery) => ['transfers', query] as const,
+  products: ['products'] as const,
+} as const;
+
+interface TransferActionVariables {
+  /** Transfer to move on */
+  transfer: StockTransfer;
+  /** Step to take */
+  action: TransferAction;
+  /** Unique key so a retried ship or receive is applied only once */
+  idempotencyKey: string;
+}
+
+/**
+ * Sends one transfer step to its endpoint
+ * @param variables - Transfer, step and idempotency key
+ * @returns Promise with the updated transfer
+ */
+const sendTransferAction = ({ transfer, action, idempotencyKey }: TransferActionVariables): Promise<StockTransfer> => {
+  switch (action) {
+    case 'approve':
+      return inventoryApi.approveTransfer(transfer.id);
+    case 'ship':
+      return inventoryApi.shipTransfer(transfer.id, idempotencyKey);
+    case 'receive':
+      return inventoryApi.receiveTransfer(transfer.id, idempotencyKey);
+    case 'cancel':
+      return inventoryApi.cancelTransfer(transfer.id);
+  }
+};
+
+/**
+ * Fetches stock transfers matching a query, e.g. the history of one product
+ */
+export const useTransfers = (query: TransferQuery) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.list(query),
+    queryFn: () => inventoryApi.getTransfers(query),
+  });
+};
+
+/**
+ * Requests a transfer; stock does not move until it is shipped
+ */
+export const useCreateTransfer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (transfer: StockTransferFormData) => inventoryApi.createTransfer(transfer),
+    onSuccess: (transfer) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.transfers });
+      showToast(`Transfer ${transfer.number} requested`);
+    },
+  });
+};
+
+/**
+ * Moves a transfer on to its next status; shipping and receiving move
+ * stock, so the cached products are refreshed as well
+ */
+export const useTransferAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sendTransferAction,
+    onSuccess: (transfer, { action }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.transfers });
+      if (action === 'ship' || action === 'receive') {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.products });
+      }
+      showToast(`Transfer ${transfer.number} is now ${TRANSFER_STATUS_LABELS[transfer.status].toLowerCase()}`);
+    },
+    onError: (error, { transfer }) => {
+      showToast(`Failed to update transfer ${transfer.number}: ${getErrorMessage(error)}`, { variant: 'error' });
+    },
+  });
+};
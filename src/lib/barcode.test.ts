@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { encodeCode128, encodeEan13 } from './barcode'
+
+// Reference modules worked out by hand from the EAN-13 code tables
+const EAN13_4006381333931 =
+  '10100011010100111010111101111010001001011001101010100001010000101000010111010010000101100110101'
+const EAN13_0012345678905 =
+  '10100011010011001001001101111010100011011000101010101000010001001001000111010011100101001110101'
+
+// Code 128 start B, start C and stop symbols
+const START_B = '11010010000'
+const START_C = '11010011100'
+const STOP = '1100011101011'
+
+describe('encodeEan13', () => {
+  it('encodes an EAN-13 with its guard bars and parity', () => {
+    expect(encodeEan13('4006381333931')).toEqual({
+      symbology: 'ean13',
+      modules: EAN13_4006381333931,
+      quietZone: 11,
+      text: '4006381333931'
+    })
+  })
+
+  it('encodes a UPC-A as the EAN-13 with a leading zero', () => {
+    expect(encodeEan13('012345678905')).toMatchObject({ modules: EAN13_0012345678905, text: '0012345678905' })
+  })
+
+  it('rejects codes that are not 12 or 13 digits', () => {
+    expect(encodeEan13('12345')).toBeNull()
+    expect(encodeEan13('400638133393X')).toBeNull()
+  })
+})
+
+describe('encodeCode128', () => {
+  it('encodes text in code set B with its check symbol', () => {
+    const barcode = encodeCode128('PJJ123C')
+
+    // Start, seven characters and the check symbol of 11 modules each, then the stop
+    expect(barcode?.modules).toHaveLength(11 * 9 + 13)
+    expect(barcode?.modules.startsWith(START_B)).toBe(true)
+    // (104 + 48×1 + 42×2 + 42×3 + 17×4 + 18×5 + 19×6 + 35×7) mod 103 = 55, widths 311321
+    expect(barcode?.modules.slice(11 * 8, 11 * 9)).toBe('11101000110')
+    expect(barcode?.modules.endsWith(STOP)).toBe(true)
+  })
+
+  it('packs even-length digit strings two digits per symbol in code set C', () => {
+    const barcode = encodeCode128('12345678')
+
+    expect(barcode?.modules).toHaveLength(11 * 6 + 13)
+    expect(barcode?.modules.startsWith(START_C)).toBe(true)
+    expect(encodeCode128('1234567')?.modules.startsWith(START_B)).toBe(true)
+  })
+
+  it('rejects empty text and characters outside printable ASCII', () => {
+    expect(encodeCode128('')).toBeNull()
+    expect(encodeCode128('Café')).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+import { escapeHtml } from "./print"
+
+/**
+ * Bar and space widths of the Code 128 symbols, indexed by symbol value
+ * Each pattern starts with a bar; the stop pattern has seven elements.
+ */
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+]
+
+const CODE128_START_B = 104
+const CODE128_START_C = 105
+const CODE128_STOP = 106
+
+/** EAN-13 left-hand digits with odd parity (set A); set C is its inverse, set B its mirror */
+const EAN_L_CODES = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"]
+
+/** Parity of the six left-hand digits, selected by the first digit of an EAN-13 */
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+
+/**
+ * Barcode symbology drawn on labels
+ */
+export type BarcodeSymbology = "ean13" | "code128"
+
+/**
+ * Barcode as a row of modules, "1" for a bar and "0" for a space
+ */
+export interface EncodedBarcode {
+  readonly symbology: BarcodeSymbology
+  readonly modules: string
+  /** Quiet zone needed on each side, in modules */
+  readonly quietZone: number
+  /** Text printed under the bars */
+  readonly text: string
+}
+
+/**
+ * Converts bar and space widths to modules
+ * @param widths - Widths starting with a bar
+ * @returns Modules
+ */
+function widthsToModules(widths: string): string {
+  return widths
+    .split("")
+    .map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(Number(width)))
+    .join("")
+}
+
+/**
+ * Encodes text as Code 128; even-length digit strings use the compact
+ * code set C, everything else code set B
+ * @param text - Printable ASCII text
+ * @returns Encoded barcode, or null when the text holds other characters
+ */
+export function encodeCode128(text: string): EncodedBarcode | null {
+  if (!text || !/^[\x20-\x7e]+$/.test(text)) return null
+
+  const useCodeC = /^\d+$/.test(text) && text.length % 2 === 0
+  const values = useCodeC
+    ? [CODE128_START_C, ...(text.match(/\d\d/g) ?? []).map(Number)]
+    : [CODE128_START_B, ...text.split("").map((char) => char.charCodeAt(0) - 32)]
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103
+
+  return {
+    symbology: "code128",
+    modules: [...values, checksum, CODE128_STOP].map((value) => widthsToModules(CODE128_PATTERNS[value])).join(""),
+    quietZone: 10,
+    text,
+  }
+}
+
+/**
+ * Encodes a GTIN-13 as an EAN-13; a GTIN-12 (UPC-A) is encoded with a leading zero
+ * @param gtin - 12 or 13 digit GTIN with check digit
+ * @returns Encoded barcode, or null when the code is not 12 or 13 digits
+ */
+export function encodeEan13(gtin: string): EncodedBarcode | null {
+  const code = gtin.length === 12 ? `0${gtin}` : gtin
+  if (!/^\d{13}$/.test(code)) return null
+
+  const digits = code.split("").map(Number)
+  const parity = EAN_PARITY[digits[0]]
+  const left = digits
+    .slice(1, 7)
+    .map((digit, index) => {
+      const odd = EAN_L_CODES[digit]
+      return parity[index] === "L" ? odd : invertModules(odd).split("").reverse().join("")
+    })
+    .join("")
+  const right = digits
+    .slice(7)
+    .map((digit) => invertModules(EAN_L_CODES[digit]))
+    .join("")
+
+  return {
+    symbology: "ean13",
+    modules: `101${left}01010${right}101`,
+    quietZone: 11,
+    text: code,
+  }
+}
+
+/**
+ * Swaps bars and spaces
+ * @param modules - Modules to invert
+ * @returns Inverted modules
+ */
+function invertModules(modules: string): string {
+  return modules.replace(/[01]/g, (module) => (module === "1" ? "0" : "1"))
+}
+
+/**
+ * Draws a barcode as an SVG that scales to the width of its container
+ * Bars are merged into one rectangle per run so the markup stays small.
+ * @param barcode - Encoded barcode
+ * @returns SVG markup
+ */
+export function renderBarcodeSvg(barcode: EncodedBarcode): string {
+  const width = barcode.modules.length + barcode.quietZone * 2
+  const bars: string[] = []
+  for (const match of barcode.modules.matchAll(/1+/g)) {
+    const x = (match.index ?? 0) + barcode.quietZone
+    bars.push(`<rect x="${x}" y="0" width="${match[0].length}" height="1"/>`)
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} 1" preserveAspectRatio="none" ` +
+    `shape-rendering="crispEdges" role="img" aria-label="${escapeHtml(barcode.text)}">${bars.join("")}</svg>`
+  )
+}
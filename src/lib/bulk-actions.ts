@@ -0,0 +1,68 @@
+import type { Permission } from "../types/auth"
+import type { BulkProductAction, BulkProductActionType, Product } from "../types/inventory"
+import { formatCurrency } from "./utils"
+
+/** Permission needed for each bulk action */
+export const BULK_ACTION_PERMISSIONS: Record<BulkProductActionType, Permission> = {
+  set_category: "product.edit",
+  set_supplier: "product.edit",
+  adjust_price: "product.editPrice",
+  set_minimum_stock_threshold: "product.edit",
+  delete: "product.delete",
+}
+
+/**
+ * Calculates a price after a percentage change, rounded to cents
+ * @param price - Current price
+ * @param percent - Change in percent, negative for a reduction
+ * @returns New price, never below zero
+ */
+export function adjustPrice(price: number, percent: number): number {
+  return Math.max(Math.round(price * (100 + percent)) / 100, 0)
+}
+
+/**
+ * Describes a bulk action for the confirmation summary
+ * @param action - Bulk action
+ * @param count - Number of products it applies to
+ * @returns Sentence such as "Change the category of 12 products to Antibiotics"
+ */
+export function describeBulkAction(action: BulkProductAction, count: number): string {
+  const products = `${count} ${count === 1 ? "product" : "products"}`
+  switch (action.type) {
+    case "set_category":
+      return `Change the category of ${products} to "${action.category}"`
+    case "set_supplier":
+      return `Change the supplier of ${products} to "${action.supplier}"`
+    case "adjust_price":
+      return `${action.percent >= 0 ? "Raise" : "Lower"} the price of ${products} by ${Math.abs(action.percent)}%`
+    case "set_minimum_stock_threshold":
+      return `Set the minimum stock of ${products} to ${action.minimumStockThreshold}`
+    case "delete":
+      return `Move ${products} to the trash`
+  }
+}
+
+/**
+ * Shows the value a bulk action changes on a product, before and after
+ * @param product - Product to preview
+ * @param action - Bulk action
+ * @returns Current and new value, or null for deletions
+ */
+export function previewBulkAction(
+  product: Product,
+  action: BulkProductAction
+): { readonly before: string; readonly after: string } | null {
+  switch (action.type) {
+    case "set_category":
+      return { before: product.category, after: action.category }
+    case "set_supplier":
+      return { before: product.supplier, after: action.supplier }
+    case "adjust_price":
+      return { before: formatCurrency(product.price), after: formatCurrency(adjustPrice(product.price, action.percent)) }
+    case "set_minimum_stock_threshold":
+      return { before: String(product.minimumStockThreshold), after: String(action.minimumStockThreshold) }
+    case "delete":
+      return null
+  }
+}
@@ -0,0 +1,94 @@
+import type { Product } from "../types/inventory"
+import type { DestructionRecord, DestructionRegisterQuery, ExpiredStockLine } from "../types/disposal"
+import { DISPOSAL_METHOD_LABELS, WRITE_OFF_REASON_LABELS } from "../types/disposal"
+import { formatCurrency, formatDate, isExpired, isExpiringSoon, scopeProductToLocation } from "./utils"
+import { escapeHtml, printHtml } from "./print"
+
+/**
+ * Lists the batches holding expired or soon-to-expire units, and batches
+ * with units in quarantine, earliest expiry first
+ * @param products - Products to check
+ * @param locationId - Location to limit the batches to, null for every location
+ * @returns Batches to deal with, valued at the product price
+ */
+export function getExpiredStockLines(products: readonly Product[], locationId: number | null): ExpiredStockLine[] {
+  return products
+    .flatMap((product) =>
+      scopeProductToLocation(product, locationId).batches.flatMap((batch): ExpiredStockLine[] => {
+        const status = isExpired(batch.expiryDate) ? "expired" : isExpiringSoon(batch.expiryDate) ? "expiringSoon" : "valid"
+        const needsAction = (status !== "valid" && batch.quantity > 0) || batch.quarantinedQuantity > 0
+        if (!needsAction) return []
+        return [{ product, batch, status, value: (batch.quantity + batch.quarantinedQuantity) * product.price }]
+      })
+    )
+    .sort((a, b) => a.batch.expiryDate.localeCompare(b.batch.expiryDate))
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; font-size: 11px; color: #111827; margin: 0; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  .meta { margin-bottom: 16px; }
+  .meta p { margin: 0 0 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .number { text-align: right; }
+  tfoot td { font-weight: 600; }
+  .signatures { display: flex; gap: 48px; margin-top: 32px; }
+  .signatures p { border-top: 1px solid #111827; padding-top: 4px; width: 220px; }
+  @page { size: landscape; margin: 12mm; }
+`
+
+/**
+ * Opens the print dialog with the destruction register for a date range,
+ * laid out for inspection by the regulator
+ * @param records - Register entries to print
+ * @param query - Date range the entries were fetched for
+ */
+export function printDestructionRegister(records: readonly DestructionRecord[], query: DestructionRegisterQuery): void {
+  const rows = records
+    .map(
+      (record) => `
+        <tr>
+          <td>${escapeHtml(record.number)}</td>
+          <td>${escapeHtml(formatDate(record.destroyedAt, "MMM dd, yyyy HH:mm"))}</td>
+          <td>${escapeHtml(record.productName)}<br>${escapeHtml(record.sku)}</td>
+          <td>${escapeHtml(record.lotNumber)}</td>
+          <td>${escapeHtml(formatDate(record.expiryDate))}</td>
+          <td class="number">${record.quantity}</td>
+          <td class="number">${escapeHtml(formatCurrency(record.value))}</td>
+          <td>${escapeHtml(WRITE_OFF_REASON_LABELS[record.reason])}</td>
+          <td>${escapeHtml(DISPOSAL_METHOD_LABELS[record.method])}</td>
+          <td>${escapeHtml(record.destroyedBy)}</td>
+          <td>${escapeHtml(record.witness)}</td>
+        </tr>`
+    )
+    .join("")
+  const totalValue = records.reduce((total, record) => total + record.value, 0)
+  const period = `${query.from ? formatDate(query.from) : "First entry"} – ${query.to ? formatDate(query.to) : "today"}`
+
+  const body = `
+    <h1>Destruction Register</h1>
+    <div class="meta">
+      <p><strong>Period:</strong> ${escapeHtml(period)}</p>
+      <p><strong>Printed:</strong> ${escapeHtml(formatDate(new Date(), "MMM dd, yyyy HH:mm"))}</p>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Entry</th><th>Date</th><th>Product</th><th>Lot</th><th>Expiry</th><th class="number">Units</th>
+          <th class="number">Value</th><th>Reason</th><th>Method</th><th>Destroyed By</th><th>Witness</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+      <tfoot>
+        <tr><td colspan="6">Total</td><td class="number">${escapeHtml(formatCurrency(totalValue))}</td><td colspan="4"></td></tr>
+      </tfoot>
+    </table>
+    <div class="signatures">
+      <p>Responsible pharmacist</p>
+      <p>Date</p>
+    </div>
+  `
+  printHtml(`Destruction Register ${period}`, body, PRINT_STYLES)
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { isValidGtin, normalizeGtin, parseGs1, toPackGtin } from './gs1'
+
+const GS = '\x1d'
+
+describe('parseGs1', () => {
+  it('reads the human-readable form', () => {
+    expect(parseGs1('(01)05012345678900(17)270600(10)L1(21)S9')).toEqual({
+      gtin: '05012345678900',
+      lotNumber: 'L1',
+      expiryDate: '2027-06-30',
+      serialNumber: 'S9'
+    })
+  })
+
+  it('reads the raw scanner form with a symbology prefix and group separators', () => {
+    expect(parseGs1(`]d201050123456789001727061510L1${GS}21S9`)).toEqual({
+      gtin: '05012345678900',
+      lotNumber: 'L1',
+      expiryDate: '2027-06-15',
+      serialNumber: 'S9'
+    })
+  })
+
+  it('skips identifiers it does not read', () => {
+    // (30) count and (240) additional product ID are variable length, (3103) net weight is fixed
+    expect(parseGs1(`01050123456789003012${GS}240ABC-1${GS}310300150010L1${GS}17270630`)).toEqual({
+      gtin: '05012345678900',
+      lotNumber: 'L1',
+      expiryDate: '2027-06-30',
+      serialNumber: undefined
+    })
+  })
+
+  it('rejects codes that are not GS1 element strings', () => {
+    expect(parseGs1('5012345678900')).toBeNull()
+    expect(parseGs1('AMX-500')).toBeNull()
+    expect(parseGs1('01050123456789')).toBeNull()
+  })
+})
+
+describe('normalizeGtin', () => {
+  it('matches the same product read as UPC-A, EAN-13 and GTIN-14', () => {
+    const upcA = '012345678905'
+    const ean13 = '0012345678905'
+    const gtin14 = '00012345678905'
+
+    expect(new Set([upcA, ean13, gtin14].map(normalizeGtin))).toEqual(new Set([gtin14]))
+    expect(isValidGtin(upcA) && isValidGtin(ean13) && isValidGtin(gtin14)).toBe(true)
+  })
+
+  it('leaves other codes unchanged', () => {
+    expect(normalizeGtin('AMX-500')).toBe('AMX-500')
+    expect(normalizeGtin('12345')).toBe('12345')
+  })
+})
+
+describe('toPackGtin', () => {
+  it('shortens a GTIN-14 with indicator digit 0 to the printed EAN-13', () => {
+    expect(toPackGtin('05012345678900')).toBe('5012345678900')
+    expect(toPackGtin('15012345678907')).toBe('15012345678907')
+  })
+})
@@ -0,0 +1,172 @@
+import { format, lastDayOfMonth } from "date-fns"
+
+/** Valid GTIN lengths: GTIN-8, GTIN-12 (UPC-A), GTIN-13 (EAN-13) and GTIN-14 */
+const GTIN_LENGTHS = [8, 12, 13, 14]
+
+/** GS1 group separator (FNC1) ending variable-length element strings */
+const GROUP_SEPARATOR = "\x1d"
+
+/** Symbology identifiers a scanner may prefix, e.g. "]d2" for GS1 DataMatrix */
+const SYMBOLOGY_PREFIX = /^\][A-Za-z]\d/
+
+/**
+ * Element string lengths, identifier included, of the identifier prefixes
+ * GS1 predefines as fixed length; every other element string is variable
+ * length and ends at a group separator or the end of the data
+ */
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  "00": 20,
+  "01": 16,
+  "02": 16,
+  "03": 16,
+  "04": 18,
+  "11": 8,
+  "12": 8,
+  "13": 8,
+  "14": 8,
+  "15": 8,
+  "16": 8,
+  "17": 8,
+  "18": 8,
+  "19": 8,
+  "20": 4,
+  "31": 10,
+  "32": 10,
+  "33": 10,
+  "34": 10,
+  "35": 10,
+  "36": 10,
+  "41": 16,
+}
+
+/** Application identifiers read here; others are skipped */
+const READ_AIS = ["01", "10", "11", "15", "17", "21"]
+
+/** Read identifiers whose values are digits only */
+const NUMERIC_AIS = ["01", "11", "15", "17"]
+
+/**
+ * Identifiers read from a GS1 DataMatrix code
+ */
+export interface Gs1Data {
+  /** GTIN, AI (01) */
+  readonly gtin?: string
+  /** Lot number, AI (10) */
+  readonly lotNumber?: string
+  /** Expiry date as yyyy-MM-dd, AI (17) */
+  readonly expiryDate?: string
+  /** Serial number, AI (21) */
+  readonly serialNumber?: string
+}
+
+/**
+ * Calculates the GS1 check digit for the digits before it
+ * @param digits - GTIN without its check digit
+ * @returns Check digit
+ */
+export function getGtinCheckDigit(digits: string): number {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Checks if a code is a GTIN with a valid length and check digit
+ * @param code - Code to check
+ * @returns True if the code is a valid GTIN-8, -12, -13 or -14
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^\d+$/.test(code) || !GTIN_LENGTHS.includes(code.length)) return false
+  return getGtinCheckDigit(code.slice(0, -1)) === Number(code.slice(-1))
+}
+
+/**
+ * Pads a GTIN-8, -12 or -13 with leading zeros to GTIN-14, so the same
+ * product matches whether it was read as UPC-A, EAN-13 or from a DataMatrix
+ * symbol; compare codes only after normalizing both sides
+ * @param gtin - GTIN to normalize
+ * @returns GTIN-14, or the code unchanged when it is not a GTIN
+ */
+export function normalizeGtin(gtin: string): string {
+  return /^\d+$/.test(gtin) && GTIN_LENGTHS.includes(gtin.length) ? gtin.padStart(14, "0") : gtin
+}
+
+/**
+ * Shortens a GTIN-14 with indicator digit 0 to the EAN-13 printed on packs
+ * @param gtin - GTIN read from a DataMatrix symbol
+ * @returns EAN-13, or the GTIN unchanged when it has another indicator digit
+ */
+export function toPackGtin(gtin: string): string {
+  return gtin.length === 14 && gtin.startsWith("0") ? gtin.slice(1) : gtin
+}
+
+/**
+ * Converts a GS1 YYMMDD date to yyyy-MM-dd; day 00 means the end of the month
+ * @param value - Date as YYMMDD
+ * @returns Date as yyyy-MM-dd, or undefined when it is not a date
+ */
+function parseGs1Date(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined
+  const year = 2000 + Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const day = Number(value.slice(4, 6))
+  if (month < 1 || month > 12) return undefined
+  const date = day === 0 ? lastDayOfMonth(new Date(year, month - 1, 1)) : new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 ? format(date, "yyyy-MM-dd") : undefined
+}
+
+/**
+ * Splits a GS1 element string into application identifiers and values
+ * Accepts the raw scanner form (FNC1 as group separator) and the
+ * human-readable form with identifiers in parentheses.
+ * @param data - Scanned data
+ * @returns Values by application identifier, or null when the data is not GS1
+ */
+function readElementStrings(data: string): Map<string, string> | null {
+  const elements = new Map<string, string>()
+  const text = data.replace(SYMBOLOGY_PREFIX, "")
+
+  if (text.startsWith("(")) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g
+    for (const [, ai, value] of text.matchAll(pattern)) {
+      elements.set(ai, value)
+    }
+    return elements.size > 0 ? elements : null
+  }
+
+  let rest = text.startsWith(GROUP_SEPARATOR) ? text.slice(1) : text
+  while (rest.length > 0) {
+    const prefix = rest.slice(0, 2)
+    const length = PREDEFINED_LENGTHS[prefix]
+    const end = length ?? (rest.includes(GROUP_SEPARATOR) ? rest.indexOf(GROUP_SEPARATOR) : rest.length)
+    const element = rest.slice(0, end)
+    if (element.length !== end || !/^\d{2}/.test(element)) return null
+    // The identifiers read are all two digits long
+    if (READ_AIS.includes(prefix)) {
+      const value = element.slice(2)
+      if (NUMERIC_AIS.includes(prefix) && !/^\d+$/.test(value)) return null
+      elements.set(prefix, value)
+    }
+    rest = rest.slice(end)
+    if (rest.startsWith(GROUP_SEPARATOR)) rest = rest.slice(1)
+  }
+  return elements.has("01") ? elements : null
+}
+
+/**
+ * Parses a GS1 DataMatrix string into GTIN, lot, expiry and serial number
+ * @param data - Scanned data
+ * @returns Parsed identifiers, or null when the data is not a GS1 string
+ */
+export function parseGs1(data: string): Gs1Data | null {
+  const elements = readElementStrings(data.trim())
+  if (!elements) return null
+  return {
+    gtin: elements.get("01"),
+    lotNumber: elements.get("10"),
+    expiryDate: elements.has("17") ? parseGs1Date(elements.get("17") ?? "") : undefined,
+    serialNumber: elements.get("21"),
+  }
+}
@@ -0,0 +1,117 @@
+import { OFFLINE_CONSTANTS } from "../types/offline"
+
+/**
+ * Object store in the offline database
+ * - query-cache: dehydrated query cache under a single key
+ * - outbox: queued changes, keyed by an auto-incremented ID
+ */
+export type OfflineStore = "query-cache" | "outbox"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request - IndexedDB request
+ * @returns Promise with the request result
+ */
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Opens the offline database, creating its object stores on first use
+ * The connection is shared by every caller.
+ * @returns Promise with the database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    const request = indexedDB.open(OFFLINE_CONSTANTS.DATABASE_NAME, OFFLINE_CONSTANTS.DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const database = request.result
+      if (!database.objectStoreNames.contains("query-cache")) {
+        database.createObjectStore("query-cache")
+      }
+      if (!database.objectStoreNames.contains("outbox")) {
+        database.createObjectStore("outbox", { keyPath: "id", autoIncrement: true })
+      }
+    }
+    databasePromise = toPromise(request).catch((error: unknown) => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Runs a request in a transaction on one object store
+ * @param storeName - Object store
+ * @param mode - Transaction mode
+ * @param run - Builds the request from the store
+ * @returns Promise with the request result, resolved once the transaction completes
+ */
+async function withStore<T>(
+  storeName: OfflineStore,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeName, mode)
+  const result = toPromise(run(transaction.objectStore(storeName)))
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+  return result
+}
+
+/**
+ * Reads a value
+ * @param storeName - Object store
+ * @param key - Key of the value
+ * @returns Promise with the value, or undefined if there is none
+ */
+export function readValue<T>(storeName: OfflineStore, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, "readonly", (store) => store.get(key) as IDBRequest<T | undefined>)
+}
+
+/**
+ * Reads every value of a store in key order
+ * @param storeName - Object store
+ * @returns Promise with the values
+ */
+export function readAllValues<T>(storeName: OfflineStore): Promise<T[]> {
+  return withStore(storeName, "readonly", (store) => store.getAll() as IDBRequest<T[]>)
+}
+
+/**
+ * Writes a value, replacing any value with the same key
+ * @param storeName - Object store
+ * @param value - Value to write
+ * @param key - Key, for stores without a key path
+ * @returns Promise with the key of the value
+ */
+export function writeValue(storeName: OfflineStore, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> {
+  return withStore(storeName, "readwrite", (store) => store.put(value, key))
+}
+
+/**
+ * Deletes a value
+ * @param storeName - Object store
+ * @param key - Key of the value
+ */
+export async function deleteValue(storeName: OfflineStore, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key))
+}
+
+/**
+ * Deletes every value of a store
+ * @param storeName - Object store
+ */
+export async function clearValues(storeName: OfflineStore): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.clear())
+}
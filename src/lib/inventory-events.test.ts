@@ -0,0 +1,173 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import type { PaginatedResponse, Product, StockMovement } from '../types/inventory'
+import { useAuthStore } from '../stores/auth-store'
+import { startStubEventServer, type StubEventServer } from '../test/event-server'
+import { listenToInventoryEvents } from './inventory-events'
+import { generateProducts } from './product-fixtures'
+
+const LIST_KEY = ['products', 'list', { page: 1, pageSize: 25 }]
+
+// Answers the token refresh; the event stream itself goes to the stub event server
+const api = setupServer()
+
+let server: StubEventServer
+let queryClient: QueryClient
+let products: Product[]
+let stopListening: () => void
+
+/**
+ * Gets a product from each place it is cached
+ * @param id - Product ID
+ * @returns Cached detail, page list and full list entries
+ */
+const getCachedProducts = (id: number): (Product | undefined)[] => [
+  queryClient.getQueryData<Product>(['products', id]),
+  queryClient.getQueryData<PaginatedResponse<Product>>(LIST_KEY)?.results.find((product) => product.id === id),
+  queryClient.getQueryData<Product[]>(['products', 'all'])?.find((product) => product.id === id)
+]
+
+/**
+ * Starts listening and waits until the stream is open
+ */
+const listen = async (): Promise<void> => {
+  stopListening = listenToInventoryEvents(queryClient)
+  await vi.waitFor(() => expect(server.connectionCount).toBe(1))
+}
+
+beforeAll(() => api.listen({ onUnhandledRequest: 'bypass' }))
+
+beforeEach(async () => {
+  useAuthStore.setState({ accessToken: 'access-1', refreshToken: 'refresh-1', user: null })
+  server = await startStubEventServer()
+  server.acceptedToken = 'access-1'
+  queryClient = new QueryClient()
+  products = generateProducts(3)
+  queryClient.setQueryData(['products', 1], products[0])
+  queryClient.setQueryData(LIST_KEY, { count: 3, next: null, previous: null, results: products })
+  queryClient.setQueryData(['products', 'all'], products)
+})
+
+afterEach(async () => {
+  stopListening()
+  await server.stop()
+  queryClient.clear()
+  api.resetHandlers()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => api.close())
+
+describe('live inventory updates', () => {
+  it('opens the stream with the access token', async () => {
+    await listen()
+
+    expect(server.requests).toEqual(['/api/inventory/events/?token=access-1'])
+  })
+
+  it('applies stock changes with the new product version', async () => {
+    await listen()
+    const [product] = products
+    const batches = product.batches.map((batch) => ({ ...batch, quantity: batch.quantity + 5 }))
+    const updatedAt = '2030-01-01T10:00:00.000Z'
+    const movement: StockMovement = {
+      id: 99,
+      productId: product.id,
+      batchId: batches[0].id,
+      type: 'receive',
+      reason: 'purchase',
+      quantity: 5,
+      note: '',
+      user: 'alice',
+      createdAt: updatedAt
+    }
+
+    server.push({
+      type: 'stock_changed',
+      productId: product.id,
+      stockQuantity: product.stockQuantity + 5,
+      batches,
+      updatedAt,
+      movement,
+      user: 'alice'
+    })
+
+    await vi.waitFor(() => {
+      for (const cached of getCachedProducts(product.id)) {
+        expect(cached).toMatchObject({ stockQuantity: product.stockQuantity + 5, batches, updatedAt })
+      }
+    })
+    expect(queryClient.getQueryState(LIST_KEY)?.isInvalidated).toBe(true)
+  })
+
+  it('replaces updated products and drops deleted ones', async () => {
+    await listen()
+    const updated = { ...products[0], name: 'Renamed', updatedAt: '2030-01-01T10:00:00.000Z' }
+
+    server.push({ type: 'product_updated', product: updated, user: 'alice' })
+    server.push({ type: 'product_deleted', productId: products[1].id, user: 'alice' })
+
+    await vi.waitFor(() => {
+      expect(getCachedProducts(updated.id)).toEqual([updated, updated, updated])
+      expect(getCachedProducts(products[1].id)).toEqual([undefined, undefined, undefined])
+    })
+    expect(queryClient.getQueryData<PaginatedResponse<Product>>(LIST_KEY)?.count).toBe(2)
+  })
+
+  it('adds created products to the first unfiltered page', async () => {
+    await listen()
+    const [created] = generateProducts(4).slice(3)
+
+    server.push({ type: 'product_created', product: created, user: 'alice' })
+
+    await vi.waitFor(() => {
+      expect(queryClient.getQueryData<PaginatedResponse<Product>>(LIST_KEY)?.results[0]).toEqual(created)
+      expect(queryClient.getQueryData<Product[]>(['products', 'all'])?.[0]).toEqual(created)
+    })
+  })
+
+  it('ignores messages it cannot read', async () => {
+    await listen()
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    server.pushRaw('not json')
+
+    await vi.waitFor(() =>
+      expect(consoleError).toHaveBeenCalledWith('Error reading inventory event:', expect.any(SyntaxError))
+    )
+    expect(getCachedProducts(1)).toEqual([products[0], products[0], products[0]])
+  })
+
+  it('refetches the products after the stream reconnects', async () => {
+    await listen()
+
+    server.disconnect()
+
+    await vi.waitFor(() => expect(server.requests).toHaveLength(2))
+    await vi.waitFor(() => expect(queryClient.getQueryState(LIST_KEY)?.isInvalidated).toBe(true))
+    expect(server.connectionCount).toBe(1)
+  })
+
+  it('refreshes an expired access token before reopening the stream', async () => {
+    let refreshCount = 0
+    api.use(
+      http.post('http://localhost:8000/api/auth/token/refresh/', () => {
+        refreshCount++
+        return HttpResponse.json({ access: 'access-2' })
+      })
+    )
+    server.acceptedToken = 'access-2'
+
+    stopListening = listenToInventoryEvents(queryClient)
+
+    await vi.waitFor(() => expect(server.connectionCount).toBe(1), { timeout: 3000 })
+    expect(server.requests).toEqual([
+      '/api/inventory/events/?token=access-1',
+      '/api/inventory/events/?token=access-2'
+    ])
+    expect(refreshCount).toBe(1)
+    expect(useAuthStore.getState().accessToken).toBe('access-2')
+  })
+})
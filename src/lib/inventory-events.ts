@@ -0,0 +1,99 @@
+import type { QueryClient } from "@tanstack/react-query"
+import type { InventoryEvent } from "../types/inventory"
+import { authApi, eventsApi } from "../services/api"
+import { insertCachedProduct, patchCachedProduct, removeCachedProduct, updateCachedProduct } from "./product-cache"
+
+// Delays before reopening a stream the browser gave up on, doubling up to the maximum
+const RECONNECT_DELAY_MS = 1000
+const MAX_RECONNECT_DELAY_MS = 30 * 1000
+
+/**
+ * Applies a change pushed on the live channel to the cached products, so
+ * every open screen shows it without refetching
+ * Lists are only marked stale: sorting and filters may move the product,
+ * which the next fetch sorts out.
+ * @param queryClient - Query client
+ * @param event - Inventory change
+ */
+export function applyInventoryEvent(queryClient: QueryClient, event: InventoryEvent): void {
+  switch (event.type) {
+    case "product_created":
+      insertCachedProduct(queryClient, event.product)
+      queryClient.invalidateQueries({ queryKey: ["categories"], refetchType: "none" })
+      break
+    case "product_updated":
+      patchCachedProduct(queryClient, event.product)
+      break
+    case "product_deleted":
+      removeCachedProduct(queryClient, event.productId)
+      queryClient.invalidateQueries({ queryKey: ["products", "trash"], refetchType: "none" })
+      break
+    case "stock_changed":
+      updateCachedProduct(queryClient, event.productId, (product) => ({
+        ...product,
+        stockQuantity: event.stockQuantity,
+        batches: event.batches,
+        updatedAt: event.updatedAt,
+      }))
+      queryClient.invalidateQueries({ queryKey: ["products", event.productId, "movements"] })
+      break
+  }
+  queryClient.invalidateQueries({ queryKey: ["products", "list"], refetchType: "none" })
+  queryClient.invalidateQueries({ queryKey: ["products", "all"], refetchType: "none" })
+}
+
+/**
+ * Listens to the live inventory channel, applying each change to the
+ * cached products
+ * The browser reconnects by itself after network errors. When it gives up,
+ * e.g. because the access token in the stream URL expired, the token is
+ * refreshed and the stream reopened after a growing delay. After any
+ * reconnect the products are refetched, since changes pushed meanwhile were
+ * missed.
+ * @param queryClient - Query client
+ * @returns Function that stops listening
+ */
+export function listenToInventoryEvents(queryClient: QueryClient): () => void {
+  let close: (() => void) | null = null
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let reconnectDelay = RECONNECT_DELAY_MS
+  let hasConnected = false
+  let isStopped = false
+
+  const reconnect = (): void => {
+    // A failed refresh ends the session, which stops listening
+    authApi.refreshAccessToken().then(
+      () => {
+        if (!isStopped) connect()
+      },
+      () => undefined
+    )
+  }
+
+  const connect = (): void => {
+    close = eventsApi.subscribe(
+      (event) => applyInventoryEvent(queryClient, event),
+      () => {
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: ["products"] })
+        }
+        hasConnected = true
+        reconnectDelay = RECONNECT_DELAY_MS
+      },
+      (closed) => {
+        if (!closed) return
+        close?.()
+        reconnectTimeout = setTimeout(reconnect, reconnectDelay)
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+      }
+    )
+  }
+
+  connect()
+
+  return () => {
+    isStopped = true
+    if (reconnectTimeout !== null) clearTimeout(reconnectTimeout)
+    close?.()
+  }
+}
@@ -0,0 +1,101 @@
+import { addMonths, format, startOfMonth } from "date-fns"
+import { INVENTORY_CONSTANTS } from "../types/inventory"
+import type { CategoryValue, ExpiryTimelineBucket, InventoryStats, Product } from "../types/inventory"
+import { getProductStock, hasExpiredStock, hasExpiringStock, isExpired, isLowStock } from "./utils"
+
+/**
+ * Lists the units of a product by expiry date
+ * @param product - Product to split
+ * @returns One entry per batch with stock, or the whole stock when the product has no batches
+ */
+function getStockByExpiry(product: Product): { expiryDate: string; quantity: number }[] {
+  if (product.batches.length === 0) {
+    return product.stockQuantity > 0 ? [{ expiryDate: product.expiryDate, quantity: product.stockQuantity }] : []
+  }
+  return product.batches
+    .filter((batch) => batch.quantity > 0)
+    .map((batch) => ({ expiryDate: batch.expiryDate, quantity: batch.quantity }))
+}
+
+/**
+ * Builds the expiry timeline: already expired stock, each of the coming
+ * months, then everything later
+ * @param products - Products to include
+ * @param today - Reference date
+ * @returns Timeline buckets in date order
+ */
+function buildExpiryTimeline(products: readonly Product[], today: Date): ExpiryTimelineBucket[] {
+  const firstMonth = startOfMonth(today)
+  const months = Array.from({ length: INVENTORY_CONSTANTS.EXPIRY_TIMELINE_MONTHS }, (_, index) =>
+    addMonths(firstMonth, index)
+  )
+  const buckets = new Map<string, ExpiryTimelineBucket>([
+    ["expired", { key: "expired", label: "Expired", quantity: 0, value: 0 }],
+    ...months.map((month): [string, ExpiryTimelineBucket] => [
+      format(month, "yyyy-MM"),
+      { key: format(month, "yyyy-MM"), label: format(month, "MMM yy"), quantity: 0, value: 0 },
+    ]),
+    ["later", { key: "later", label: "Later", quantity: 0, value: 0 }],
+  ])
+
+  for (const product of products) {
+    for (const { expiryDate, quantity } of getStockByExpiry(product)) {
+      const month = format(new Date(expiryDate), "yyyy-MM")
+      const key = isExpired(expiryDate, today) ? "expired" : buckets.has(month) ? month : "later"
+      const bucket = buckets.get(key)
+      if (bucket) {
+        buckets.set(key, {
+          ...bucket,
+          quantity: bucket.quantity + quantity,
+          value: bucket.value + quantity * product.price,
+        })
+      }
+    }
+  }
+
+  return [...buckets.values()]
+}
+
+/**
+ * Computes the dashboard figures for a set of products
+ * @param products - Products to summarize
+ * @param today - Reference date (default: now)
+ * @returns Inventory overview figures
+ */
+export function getInventoryStats(products: readonly Product[], today: Date = new Date()): InventoryStats {
+  const categories = new Map<string, CategoryValue>()
+  let totalValue = 0
+  let lowStockCount = 0
+  let outOfStockCount = 0
+  let expiredCount = 0
+  let expiringSoonCount = 0
+
+  for (const product of products) {
+    const stock = getProductStock(product)
+    const value = stock * product.price
+    totalValue += value
+
+    if (stock === 0) outOfStockCount++
+    if (isLowStock(stock, product.minimumStockThreshold)) lowStockCount++
+    if (hasExpiredStock(product, today)) expiredCount++
+    if (hasExpiringStock(product, today)) expiringSoonCount++
+
+    const category = categories.get(product.category) ?? { category: product.category, value: 0, productCount: 0 }
+    categories.set(product.category, {
+      category: product.category,
+      value: category.value + value,
+      productCount: category.productCount + 1,
+    })
+  }
+
+  return {
+    productCount: products.length,
+    totalValue,
+    lowStockCount,
+    outOfStockCount,
+    expiredCount,
+    expiringSoonCount,
+    valueByCategory: [...categories.values()].sort((a, b) => b.value - a.value),
+    expiryTimeline: buildExpiryTimeline(products, today),
+  }
+}
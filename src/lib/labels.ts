@@ -0,0 +1,201 @@
+import { format } from "date-fns"
+import type { LabelPaperSize, LabelSheetSettings, Product } from "../types/inventory"
+import { encodeCode128, encodeEan13, renderBarcodeSvg, type EncodedBarcode } from "./barcode"
+import { formatCurrency, formatDate } from "./utils"
+import { downloadFile } from "./spreadsheet"
+import { escapeHtml, printHtml } from "./print"
+
+/** Paper dimensions in millimetres */
+export const PAPER_SIZES: Record<LabelPaperSize, { readonly widthMm: number; readonly heightMm: number }> = {
+  A4: { widthMm: 210, heightMm: 297 },
+  Letter: { widthMm: 215.9, heightMm: 279.4 },
+}
+
+/**
+ * Common self-adhesive label sheets; any grid can still be set by hand
+ */
+export const LABEL_SHEET_PRESETS: readonly {
+  readonly id: string
+  readonly label: string
+  readonly settings: Omit<LabelSheetSettings, "copies" | "skip">
+}[] = [
+  {
+    id: "a4-3x8",
+    label: "A4, 3 × 8 (70 × 37 mm)",
+    settings: { paperSize: "A4", columns: 3, rows: 8, marginXMm: 0, marginYMm: 0.5, columnGapMm: 0, rowGapMm: 0 },
+  },
+  {
+    id: "a4-3x7",
+    label: "A4, 3 × 7 (63.5 × 38.1 mm)",
+    settings: { paperSize: "A4", columns: 3, rows: 7, marginXMm: 7.25, marginYMm: 15.15, columnGapMm: 2.5, rowGapMm: 0 },
+  },
+  {
+    id: "a4-2x7",
+    label: "A4, 2 × 7 (99.1 × 38.1 mm)",
+    settings: { paperSize: "A4", columns: 2, rows: 7, marginXMm: 4.65, marginYMm: 15.15, columnGapMm: 2.5, rowGapMm: 0 },
+  },
+  {
+    id: "letter-3x10",
+    label: "Letter, 3 × 10 (2⅝ × 1 in)",
+    settings: { paperSize: "Letter", columns: 3, rows: 10, marginXMm: 4.76, marginYMm: 12.7, columnGapMm: 3.18, rowGapMm: 0 },
+  },
+  {
+    id: "letter-2x5",
+    label: "Letter, 2 × 5 (4 × 2 in)",
+    settings: { paperSize: "Letter", columns: 2, rows: 5, marginXMm: 3.97, marginYMm: 12.7, columnGapMm: 4.76, rowGapMm: 0 },
+  },
+]
+
+/** Settings used when the label dialog first opens */
+export const DEFAULT_LABEL_SHEET_SETTINGS: LabelSheetSettings = {
+  ...LABEL_SHEET_PRESETS[0].settings,
+  copies: 1,
+  skip: 0,
+}
+
+/**
+ * Gets the size of one label on a sheet
+ * @param settings - Sheet settings
+ * @returns Label width and height in millimetres
+ */
+export function getLabelSize(settings: LabelSheetSettings): { widthMm: number; heightMm: number } {
+  const paper = PAPER_SIZES[settings.paperSize]
+  return {
+    widthMm: (paper.widthMm - settings.marginXMm * 2 - settings.columnGapMm * (settings.columns - 1)) / settings.columns,
+    heightMm: (paper.heightMm - settings.marginYMm * 2 - settings.rowGapMm * (settings.rows - 1)) / settings.rows,
+  }
+}
+
+/**
+ * Counts the sheets needed for a print run
+ * @param labelCount - Labels to print
+ * @param settings - Sheet settings
+ * @returns Number of sheets
+ */
+export function getSheetCount(labelCount: number, settings: LabelSheetSettings): number {
+  const perSheet = settings.columns * settings.rows
+  return perSheet > 0 ? Math.ceil((labelCount + settings.skip) / perSheet) : 0
+}
+
+/**
+ * Picks the barcode printed on a product label: the GTIN as EAN-13 when it
+ * has 12 or 13 digits, otherwise the GTIN or SKU as Code 128
+ * @param product - Product to label
+ * @returns Encoded barcode, or null when the product has no code
+ */
+export function getLabelBarcode(product: Product): EncodedBarcode | null {
+  if (product.barcode) {
+    return encodeEan13(product.barcode) ?? encodeCode128(product.barcode)
+  }
+  return product.sku ? encodeCode128(product.sku) : null
+}
+
+/**
+ * Builds the markup of one label
+ * @param product - Product to label
+ * @returns Label markup
+ */
+function renderLabel(product: Product): string {
+  const barcode = getLabelBarcode(product)
+  return `
+    <div class="label">
+      <div class="name">${escapeHtml(product.name)}</div>
+      <div class="details">
+        <span class="price">${escapeHtml(formatCurrency(product.price))}</span>
+        <span class="expiry">Exp. ${escapeHtml(formatDate(product.expiryDate))}</span>
+      </div>
+      ${barcode ? `<div class="barcode">${renderBarcodeSvg(barcode)}</div><div class="code">${escapeHtml(barcode.text)}</div>` : ""}
+    </div>
+  `
+}
+
+/**
+ * Builds the styles of a label sheet; sizes are in millimetres so the grid
+ * lines up with pre-cut label paper when printed at 100% scale
+ * @param settings - Sheet settings
+ * @returns CSS
+ */
+function getLabelSheetStyles(settings: LabelSheetSettings): string {
+  const paper = PAPER_SIZES[settings.paperSize]
+  const label = getLabelSize(settings)
+  return `
+    @page { size: ${settings.paperSize}; margin: 0; }
+    body { margin: 0; font-family: system-ui, sans-serif; color: #111827; }
+    .sheet {
+      box-sizing: border-box;
+      width: ${paper.widthMm}mm;
+      height: ${paper.heightMm}mm;
+      padding: ${settings.marginYMm}mm ${settings.marginXMm}mm;
+      display: grid;
+      grid-template-columns: repeat(${settings.columns}, ${label.widthMm}mm);
+      grid-template-rows: repeat(${settings.rows}, ${label.heightMm}mm);
+      gap: ${settings.rowGapMm}mm ${settings.columnGapMm}mm;
+      overflow: hidden;
+      page-break-after: always;
+      break-after: page;
+    }
+    .sheet:last-child { page-break-after: auto; break-after: auto; }
+    .label {
+      box-sizing: border-box;
+      padding: 2mm 3mm;
+      overflow: hidden;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5mm;
+    }
+    .name { font-size: 9pt; font-weight: 600; line-height: 1.15; max-height: 2.3em; overflow: hidden; }
+    .details { display: flex; justify-content: space-between; align-items: baseline; }
+    .price { font-size: 12pt; font-weight: 700; }
+    .expiry { font-size: 7pt; color: #4b5563; }
+    .barcode { flex: 1; min-height: 5mm; max-height: 14mm; }
+    .barcode svg { display: block; width: 100%; height: 100%; }
+    .code { font-family: monospace; font-size: 7pt; text-align: center; letter-spacing: 0.5px; }
+  `
+}
+
+/**
+ * Builds the body of a label sheet document: copies of each product's label
+ * laid out in sheet order after the skipped positions
+ * @param products - Products to label, in print order
+ * @param settings - Sheet settings
+ * @returns Body markup
+ */
+function buildLabelSheetBody(products: readonly Product[], settings: LabelSheetSettings): string {
+  const cells = [
+    ...Array.from({ length: settings.skip }, () => `<div class="label"></div>`),
+    ...products.flatMap((product) => Array.from({ length: settings.copies }, () => renderLabel(product))),
+  ]
+  const perSheet = settings.columns * settings.rows
+  const sheets: string[] = []
+  for (let start = 0; start < cells.length; start += perSheet) {
+    sheets.push(`<div class="sheet">${cells.slice(start, start + perSheet).join("")}</div>`)
+  }
+  return sheets.join("")
+}
+
+/**
+ * Opens the print dialog with a label sheet, from which it can be saved as PDF
+ * @param products - Products to label, in print order
+ * @param settings - Sheet settings
+ */
+export function printLabels(products: readonly Product[], settings: LabelSheetSettings): void {
+  printHtml(
+    `labels-${format(new Date(), "yyyy-MM-dd-HHmm")}`,
+    buildLabelSheetBody(products, settings),
+    getLabelSheetStyles(settings)
+  )
+}
+
+/**
+ * Downloads a label sheet as a print-ready HTML file
+ * @param products - Products to label, in print order
+ * @param settings - Sheet settings
+ */
+export function downloadLabelsHtml(products: readonly Product[], settings: LabelSheetSettings): void {
+  const title = `labels-${format(new Date(), "yyyy-MM-dd-HHmm")}`
+  const html =
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+    `<style>${getLabelSheetStyles(settings)}</style></head>` +
+    `<body>${buildLabelSheetBody(products, settings)}</body></html>`
+  downloadFile(html, `${title}.html`, "text/html;charset=utf-8")
+}
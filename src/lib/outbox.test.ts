@@ -0,0 +1,163 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { setupServer } from 'msw/node'
+import type { StockMovementFormData } from '../types/inventory'
+import type { OutboxEntry } from '../types/offline'
+import { useAuthStore } from '../stores/auth-store'
+import { loadOutbox, queueMutation, replayOutbox } from './outbox'
+import { generateProducts } from './product-fixtures'
+import { toProductFormData } from './utils'
+
+const API_URL = 'http://localhost:8000/api'
+
+// In-memory stand-in for the IndexedDB outbox store
+const db = vi.hoisted(() => ({ outbox: new Map<number, unknown>(), nextId: 1 }))
+
+vi.mock('./idb', () => ({
+  readAllValues: async () => [...db.outbox.values()],
+  writeValue: async (_storeName: string, value: { id?: number }) => {
+    const id = value.id ?? db.nextId++
+    db.outbox.set(id, { ...value, id })
+    return id
+  },
+  deleteValue: async (_storeName: string, key: number) => {
+    db.outbox.delete(key)
+  }
+}))
+
+const server = setupServer()
+
+const [product] = generateProducts(1)
+
+/**
+ * Builds a movement of 5 received units
+ * @param productId - Product the units are added to
+ * @returns Movement data
+ */
+const receive = (productId: number): StockMovementFormData => ({
+  productId,
+  type: 'receive',
+  reason: 'purchase',
+  quantity: 5,
+  note: ''
+})
+
+/**
+ * Records the requests sent to the stock movement endpoint
+ * @param respond - Builds the response to each request
+ * @returns Idempotency key and product ID of every request received
+ */
+const serveMovements = (respond: () => Response = () => HttpResponse.json({ id: 1 }, { status: 201 })) => {
+  const received: { key: string | null; productId: number }[] = []
+  server.use(
+    http.post(`${API_URL}/inventory/movements/`, async ({ request }) => {
+      const body = (await request.json()) as { product_id: number }
+      received.push({ key: request.headers.get('Idempotency-Key'), productId: body.product_id })
+      return respond()
+    })
+  )
+  return received
+}
+
+let queryClient: QueryClient
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+
+beforeEach(async () => {
+  db.outbox.clear()
+  db.nextId = 1
+  useAuthStore.setState({
+    accessToken: 'access-1',
+    refreshToken: 'refresh-1',
+    user: {
+      id: 5,
+      username: 'alice',
+      firstName: 'Alice',
+      lastName: 'Smith',
+      email: 'alice@example.com',
+      role: 'pharmacist',
+      permissions: []
+    }
+  })
+  await loadOutbox()
+  queryClient = new QueryClient()
+  // Failed requests are logged by the API service
+  vi.spyOn(console, 'error').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  server.resetHandlers()
+  queryClient.clear()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => server.close())
+
+describe('outbox replay', () => {
+  it('sends queued changes in order with their stored keys, using the ID given to a product created offline', async () => {
+    let createKey: string | null = null
+    server.use(
+      http.post(`${API_URL}/inventory/products/`, ({ request }) => {
+        createKey = request.headers.get('Idempotency-Key')
+        return HttpResponse.json({ ...product, id: 42 }, { status: 201 })
+      })
+    )
+    const movements = serveMovements()
+    await queueMutation({ type: 'create_product', temporaryId: -1, data: toProductFormData(product) }, 'Create', 'key-1')
+    await queueMutation({ type: 'create_stock_movement', productId: -1, data: receive(-1) }, 'Receive', 'key-2')
+
+    await expect(replayOutbox(queryClient)).resolves.toBe(2)
+
+    expect(createKey).toBe('key-1')
+    expect(movements).toEqual([{ key: 'key-2', productId: 42 }])
+    expect(db.outbox.size).toBe(0)
+  })
+
+  it('sends the same key again after the connection dropped', async () => {
+    let isOffline = true
+    const movements = serveMovements(() =>
+      isOffline ? HttpResponse.error() : HttpResponse.json({ id: 1 }, { status: 201 })
+    )
+    await queueMutation({ type: 'create_stock_movement', productId: product.id, data: receive(product.id) }, 'Receive', 'key-1')
+
+    await expect(replayOutbox(queryClient)).resolves.toBe(0)
+    expect(db.outbox.size).toBe(1)
+
+    isOffline = false
+    await expect(replayOutbox(queryClient)).resolves.toBe(1)
+
+    expect(movements.map(({ key }) => key)).toEqual(['key-1', 'key-1'])
+    expect(db.outbox.size).toBe(0)
+  })
+
+  it('keeps a conflicting update with the server version and holds back later changes to the product', async () => {
+    const serverProduct = { ...product, name: 'Changed elsewhere', updatedAt: '2030-01-01T10:00:00.000Z' }
+    server.use(
+      http.put(`${API_URL}/inventory/products/:id/`, () =>
+        HttpResponse.json({ detail: 'Product was changed' }, { status: 412 })
+      ),
+      http.get(`${API_URL}/inventory/products/:id/`, () => HttpResponse.json(serverProduct))
+    )
+    const movements = serveMovements()
+    await queueMutation(
+      {
+        type: 'update_product',
+        productId: product.id,
+        data: { ...toProductFormData(product), name: 'Renamed' },
+        base: product
+      },
+      'Update',
+      'key-1'
+    )
+    await queueMutation({ type: 'create_stock_movement', productId: product.id, data: receive(product.id) }, 'Receive', 'key-2')
+
+    await expect(replayOutbox(queryClient)).resolves.toBe(0)
+
+    expect(movements).toEqual([])
+    expect([...db.outbox.values()]).toMatchObject([
+      { status: 'conflict', serverProduct },
+      { status: 'pending', idempotencyKey: 'key-2' }
+    ] satisfies Partial<OutboxEntry>[])
+  })
+})
@@ -0,0 +1,291 @@
+import { onlineManager, type QueryClient } from "@tanstack/react-query"
+import type { Product, ProductFormData } from "../types/inventory"
+import type { OutboxEntry, OutboxMutation } from "../types/offline"
+import { inventoryApi } from "../services/api"
+import { useAuthStore } from "../stores/auth-store"
+import { useOutboxStore } from "../stores/outbox-store"
+import { deleteValue, readAllValues, writeValue } from "./idb"
+import { patchCachedProduct, removeCachedProduct } from "./product-cache"
+import { getErrorMessage, isConflictError, isNetworkError } from "./utils"
+
+/** Replay in flight; a second request waits for it instead of sending twice */
+let replayPromise: Promise<number> | null = null
+
+/**
+ * Gets the product a queued change applies to
+ * @param mutation - Queued change
+ * @returns Product ID, negative for a product created offline
+ */
+function getMutationProductId(mutation: OutboxMutation): number {
+  return mutation.type === "create_product" ? mutation.temporaryId : mutation.productId
+}
+
+/**
+ * Reads the changes queued by the signed-in user
+ * Changes queued by someone else on this device stay in the outbox until
+ * they sign in again, so they are never sent with another user's session.
+ * @returns Promise with the user's queued changes in order
+ */
+async function readOwnEntries(): Promise<OutboxEntry[]> {
+  const userId = useAuthStore.getState().user?.id
+  const entries = await readAllValues<OutboxEntry>("outbox")
+  return userId === undefined ? [] : entries.filter((entry) => entry.userId === userId)
+}
+
+/**
+ * Reads the signed-in user's outbox from IndexedDB into the outbox store
+ * @returns Promise with the queued changes in order
+ */
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const entries = await readOwnEntries()
+  useOutboxStore.getState().setEntries(entries)
+  return entries
+}
+
+/**
+ * Adds a change of the signed-in user to the end of the outbox
+ * @param mutation - Change to send later
+ * @param label - Short description of the change
+ * @param idempotencyKey - Key sent with every attempt at the change
+ */
+export async function queueMutation(mutation: OutboxMutation, label: string, idempotencyKey: string): Promise<void> {
+  const userId = useAuthStore.getState().user?.id
+  if (userId === undefined) throw new Error("Changes can only be queued while signed in")
+  const entry: Omit<OutboxEntry, "id"> = {
+    mutation,
+    userId,
+    idempotencyKey,
+    label,
+    queuedAt: new Date().toISOString(),
+    status: "pending",
+  }
+  await writeValue("outbox", entry)
+  await loadOutbox()
+}
+
+/**
+ * Sends a change to the server, or queues it when it cannot be sent now
+ * A change is queued while offline, when the request fails without reaching
+ * the server, and while earlier changes to the same product are still
+ * queued, so that changes always reach the server in the order they were
+ * made. The idempotency key sent with the first attempt is queued with
+ * the change, since the server may have applied it before the connection
+ * dropped.
+ * @param mutation - Change to send
+ * @param label - Short description of the change
+ * @param send - Sends the change with an idempotency key
+ * @returns Promise with the server response, or null if the change was queued
+ */
+export async function sendOrQueue<T>(
+  mutation: OutboxMutation,
+  label: string,
+  send: (idempotencyKey: string) => Promise<T>
+): Promise<T | null> {
+  const idempotencyKey = crypto.randomUUID()
+  const productId = getMutationProductId(mutation)
+  const hasQueuedChanges = useOutboxStore
+    .getState()
+    .entries.some((entry) => getMutationProductId(entry.mutation) === productId)
+
+  if (!onlineManager.isOnline() || hasQueuedChanges) {
+    await queueMutation(mutation, label, idempotencyKey)
+    return null
+  }
+  try {
+    return await send(idempotencyKey)
+  } catch (error) {
+    if (!isNetworkError(error)) throw error
+    await queueMutation(mutation, label, idempotencyKey)
+    return null
+  }
+}
+
+/**
+ * Rewrites queued changes to a product created offline with the ID the
+ * server assigned to it
+ * @param entries - Queued changes still to send
+ * @param temporaryId - Temporary product ID
+ * @param created - Product as created by the server
+ */
+async function remapProductId(
+  entries: readonly OutboxEntry[],
+  temporaryId: number,
+  created: Product
+): Promise<void> {
+  const productId = created.id
+  for (const entry of entries) {
+    const { mutation } = entry
+    if (mutation.type === "create_product" || mutation.productId !== temporaryId) continue
+    const remapped: OutboxMutation =
+      mutation.type === "update_product"
+        ? { ...mutation, productId, base: created }
+        : { ...mutation, productId, data: { ...mutation.data, productId } }
+    await writeValue("outbox", { ...entry, mutation: remapped })
+  }
+}
+
+/**
+ * Sends one queued change
+ * An update the server rejects because the product was changed since the
+ * change was made is marked as a conflict, with the server's version kept
+ * for merging.
+ * @param queryClient - Query client whose cached products are patched
+ * @param entry - Queued change
+ * @param rest - Queued changes after this one
+ * @returns Promise with true if the change was sent, false on a conflict
+ */
+async function replayEntry(
+  queryClient: QueryClient,
+  entry: OutboxEntry,
+  rest: readonly OutboxEntry[]
+): Promise<boolean> {
+  const { mutation } = entry
+  switch (mutation.type) {
+    case "create_product": {
+      const created = await inventoryApi.createProduct(mutation.data, entry.idempotencyKey)
+      await remapProductId(rest, mutation.temporaryId, created)
+      patchCachedProduct(queryClient, created, mutation.temporaryId)
+      return true
+    }
+    case "update_product":
+      try {
+        const updated = await inventoryApi.updateProduct(mutation.productId, mutation.data, mutation.base.updatedAt)
+        patchCachedProduct(queryClient, updated)
+        return true
+      } catch (error) {
+        if (!isConflictError(error)) throw error
+        const current = await inventoryApi.getProductById(mutation.productId)
+        await writeValue("outbox", { ...entry, status: "conflict", serverProduct: current })
+        return false
+      }
+    case "create_stock_movement":
+      await inventoryApi.createStockMovement(mutation.data, entry.idempotencyKey)
+      return true
+  }
+}
+
+/**
+ * Sends the signed-in user's queued changes to the server in the order
+ * they were made
+ * A change that conflicts or is rejected stays in the outbox, and later
+ * changes to the same product wait behind it. Sending stops at the first
+ * network failure.
+ * @param queryClient - Query client refreshed after sending
+ * @returns Promise with the number of changes sent
+ */
+export function replayOutbox(queryClient: QueryClient): Promise<number> {
+  if (replayPromise) return replayPromise
+
+  const replay = async (): Promise<number> => {
+    const { setSyncing } = useOutboxStore.getState()
+    const blockedProductIds = new Set<number>()
+    let sent = 0
+    setSyncing(true)
+
+    try {
+      // The outbox is read again after each change because replaying rewrites later entries
+      let lastId = 0
+      while (onlineManager.isOnline()) {
+        const entries = await readOwnEntries()
+        const index = entries.findIndex((next) => next.id > lastId)
+        if (index === -1) break
+        const entry = entries[index]
+        const productId = getMutationProductId(entry.mutation)
+        lastId = entry.id
+        if (entry.status !== "pending" || blockedProductIds.has(productId)) {
+          blockedProductIds.add(productId)
+          continue
+        }
+
+        try {
+          if (await replayEntry(queryClient, entry, entries.slice(index + 1))) {
+            await deleteValue("outbox", entry.id)
+            sent++
+          } else {
+            blockedProductIds.add(productId)
+          }
+        } catch (error) {
+          if (isNetworkError(error)) break
+          await writeValue("outbox", { ...entry, status: "failed", error: getErrorMessage(error) })
+          blockedProductIds.add(productId)
+        }
+      }
+    } finally {
+      await loadOutbox().catch(() => undefined)
+      setSyncing(false)
+    }
+
+    if (sent > 0) {
+      queryClient.invalidateQueries({ queryKey: ["products"] })
+    }
+    return sent
+  }
+
+  replayPromise = replay().finally(() => {
+    replayPromise = null
+  })
+  return replayPromise
+}
+
+/**
+ * Sends a rejected change again, e.g. after the server problem was fixed
+ * @param queryClient - Query client refreshed after sending
+ * @param entry - Queued change to retry
+ * @returns Promise with the number of changes sent
+ */
+export async function retryOutboxEntry(queryClient: QueryClient, entry: OutboxEntry): Promise<number> {
+  await writeValue("outbox", { ...entry, status: "pending", error: undefined })
+  await loadOutbox()
+  return replayOutbox(queryClient)
+}
+
+/**
+ * Replaces a conflicting update with the values merged by the user, based
+ * on the server's current version, and sends it again
+ * @param queryClient - Query client refreshed after sending
+ * @param entry - Conflicting update
+ * @param merged - Merged product values
+ * @returns Promise with the number of changes sent
+ */
+export async function resolveOutboxConflict(
+  queryClient: QueryClient,
+  entry: OutboxEntry,
+  merged: ProductFormData
+): Promise<number> {
+  const { mutation, serverProduct } = entry
+  if (mutation.type !== "update_product" || !serverProduct) return 0
+
+  const resolved: OutboxEntry = {
+    ...entry,
+    status: "pending",
+    serverProduct: undefined,
+    mutation: { ...mutation, data: merged, base: serverProduct },
+  }
+  await writeValue("outbox", resolved)
+  await loadOutbox()
+  return replayOutbox(queryClient)
+}
+
+/**
+ * Drops a queued change, and for a product created offline every later
+ * change to it, then refreshes the cached products from the server
+ * @param queryClient - Query client to refresh
+ * @param entry - Queued change to drop
+ */
+export async function discardOutboxEntry(queryClient: QueryClient, entry: OutboxEntry): Promise<void> {
+  const { entries } = useOutboxStore.getState()
+  const { mutation } = entry
+  const discarded =
+    mutation.type === "create_product"
+      ? entries.filter((queued) => getMutationProductId(queued.mutation) === mutation.temporaryId)
+      : [entry]
+
+  for (const queued of discarded) {
+    await deleteValue("outbox", queued.id)
+  }
+  await loadOutbox()
+  if (mutation.type === "create_product") {
+    removeCachedProduct(queryClient, mutation.temporaryId)
+  }
+  queryClient.invalidateQueries({ queryKey: ["products"] })
+}
@@ -0,0 +1,49 @@
+/**
+ * Escapes text for safe use inside HTML markup
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+export function escapeHtml(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Prints an HTML document through the browser print dialog, from which it
+ * can be saved as PDF
+ * The document is rendered in a hidden iframe so the app itself is not printed.
+ * @param title - Document title, used as the suggested PDF file name
+ * @param body - Body markup
+ * @param styles - Optional CSS for the document
+ */
+export function printHtml(title: string, body: string, styles: string = ""): void {
+  const frame = document.createElement("iframe")
+  frame.setAttribute("aria-hidden", "true")
+  frame.style.position = "fixed"
+  frame.style.width = "0"
+  frame.style.height = "0"
+  frame.style.border = "0"
+  document.body.appendChild(frame)
+
+  const frameWindow = frame.contentWindow
+  if (!frameWindow) {
+    frame.remove()
+    return
+  }
+
+  frameWindow.document.open()
+  frameWindow.document.write(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+      `<style>${styles}</style></head><body>${body}</body></html>`
+  )
+  frameWindow.document.close()
+
+  frameWindow.addEventListener("afterprint", () => frame.remove())
+  frameWindow.focus()
+  frameWindow.print()
+}
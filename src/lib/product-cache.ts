@@ -0,0 +1,164 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query"
+import type { PaginatedResponse, Product, ProductFormData, ProductQuery } from "../types/inventory"
+
+/**
+ * Product queries as they were before an optimistic change
+ */
+export type ProductCacheSnapshot = [QueryKey, unknown][]
+
+/**
+ * Stops product refetches that could overwrite an optimistic change, then
+ * records the cached products so the change can be rolled back
+ * @param queryClient - Query client
+ * @returns Snapshot of every product query
+ */
+export async function snapshotProductCache(queryClient: QueryClient): Promise<ProductCacheSnapshot> {
+  await queryClient.cancelQueries({ queryKey: ["products"] })
+  return queryClient.getQueriesData({ queryKey: ["products"] })
+}
+
+/**
+ * Puts back the cached products recorded before an optimistic change
+ * @param queryClient - Query client
+ * @param snapshot - Snapshot taken before the change
+ */
+export function restoreProductCache(queryClient: QueryClient, snapshot: ProductCacheSnapshot): void {
+  for (const [queryKey, data] of snapshot) {
+    queryClient.setQueryData(queryKey, data)
+  }
+}
+
+/**
+ * Applies a change to every cached page list and to the full product list
+ * @param queryClient - Query client
+ * @param update - Change to the products of one list
+ * @param getCountDelta - Change to the total count of a page list
+ */
+function updateProductLists(
+  queryClient: QueryClient,
+  update: (products: readonly Product[]) => readonly Product[],
+  getCountDelta: (before: readonly Product[], after: readonly Product[]) => number = () => 0
+): void {
+  queryClient.setQueriesData<PaginatedResponse<Product>>(
+    { queryKey: ["products", "list"] },
+    (page) => {
+      if (!page) return page
+      const results = update(page.results)
+      return { ...page, results, count: page.count + getCountDelta(page.results, results) }
+    }
+  )
+  queryClient.setQueryData<Product[]>(["products", "all"], (products) => (products ? [...update(products)] : products))
+}
+
+/** Last temporary ID handed out; IDs decrease so they never repeat */
+let lastTemporaryId = 0
+
+/**
+ * Creates an ID for a product the server has not assigned one to yet
+ * IDs are negative and derived from the clock, so they stay unique across
+ * reloads while changes made offline are still queued.
+ * @returns Negative temporary ID
+ */
+export function createTemporaryId(): number {
+  lastTemporaryId = Math.min(-Date.now(), lastTemporaryId - 1)
+  return lastTemporaryId
+}
+
+/**
+ * Checks if a product ID is a temporary one
+ * @param id - Product ID
+ * @returns True if the server has not assigned the ID yet
+ */
+export function isTemporaryId(id: number): boolean {
+  return id < 0
+}
+
+/**
+ * Builds the product shown while a new product is being created
+ * @param data - Submitted form values
+ * @param temporaryId - Negative ID used until the server assigns one
+ * @returns Placeholder product
+ */
+export function toOptimisticProduct(data: ProductFormData, temporaryId: number): Product {
+  const now = new Date().toISOString()
+  return { ...data, id: temporaryId, createdAt: now, updatedAt: now, deletedAt: null, deletedBy: null, batches: [], stockLevels: [] }
+}
+
+/**
+ * Adds a new product to the top of the full product list and of the first
+ * page of unfiltered lists; filtered lists are left alone because only
+ * the server knows whether the product matches. Lists that already hold
+ * the product are left unchanged.
+ * @param queryClient - Query client
+ * @param product - New product
+ */
+export function insertCachedProduct(queryClient: QueryClient, product: Product): void {
+  for (const [queryKey, page] of queryClient.getQueriesData<PaginatedResponse<Product>>({
+    queryKey: ["products", "list"],
+  })) {
+    const query = queryKey[2] as ProductQuery | undefined
+    if (!page || !query || query.page !== 1 || isFilteredQuery(query)) continue
+    if (page.results.some((cached) => cached.id === product.id)) continue
+    queryClient.setQueryData<PaginatedResponse<Product>>(queryKey, {
+      ...page,
+      results: [product, ...page.results].slice(0, query.pageSize),
+      count: page.count + 1,
+    })
+  }
+  queryClient.setQueryData<Product[]>(["products", "all"], (products) =>
+    products && !products.some((cached) => cached.id === product.id) ? [product, ...products] : products
+  )
+}
+
+/**
+ * Replaces a cached product wherever it is shown
+ * @param queryClient - Query client
+ * @param product - Product with its new values
+ * @param id - ID the product is cached under, when it differs (a placeholder's temporary ID)
+ */
+export function patchCachedProduct(queryClient: QueryClient, product: Product, id: number = product.id): void {
+  updateProductLists(queryClient, (products) => products.map((cached) => (cached.id === id ? product : cached)))
+  queryClient.setQueryData<Product>(["products", product.id], product)
+}
+
+/**
+ * Changes a cached product wherever it is shown, leaving products that are
+ * not cached alone
+ * @param queryClient - Query client
+ * @param id - Product ID
+ * @param update - Builds the new product from the cached one
+ */
+export function updateCachedProduct(queryClient: QueryClient, id: number, update: (product: Product) => Product): void {
+  updateProductLists(queryClient, (products) => products.map((cached) => (cached.id === id ? update(cached) : cached)))
+  queryClient.setQueryData<Product>(["products", id], (cached) => (cached ? update(cached) : cached))
+}
+
+/**
+ * Removes a product from every cached list and drops its detail query
+ * @param queryClient - Query client
+ * @param id - Product ID
+ */
+export function removeCachedProduct(queryClient: QueryClient, id: number): void {
+  updateProductLists(
+    queryClient,
+    (products) => products.filter((cached) => cached.id !== id),
+    (before, after) => after.length - before.length
+  )
+  queryClient.removeQueries({ queryKey: ["products", id], exact: true })
+}
+
+/**
+ * Checks if a product query narrows the list beyond paging and sorting
+ * @param query - Product query
+ * @returns True if any filter is set
+ */
+function isFilteredQuery(query: ProductQuery): boolean {
+  return Boolean(
+    query.search ||
+      query.barcode ||
+      query.category ||
+      query.location ||
+      (query.stockStatus && query.stockStatus !== "all") ||
+      (query.expiryStatus && query.expiryStatus !== "all")
+  )
+}
@@ -0,0 +1,214 @@
+import { utils, write } from "xlsx"
+import { format } from "date-fns"
+import { PRODUCT_STATUS_LABELS } from "../types/inventory"
+import type { Product, ProductExportColumn, ProductQuery, ProductSortField } from "../types/inventory"
+import { formatCurrency, formatDate, getProductStatus, getProductStock } from "./utils"
+import { downloadFile, toCsv } from "./spreadsheet"
+import { escapeHtml, printHtml } from "./print"
+
+/**
+ * Columns offered in the export menu, in file order, with the same
+ * formatting the product list uses
+ */
+export const PRODUCT_EXPORT_COLUMNS: readonly {
+  readonly column: ProductExportColumn
+  readonly label: string
+  readonly value: (product: Product) => string | number
+}[] = [
+  { column: "sku", label: "SKU", value: (product) => product.sku },
+  { column: "barcode", label: "Barcode", value: (product) => product.barcode },
+  { column: "name", label: "Name", value: (product) => product.name },
+  { column: "description", label: "Description", value: (product) => product.description },
+  { column: "category", label: "Category", value: (product) => product.category },
+  { column: "supplier", label: "Supplier", value: (product) => product.supplier },
+  { column: "stockQuantity", label: "Stock", value: (product) => getProductStock(product) },
+  { column: "minimumStockThreshold", label: "Min Stock", value: (product) => product.minimumStockThreshold },
+  { column: "price", label: "Price", value: (product) => formatCurrency(product.price) },
+  { column: "expiryDate", label: "Expiry Date", value: (product) => formatDate(product.expiryDate) },
+  { column: "status", label: "Status", value: (product) => PRODUCT_STATUS_LABELS[getProductStatus(product)] },
+]
+
+/**
+ * Columns selected when the export menu first opens, matching the table
+ */
+export const DEFAULT_EXPORT_COLUMNS: readonly ProductExportColumn[] = [
+  "name",
+  "category",
+  "stockQuantity",
+  "price",
+  "expiryDate",
+  "status",
+]
+
+const SORT_FIELD_LABELS: Record<ProductSortField, string> = {
+  name: "Name",
+  category: "Category",
+  price: "Price",
+  stockQuantity: "Stock",
+  supplier: "Supplier",
+  expiryDate: "Expiry Date",
+}
+
+const STOCK_STATUS_LABELS = {
+  inStock: "In Stock",
+  lowStock: "Low Stock",
+  outOfStock: "Out of Stock",
+} as const
+
+const EXPIRY_STATUS_LABELS = {
+  valid: "Valid",
+  expiringSoon: "Expiring Soon",
+  expired: "Expired",
+} as const
+
+/**
+ * Describes the filters and sort order of a product query for export headers
+ * @param query - Query the exported rows were fetched with
+ * @returns Human-readable summary, e.g. "Category: Antibiotics; Sorted by: Price (descending)"
+ */
+export function describeProductQuery(query: Omit<ProductQuery, "page" | "pageSize">): string {
+  const parts: string[] = []
+  if (query.search) parts.push(`Search: "${query.search}"`)
+  if (query.category) parts.push(`Category: ${query.category}`)
+  if (query.stockStatus && query.stockStatus !== "all") {
+    parts.push(`Stock: ${STOCK_STATUS_LABELS[query.stockStatus]}`)
+  }
+  if (query.expiryStatus && query.expiryStatus !== "all") {
+    parts.push(`Expiry: ${EXPIRY_STATUS_LABELS[query.expiryStatus]}`)
+  }
+  if (query.ordering) {
+    const descending = query.ordering.startsWith("-")
+    const field = query.ordering.replace(/^-/, "") as ProductSortField
+    parts.push(`Sorted by: ${SORT_FIELD_LABELS[field]} (${descending ? "descending" : "ascending"})`)
+  }
+  return parts.length > 0 ? parts.join("; ") : "All products"
+}
+
+/**
+ * Export file content shared by all formats
+ */
+interface ExportTable {
+  readonly title: string
+  readonly summary: string
+  readonly generatedAt: string
+  readonly headers: string[]
+  readonly rows: (string | number)[][]
+  readonly fileName: string
+}
+
+/**
+ * Builds the header lines and cell values of an export
+ * @param products - Products in the order they should appear
+ * @param columns - Selected columns
+ * @param query - Query the products were fetched with
+ * @returns Export table
+ */
+function buildExportTable(
+  products: readonly Product[],
+  columns: readonly ProductExportColumn[],
+  query: Omit<ProductQuery, "page" | "pageSize">
+): ExportTable {
+  const selected = PRODUCT_EXPORT_COLUMNS.filter(({ column }) => columns.includes(column))
+  const now = new Date()
+  return {
+    title: "Inventory Stock Listing",
+    summary: describeProductQuery(query),
+    generatedAt: format(now, "MMM dd, yyyy HH:mm"),
+    headers: selected.map(({ label }) => label),
+    rows: products.map((product) => selected.map(({ value }) => value(product))),
+    fileName: `inventory-${format(now, "yyyy-MM-dd-HHmm")}`,
+  }
+}
+
+/**
+ * Builds the header lines written above the column headers
+ * @param table - Export table
+ * @returns Header rows
+ */
+function headerRows(table: ExportTable): string[][] {
+  return [
+    [table.title],
+    [`Filters: ${table.summary}`],
+    [`Generated: ${table.generatedAt}`],
+    [`Products: ${table.rows.length}`],
+    [],
+  ]
+}
+
+/**
+ * Downloads products as a CSV file
+ * @param products - Products in the order they should appear
+ * @param columns - Selected columns
+ * @param query - Query the products were fetched with
+ */
+export function exportProductsCsv(
+  products: readonly Product[],
+  columns: readonly ProductExportColumn[],
+  query: Omit<ProductQuery, "page" | "pageSize">
+): void {
+  const table = buildExportTable(products, columns, query)
+  const csv = toCsv([...headerRows(table), table.headers, ...table.rows])
+  downloadFile(csv, `${table.fileName}.csv`, "text/csv;charset=utf-8")
+}
+
+/**
+ * Downloads products as an Excel workbook
+ * @param products - Products in the order they should appear
+ * @param columns - Selected columns
+ * @param query - Query the products were fetched with
+ */
+export function exportProductsXlsx(
+  products: readonly Product[],
+  columns: readonly ProductExportColumn[],
+  query: Omit<ProductQuery, "page" | "pageSize">
+): void {
+  const table = buildExportTable(products, columns, query)
+  const sheet = utils.aoa_to_sheet([...headerRows(table), table.headers, ...table.rows])
+  const workbook = utils.book_new()
+  utils.book_append_sheet(workbook, sheet, "Inventory")
+  const content: ArrayBuffer = write(workbook, { type: "array", bookType: "xlsx" })
+  downloadFile(
+    content,
+    `${table.fileName}.xlsx`,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  )
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; font-size: 11px; color: #111827; margin: 0; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  p { margin: 0 0 2px; color: #4b5563; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; }
+  th { background: #f3f4f6; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  @page { margin: 12mm; }
+`
+
+/**
+ * Opens the print dialog with products laid out for printing or saving as PDF
+ * @param products - Products in the order they should appear
+ * @param columns - Selected columns
+ * @param query - Query the products were fetched with
+ */
+export function printProducts(
+  products: readonly Product[],
+  columns: readonly ProductExportColumn[],
+  query: Omit<ProductQuery, "page" | "pageSize">
+): void {
+  const table = buildExportTable(products, columns, query)
+  const body = `
+    <h1>${escapeHtml(table.title)}</h1>
+    <p>Filters: ${escapeHtml(table.summary)}</p>
+    <p>Generated: ${escapeHtml(table.generatedAt)}</p>
+    <p>Products: ${table.rows.length}</p>
+    <table>
+      <thead><tr>${table.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>
+      <tbody>${table.rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+        .join("")}</tbody>
+    </table>
+  `
+  printHtml(table.fileName, body, PRINT_STYLES)
+}
@@ -0,0 +1,77 @@
+import { addDays, format, subDays } from "date-fns"
+import type { Product, ProductBatch } from "../types/inventory"
+
+const CATEGORIES = ["Analgesics", "Antibiotics", "Antihistamines", "Cardiovascular", "Dermatology", "Vitamins", "Respiratory", "Gastrointestinal"]
+const SUPPLIERS = ["MedSupply Co.", "PharmaDirect", "HealthWholesale", "Global Pharma", "CarePlus Distribution"]
+const NAMES = ["Paracetamol", "Ibuprofen", "Amoxicillin", "Loratadine", "Omeprazole", "Atorvastatin", "Cetirizine", "Metformin", "Salbutamol", "Vitamin C"]
+const STRENGTHS = ["100mg", "200mg", "250mg", "500mg", "5mg", "10mg", "20mg"]
+
+/**
+ * Creates a small seeded pseudo-random generator (mulberry32) so fixtures are reproducible
+ * @param seed - Seed value
+ * @returns Function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generates fake products with batches for benchmarks and local development
+ * @param count - Number of products to generate
+ * @param seed - Seed for reproducible output
+ * @returns Generated products
+ */
+export function generateProducts(count: number, seed: number = 1): Product[] {
+  const random = createRandom(seed)
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)]
+  const today = new Date()
+  const products: Product[] = []
+
+  for (let id = 1; id <= count; id++) {
+    const supplier = pick(SUPPLIERS)
+    const createdAt = subDays(today, Math.floor(random() * 720)).toISOString()
+    const batches: ProductBatch[] = Array.from({ length: 1 + Math.floor(random() * 3) }, (_, index) => ({
+      id: id * 10 + index,
+      productId: id,
+      lotNumber: `LOT-${id}-${index + 1}`,
+      quantity: Math.floor(random() * 120),
+      quarantinedQuantity: 0,
+      // Spread expiries from 60 days ago to two years ahead so every status appears
+      expiryDate: format(addDays(today, Math.floor(random() * 790) - 60), "yyyy-MM-dd"),
+      receivedDate: format(subDays(today, Math.floor(random() * 365)), "yyyy-MM-dd"),
+      supplier,
+      locationId: null,
+      createdAt,
+      updatedAt: createdAt,
+    }))
+    const earliestExpiry = batches.map((batch) => batch.expiryDate).sort()[0]
+
+    products.push({
+      id,
+      name: `${pick(NAMES)} ${pick(STRENGTHS)} #${id}`,
+      sku: `SKU-${String(id).padStart(6, "0")}`,
+      barcode: "",
+      description: `Generated product ${id}`,
+      stockQuantity: batches.reduce((total, batch) => total + batch.quantity, 0),
+      price: Math.round(random() * 5000) / 100,
+      expiryDate: earliestExpiry,
+      category: pick(CATEGORIES),
+      supplier,
+      minimumStockThreshold: 10 + Math.floor(random() * 40),
+      createdAt,
+      updatedAt: createdAt,
+      deletedAt: null,
+      deletedBy: null,
+      batches,
+      stockLevels: [],
+    })
+  }
+
+  return products
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { guessImportMapping, validateImportRows } from './product-import'
+import { generateProducts } from './product-fixtures'
+
+const HEADERS = ['Item Code', 'Product Name', 'Details', 'Group', 'Vendor', 'Unit Price', 'Qty', 'Expiration', 'Reorder Level']
+
+const mapping = guessImportMapping(HEADERS)
+const [existing] = generateProducts(1)
+
+describe('guessImportMapping', () => {
+  it('recognizes common header names', () => {
+    expect(mapping).toEqual({
+      sku: 0,
+      name: 1,
+      description: 2,
+      category: 3,
+      supplier: 4,
+      price: 5,
+      stockQuantity: 6,
+      expiryDate: 7,
+      minimumStockThreshold: 8
+    })
+  })
+})
+
+describe('validateImportRows', () => {
+  it('creates products that match nothing, reading formatted numbers', () => {
+    const [row] = validateImportRows(
+      [['NEW-1', 'Aspirin 100mg', 'Tablets', 'Analgesics', 'PharmaDirect', '$1,250.50', '40', '2027-05-31', '5']],
+      mapping,
+      [existing]
+    )
+
+    expect(row).toMatchObject({
+      rowNumber: 2,
+      action: 'create',
+      match: null,
+      errors: [],
+      data: { sku: 'NEW-1', name: 'Aspirin 100mg', price: 1250.5, stockQuantity: 40, minimumStockThreshold: 5 }
+    })
+  })
+
+  it('updates the product with the same SKU, keeping its values for blank cells', () => {
+    const [row] = validateImportRows(
+      [[existing.sku.toLowerCase(), '', '', '', '', '9.99', '', '', '']],
+      mapping,
+      [existing]
+    )
+
+    expect(row.action).toBe('update')
+    expect(row.match).toBe(existing)
+    expect(row.data).toMatchObject({
+      name: existing.name,
+      supplier: existing.supplier,
+      stockQuantity: existing.stockQuantity,
+      price: 9.99
+    })
+  })
+
+  it('matches by name and supplier when the SKU is blank', () => {
+    const [row] = validateImportRows(
+      [['', ` ${existing.name.toUpperCase()} `, '', '', existing.supplier, '', '12', '', '']],
+      mapping,
+      [existing]
+    )
+
+    expect(row).toMatchObject({ action: 'update', match: existing, data: { stockQuantity: 12 } })
+  })
+
+  it('lists every schema error with its field label', () => {
+    const [row] = validateImportRows(
+      [['NEW-2', 'Aspirin 100mg', '', 'Analgesics', 'PharmaDirect', '0', '40', '2027-05-31', '5']],
+      mapping,
+      []
+    )
+
+    expect(row).toMatchObject({
+      action: 'invalid',
+      data: null,
+      errors: ['Description: Description is required', 'Price: Price must be greater than 0']
+    })
+  })
+
+  it('flags rows that target a product an earlier row already targets', () => {
+    const row = ['NEW-3', 'Aspirin 100mg', 'Tablets', 'Analgesics', 'PharmaDirect', '2.50', '40', '2027-05-31', '5']
+
+    const rows = validateImportRows([row, ['new-3', ...row.slice(1)]], mapping, [])
+
+    expect(rows.map(({ action, errors }) => ({ action, errors }))).toEqual([
+      { action: 'create', errors: [] },
+      { action: 'invalid', errors: ['Duplicate of row 2'] }
+    ])
+  })
+})
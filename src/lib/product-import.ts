@@ -0,0 +1,172 @@
+import { productSchema } from "../schemas/product-schema"
+import { INVENTORY_CONSTANTS } from "../types/inventory"
+import type {
+  Product,
+  ProductFormData,
+  ProductImportField,
+  ProductImportMapping,
+  ProductImportRow,
+} from "../types/inventory"
+
+/**
+ * Product fields offered in the column mapping step, with the header names
+ * recognized for each when guessing the mapping
+ */
+export const PRODUCT_IMPORT_FIELDS: readonly {
+  readonly field: ProductImportField
+  readonly label: string
+  readonly aliases: readonly string[]
+}[] = [
+  { field: "sku", label: "SKU", aliases: ["sku", "code", "product code", "item code"] },
+  { field: "barcode", label: "Barcode", aliases: ["barcode", "gtin", "ean", "upc"] },
+  { field: "name", label: "Product Name", aliases: ["name", "product", "product name"] },
+  { field: "description", label: "Description", aliases: ["description", "details"] },
+  { field: "category", label: "Category", aliases: ["category", "group"] },
+  { field: "supplier", label: "Supplier", aliases: ["supplier", "vendor", "manufacturer"] },
+  { field: "price", label: "Price", aliases: ["price", "unit price", "cost"] },
+  { field: "stockQuantity", label: "Stock Quantity", aliases: ["stock", "quantity", "qty", "stock quantity"] },
+  { field: "expiryDate", label: "Expiry Date", aliases: ["expiry", "expiry date", "expiration", "expiration date", "exp"] },
+  { field: "minimumStockThreshold", label: "Min Stock Threshold", aliases: ["min stock", "minimum stock", "reorder level", "min stock threshold"] },
+]
+
+const NUMERIC_FIELDS: readonly ProductImportField[] = ["price", "stockQuantity", "minimumStockThreshold"]
+
+/**
+ * Normalizes a header or value for case- and spacing-insensitive comparison
+ * @param value - Text to normalize
+ * @returns Normalized text
+ */
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[_\-\s]+/g, " ").trim()
+}
+
+/**
+ * Builds the key used to match products by name and supplier
+ * @param name - Product name
+ * @param supplier - Supplier name
+ * @returns Match key
+ */
+function nameSupplierKey(name: string, supplier: string): string {
+  return `${normalize(name)}|${normalize(supplier)}`
+}
+
+/**
+ * Guesses which spreadsheet column holds each product field from the header row
+ * @param headers - Header row
+ * @returns Column mapping
+ */
+export function guessImportMapping(headers: readonly string[]): ProductImportMapping {
+  const normalizedHeaders = headers.map(normalize)
+  return PRODUCT_IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = normalizedHeaders.findIndex((header) => aliases.includes(header))
+    return index >= 0 ? { ...mapping, [field]: index } : mapping
+  }, {} as ProductImportMapping)
+}
+
+/**
+ * Parses a spreadsheet number, tolerating currency symbols and thousands separators
+ * @param value - Cell text
+ * @returns Parsed number, NaN when the cell has no number
+ */
+function parseNumber(value: string): number {
+  const cleaned = value.replace(/[^0-9.-]/g, "")
+  return cleaned === "" ? NaN : Number(cleaned)
+}
+
+/**
+ * Maps and validates spreadsheet rows against the product schema and works
+ * out whether each one creates a new product or updates an existing one
+ * Rows match existing products by SKU first, then by name + supplier;
+ * fields that are not mapped or left blank keep the matched product's values.
+ * @param rows - Data rows (without the header row)
+ * @param mapping - Column mapping
+ * @param existingProducts - Current catalog to match against
+ * @returns Validated import rows
+ */
+export function validateImportRows(
+  rows: readonly (readonly string[])[],
+  mapping: ProductImportMapping,
+  existingProducts: readonly Product[]
+): ProductImportRow[] {
+  const bySku = new Map(
+    existingProducts.filter((product) => product.sku).map((product) => [normalize(product.sku), product])
+  )
+  const byNameSupplier = new Map(
+    existingProducts.map((product) => [nameSupplierKey(product.name, product.supplier), product])
+  )
+  const seenKeys = new Map<string, number>()
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2
+    const cell = (field: ProductImportField): string | undefined => {
+      const column = mapping[field]
+      return column === undefined ? undefined : (row[column] ?? "")
+    }
+
+    const name = cell("name") ?? ""
+    const supplier = cell("supplier") ?? ""
+    const sku = cell("sku") ?? ""
+    const match = (sku && bySku.get(normalize(sku))) || byNameSupplier.get(nameSupplierKey(name, supplier)) || null
+
+    const base: ProductFormData = match
+      ? {
+          name: match.name,
+          sku: match.sku,
+          barcode: match.barcode,
+          description: match.description,
+          stockQuantity: match.stockQuantity,
+          price: match.price,
+          expiryDate: match.expiryDate.split("T")[0],
+          category: match.category,
+          supplier: match.supplier,
+          minimumStockThreshold: match.minimumStockThreshold,
+        }
+      : {
+          name: "",
+          sku: "",
+          barcode: "",
+          description: "",
+          stockQuantity: 0,
+          price: 0,
+          expiryDate: "",
+          category: "",
+          supplier: "",
+          minimumStockThreshold: INVENTORY_CONSTANTS.DEFAULT_MIN_STOCK,
+        }
+
+    const candidate = PRODUCT_IMPORT_FIELDS.reduce((data, { field }) => {
+      const value = cell(field)
+      // Blank cells keep the matched product's value
+      if (value === undefined || (match && value === "")) return data
+      return { ...data, [field]: NUMERIC_FIELDS.includes(field) ? parseNumber(value) : value }
+    }, base)
+
+    const errors: string[] = []
+    const result = productSchema.safeParse(candidate)
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const label = PRODUCT_IMPORT_FIELDS.find(({ field }) => field === issue.path[0])?.label
+        errors.push(label ? `${label}: ${issue.message}` : issue.message)
+      }
+    }
+
+    // Two rows in the same file must not target the same product
+    const key = match ? `id:${match.id}` : sku ? `sku:${normalize(sku)}` : nameSupplierKey(name, supplier)
+    const firstRow = seenKeys.get(key)
+    if (firstRow !== undefined) {
+      errors.push(`Duplicate of row ${firstRow}`)
+    } else {
+      seenKeys.set(key, rowNumber)
+    }
+
+    return {
+      rowNumber,
+      action: errors.length > 0 ? "invalid" : match ? "update" : "create",
+      data: errors.length > 0 ? null : candidate,
+      match,
+      name,
+      supplier,
+      errors,
+    }
+  })
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { ProductConflict } from '../types/inventory'
+import { getDefaultMergeChoices, getProductFieldDiffs, mergeProduct } from './product-merge'
+import { generateProducts } from './product-fixtures'
+import { toProductFormData } from './utils'
+
+const [base] = generateProducts(1)
+
+// Both sides renamed the product; only the user changed the description and
+// only the server changed the price and the stock
+const conflict: ProductConflict = {
+  base,
+  mine: { ...toProductFormData(base), name: 'Mine', description: 'Edited description' },
+  server: { ...base, name: 'Theirs', price: base.price + 1, stockQuantity: base.stockQuantity + 7 }
+}
+
+describe('getProductFieldDiffs', () => {
+  it('lists the differing fields and flags those both sides changed', () => {
+    const diffs = getProductFieldDiffs(conflict).map(({ field, mine, server, isConflict }) => ({
+      field,
+      mine,
+      server,
+      isConflict
+    }))
+
+    expect(diffs).toEqual([
+      { field: 'name', mine: 'Mine', server: 'Theirs', isConflict: true },
+      {
+        field: 'price',
+        mine: `$${base.price.toFixed(2)}`,
+        server: `$${(base.price + 1).toFixed(2)}`,
+        isConflict: false
+      },
+      { field: 'description', mine: 'Edited description', server: base.description, isConflict: false }
+    ])
+  })
+})
+
+describe('getDefaultMergeChoices', () => {
+  it('keeps the side that changed each field, and the user where both did', () => {
+    expect(getDefaultMergeChoices(conflict)).toMatchObject({
+      name: 'mine',
+      price: 'server',
+      description: 'mine',
+      sku: 'server'
+    })
+  })
+})
+
+describe('mergeProduct', () => {
+  it('applies the chosen values on top of the server product, keeping its stock', () => {
+    const choices = { ...getDefaultMergeChoices(conflict), name: 'server' as const }
+
+    expect(mergeProduct(conflict, choices)).toEqual({
+      ...toProductFormData(conflict.server),
+      description: 'Edited description'
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import type {
+  ProductConflict,
+  ProductFormData,
+  ProductMergeChoices,
+  ProductMergeField,
+} from "../types/inventory"
+import { formatCurrency, formatDate, toProductFormData } from "./utils"
+
+/**
+ * Field shown when merging a conflict
+ */
+interface ProductMergeFieldOption {
+  /** Product field */
+  readonly field: ProductMergeField
+  /** Field label */
+  readonly label: string
+  /** Formats a value for display */
+  readonly format: (value: ProductFormData[ProductMergeField]) => string
+}
+
+/**
+ * Difference in one field between the user's version and the server's
+ */
+export interface ProductFieldDiff {
+  /** Product field */
+  readonly field: ProductMergeField
+  /** Field label */
+  readonly label: string
+  /** Value when the edit started, formatted */
+  readonly base: string
+  /** Value submitted by the user, formatted */
+  readonly mine: string
+  /** Value on the server, formatted */
+  readonly server: string
+  /** True if both sides changed the field, so the user has to choose */
+  readonly isConflict: boolean
+}
+
+/** Fields that can be merged, in form order */
+export const PRODUCT_MERGE_FIELDS: readonly ProductMergeFieldOption[] = [
+  { field: "name", label: "Product Name", format: String },
+  { field: "sku", label: "SKU", format: String },
+  { field: "barcode", label: "Barcode", format: String },
+  { field: "category", label: "Category", format: String },
+  { field: "price", label: "Price", format: (value) => formatCurrency(Number(value)) },
+  { field: "expiryDate", label: "Expiry Date", format: (value) => (value ? formatDate(String(value)) : "") },
+  { field: "supplier", label: "Supplier", format: String },
+  { field: "minimumStockThreshold", label: "Min Stock Threshold", format: String },
+  { field: "description", label: "Description", format: String },
+]
+
+/**
+ * Lists the fields where the user's version and the server's differ
+ * @param conflict - Rejected update
+ * @returns Differing fields in form order
+ */
+export function getProductFieldDiffs(conflict: ProductConflict): ProductFieldDiff[] {
+  const base = toProductFormData(conflict.base)
+  const server = toProductFormData(conflict.server)
+
+  return PRODUCT_MERGE_FIELDS.filter(({ field }) => conflict.mine[field] !== server[field]).map(
+    ({ field, label, format }) => ({
+      field,
+      label,
+      base: format(base[field]),
+      mine: format(conflict.mine[field]),
+      server: format(server[field]),
+      isConflict: conflict.mine[field] !== base[field] && server[field] !== base[field],
+    })
+  )
+}
+
+/**
+ * Picks the version to keep for each field by default: the side that
+ * changed it, and the user's own value where both did
+ * @param conflict - Rejected update
+ * @returns Default choice per field
+ */
+export function getDefaultMergeChoices(conflict: ProductConflict): ProductMergeChoices {
+  const base = toProductFormData(conflict.base)
+  return Object.fromEntries(
+    PRODUCT_MERGE_FIELDS.map(({ field }) => [field, conflict.mine[field] !== base[field] ? "mine" : "server"])
+  ) as ProductMergeChoices
+}
+
+/**
+ * Builds the values to resubmit from the chosen version of each field,
+ * on top of the server's current product
+ * @param conflict - Rejected update
+ * @param choices - Version chosen per field
+ * @returns Merged product values
+ */
+export function mergeProduct(conflict: ProductConflict, choices: ProductMergeChoices): ProductFormData {
+  const merged: Record<string, unknown> = { ...toProductFormData(conflict.server) }
+  for (const { field } of PRODUCT_MERGE_FIELDS) {
+    if (choices[field] === "mine") merged[field] = conflict.mine[field]
+  }
+  return merged as ProductFormData
+}
@@ -0,0 +1,69 @@
+import type { PurchaseOrder, PurchaseOrderLine } from "../types/purchase-order"
+import { formatCurrency, formatDate } from "./utils"
+import { escapeHtml, printHtml } from "./print"
+
+/**
+ * Totals the value of purchase order lines
+ * @param lines - Lines to total
+ * @returns Sum of quantity × unit price
+ */
+export function getPurchaseOrderTotal(lines: readonly Pick<PurchaseOrderLine, "quantity" | "unitPrice">[]): number {
+  return lines.reduce((total, line) => total + line.quantity * line.unitPrice, 0)
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111827; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { display: flex; justify-content: space-between; margin-bottom: 16px; }
+  .meta p { margin: 0 0 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; }
+  th { background: #f3f4f6; }
+  .number { text-align: right; }
+  tfoot td { font-weight: 600; }
+  .note { margin-top: 16px; white-space: pre-wrap; }
+  @page { margin: 15mm; }
+`
+
+/**
+ * Opens the print dialog with a purchase order document for the supplier
+ * @param order - Purchase order to print
+ */
+export function printPurchaseOrder(order: PurchaseOrder): void {
+  const rows = order.lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHtml(line.sku)}</td>
+          <td>${escapeHtml(line.productName)}</td>
+          <td class="number">${line.quantity}</td>
+          <td class="number">${escapeHtml(formatCurrency(line.unitPrice))}</td>
+          <td class="number">${escapeHtml(formatCurrency(line.quantity * line.unitPrice))}</td>
+        </tr>`
+    )
+    .join("")
+
+  const body = `
+    <h1>Purchase Order ${escapeHtml(order.number)}</h1>
+    <div class="meta">
+      <div>
+        <p><strong>Supplier:</strong> ${escapeHtml(order.supplier)}</p>
+        <p><strong>Prepared by:</strong> ${escapeHtml(order.createdBy)}</p>
+      </div>
+      <div>
+        <p><strong>Date:</strong> ${escapeHtml(formatDate(order.sentAt ?? order.createdAt))}</p>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr><th>SKU</th><th>Product</th><th class="number">Quantity</th><th class="number">Unit Price</th><th class="number">Total</th></tr>
+      </thead>
+      <tbody>${rows}</tbody>
+      <tfoot>
+        <tr><td colspan="4">Total</td><td class="number">${escapeHtml(formatCurrency(getPurchaseOrderTotal(order.lines)))}</td></tr>
+      </tfoot>
+    </table>
+    ${order.note ? `<p class="note">${escapeHtml(order.note)}</p>` : ""}
+  `
+  printHtml(order.number, body, PRINT_STYLES)
+}
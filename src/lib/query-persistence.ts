@@ -0,0 +1,76 @@
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from "@tanstack/react-query"
+import { OFFLINE_CONSTANTS } from "../types/offline"
+import { clearValues, readValue, writeValue } from "./idb"
+
+/** Key of the query cache in the query-cache store */
+const CACHE_KEY = "queries"
+
+/**
+ * Query cache as written to IndexedDB
+ */
+interface PersistedQueryCache {
+  /** Time the cache was written, in milliseconds */
+  readonly savedAt: number
+  /** Dehydrated queries */
+  readonly state: DehydratedState
+}
+
+/**
+ * Loads the query cache saved by an earlier session, so cached products
+ * can be read while the server is unreachable
+ * A cache older than the maximum age is dropped. Failures are ignored; the
+ * app then starts with an empty cache.
+ * @param queryClient - Query client to fill
+ */
+export async function restoreQueryCache(queryClient: QueryClient): Promise<void> {
+  try {
+    const cache = await readValue<PersistedQueryCache>("query-cache", CACHE_KEY)
+    if (!cache) return
+    if (Date.now() - cache.savedAt > OFFLINE_CONSTANTS.CACHE_MAX_AGE_MS) {
+      await clearValues("query-cache")
+      return
+    }
+    hydrate(queryClient, cache.state)
+  } catch (error) {
+    console.error("Error restoring the query cache:", error)
+  }
+}
+
+/**
+ * Saves successful queries to IndexedDB whenever the cache changes, at most
+ * once per throttle interval
+ * @param queryClient - Query client to save
+ * @returns Function that stops saving
+ */
+export function persistQueryCache(queryClient: QueryClient): () => void {
+  let timeout: ReturnType<typeof setTimeout> | null = null
+
+  const save = (): void => {
+    timeout = null
+    const cache: PersistedQueryCache = {
+      savedAt: Date.now(),
+      state: dehydrate(queryClient, { shouldDehydrateQuery: (query) => query.state.status === "success" }),
+    }
+    writeValue("query-cache", cache, CACHE_KEY).catch((error: unknown) => {
+      console.error("Error saving the query cache:", error)
+    })
+  }
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    if (timeout === null) {
+      timeout = setTimeout(save, OFFLINE_CONSTANTS.PERSIST_THROTTLE_MS)
+    }
+  })
+
+  return () => {
+    unsubscribe()
+    if (timeout !== null) clearTimeout(timeout)
+  }
+}
+
+/**
+ * Deletes the saved query cache, e.g. when signing out
+ */
+export async function clearPersistedQueryCache(): Promise<void> {
+  await clearValues("query-cache")
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { PurchaseOrder, PurchaseOrderLine, ReceivingEntry } from '../types/purchase-order'
+import { parseGs1 } from './gs1'
+import { addScannedUnit, buildReceipt, findOrderLine, getDeliveryFlag } from './receiving'
+
+const line: PurchaseOrderLine = {
+  id: 7,
+  productId: 3,
+  productName: 'Amoxicillin 500mg',
+  sku: 'AMX-500',
+  barcode: '5012345678900',
+  quantity: 10,
+  unitPrice: 2.5,
+  receivedQuantity: 0
+}
+
+const GS1_CODE = '(01)05012345678900(10)L1(17)270630'
+
+const prefilled: ReceivingEntry = { key: 0, lineId: 7, quantity: 10, lotNumber: '', expiryDate: '', isScanned: false }
+
+/**
+ * Scans the same code a number of times
+ * @param entries - Lots before scanning
+ * @param count - Number of scans
+ * @param code - Scanned code
+ * @returns Lots after scanning
+ */
+const scan = (entries: ReceivingEntry[], count: number, code: string): ReceivingEntry[] =>
+  Array.from({ length: count }).reduce<ReceivingEntry[]>((prev) => addScannedUnit(prev, 7, parseGs1(code)), entries)
+
+describe('findOrderLine', () => {
+  it('matches the SKU, the barcode and a GTIN inside a GS1 code', () => {
+    expect(findOrderLine([line], 'amx-500')).toBe(line)
+    expect(findOrderLine([line], '5012345678900')).toBe(line)
+    expect(findOrderLine([line], GS1_CODE)).toBe(line)
+    expect(findOrderLine([line], '4006381333931')).toBeUndefined()
+  })
+})
+
+describe('addScannedUnit', () => {
+  it('replaces the prefilled quantity with the scanned units', () => {
+    expect(scan([prefilled], 10, 'AMX-500')).toEqual([{ ...prefilled, quantity: 10, isScanned: true }])
+  })
+
+  it('takes the lot number and expiry date from a GS1 code', () => {
+    expect(scan([prefilled], 2, GS1_CODE)).toEqual([
+      { ...prefilled, quantity: 2, lotNumber: 'L1', expiryDate: '2027-06-30', isScanned: true }
+    ])
+  })
+
+  it('adds a lot for a lot number not entered yet', () => {
+    const entries = [{ ...prefilled, lotNumber: 'L0', expiryDate: '2027-01-31' }]
+
+    expect(scan(entries, 3, GS1_CODE)).toEqual([
+      entries[0],
+      { key: 1, lineId: 7, quantity: 3, lotNumber: 'L1', expiryDate: '2027-06-30', isScanned: true }
+    ])
+  })
+})
+
+describe('getDeliveryFlag', () => {
+  it('compares the units received now with the units outstanding', () => {
+    const partlyReceived = { ...line, receivedQuantity: 4 }
+
+    expect(getDeliveryFlag(partlyReceived, 0)).toBe('none')
+    expect(getDeliveryFlag(partlyReceived, 5)).toBe('under')
+    expect(getDeliveryFlag(partlyReceived, 6)).toBe('complete')
+    expect(getDeliveryFlag(partlyReceived, 7)).toBe('over')
+    expect(getDeliveryFlag({ ...line, receivedQuantity: 10 }, 0)).toBe('complete')
+  })
+})
+
+describe('buildReceipt', () => {
+  const otherLine: PurchaseOrderLine = { ...line, id: 8, productId: 4, sku: 'IBU-200', barcode: '', quantity: 5 }
+  const order: PurchaseOrder = {
+    id: 2,
+    number: 'PO-2026-0002',
+    supplier: 'PharmaDirect',
+    status: 'sent',
+    lines: [line, otherLine],
+    note: '',
+    createdBy: 'alice',
+    createdAt: '2026-05-01T09:00:00.000Z',
+    updatedAt: '2026-05-01T09:00:00.000Z',
+    sentAt: '2026-05-01T10:00:00.000Z'
+  }
+
+  it('posts the lots with units, trimmed, and leaves the order partly received', () => {
+    const entries: ReceivingEntry[] = [
+      { ...prefilled, quantity: 6, lotNumber: ' L1 ', expiryDate: '2027-06-30' },
+      { ...prefilled, key: 1, quantity: 0, lotNumber: 'L2', expiryDate: '2027-07-31' },
+      { ...prefilled, key: 2, lineId: 8, quantity: 5, lotNumber: 'B1', expiryDate: '2027-01-31' }
+    ]
+
+    expect(buildReceipt(order, entries)).toEqual({
+      lines: [
+        { lineId: 7, quantity: 6, lotNumber: 'L1', expiryDate: '2027-06-30' },
+        { lineId: 8, quantity: 5, lotNumber: 'B1', expiryDate: '2027-01-31' }
+      ],
+      status: 'partially_received'
+    })
+  })
+
+  it('marks the order received once every line has all its units', () => {
+    const earlierDelivery = { ...order, lines: [{ ...line, receivedQuantity: 6 }, otherLine] }
+    const entries: ReceivingEntry[] = [
+      { ...prefilled, quantity: 4, lotNumber: 'L1', expiryDate: '2027-06-30' },
+      { ...prefilled, key: 1, lineId: 8, quantity: 5, lotNumber: 'B1', expiryDate: '2027-01-31' }
+    ]
+
+    expect(buildReceipt(earlierDelivery, entries).status).toBe('received')
+  })
+})
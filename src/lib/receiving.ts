@@ -0,0 +1,155 @@
+import type {
+  DeliveryFlag,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderReceipt,
+  PurchaseOrderReceiptLine,
+  ReceivingEntry,
+} from "../types/purchase-order"
+import { normalizeGtin, parseGs1, type Gs1Data } from "./gs1"
+
+/**
+ * Gets the units of a line still to be delivered
+ * @param line - Purchase order line
+ * @returns Ordered units not yet received
+ */
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(line.quantity - line.receivedQuantity, 0)
+}
+
+/**
+ * Finds the order line of a scanned or typed code, matching the barcode
+ * (plain or inside a GS1 DataMatrix string) or the SKU
+ * @param lines - Lines of the purchase order
+ * @param code - Scanned or typed code
+ * @returns Matching line, or undefined when the product is not on the order
+ */
+export function findOrderLine(lines: readonly PurchaseOrderLine[], code: string): PurchaseOrderLine | undefined {
+  const trimmed = code.trim()
+  const barcode = normalizeGtin(parseGs1(trimmed)?.gtin ?? trimmed)
+  const sku = trimmed.toLowerCase()
+  return lines.find(
+    (line) => (line.barcode && normalizeGtin(line.barcode) === barcode) || line.sku.toLowerCase() === sku
+  )
+}
+
+/**
+ * Adds a lot for a line after the line's other lots
+ * @param entries - Lots entered for the delivery
+ * @param entry - Lot to add, without its key
+ * @returns Lots with the new one
+ */
+export function insertReceivingEntry(
+  entries: readonly ReceivingEntry[],
+  entry: Omit<ReceivingEntry, "key">
+): ReceivingEntry[] {
+  const key = Math.max(-1, ...entries.map((existing) => existing.key)) + 1
+  const lastIndex = entries.map((existing) => existing.lineId).lastIndexOf(entry.lineId)
+  return [...entries.slice(0, lastIndex + 1), { ...entry, key }, ...entries.slice(lastIndex + 1)]
+}
+
+/**
+ * Counts one scanned unit of a line
+ * The unit goes to the lot with the scanned lot number, else to a lot
+ * without a number yet, which takes the lot number and expiry date from the
+ * GS1 code; when neither exists a new lot is added. The first scan into a
+ * lot replaces the outstanding quantity it was prefilled with, so scanning
+ * every unit of a delivery counts it exactly.
+ * @param entries - Lots entered for the delivery
+ * @param lineId - Purchase order line scanned
+ * @param scan - Lot and expiry read from a GS1 DataMatrix code, null for a plain barcode
+ * @returns Lots with the unit counted
+ */
+export function addScannedUnit(
+  entries: readonly ReceivingEntry[],
+  lineId: number,
+  scan: Gs1Data | null
+): ReceivingEntry[] {
+  const lineEntries = entries.filter((entry) => entry.lineId === lineId)
+  const target = scan?.lotNumber
+    ? (lineEntries.find((entry) => entry.lotNumber.trim() === scan.lotNumber) ??
+      lineEntries.find((entry) => !entry.lotNumber.trim()))
+    : lineEntries[0]
+
+  if (!target) {
+    return insertReceivingEntry(entries, {
+      lineId,
+      quantity: 1,
+      lotNumber: scan?.lotNumber ?? "",
+      expiryDate: scan?.expiryDate ?? "",
+      isScanned: true,
+    })
+  }
+  return entries.map((entry) =>
+    entry === target
+      ? {
+          ...entry,
+          quantity: entry.isScanned ? entry.quantity + 1 : 1,
+          lotNumber: entry.lotNumber.trim() || scan?.lotNumber || "",
+          expiryDate: entry.expiryDate || scan?.expiryDate || "",
+          isScanned: true,
+        }
+      : entry
+  )
+}
+
+/**
+ * Compares the units received now with the units still outstanding
+ * @param line - Purchase order line
+ * @param receivedNow - Units received in this delivery
+ * @returns Delivery flag for the line
+ */
+export function getDeliveryFlag(line: PurchaseOrderLine, receivedNow: number): DeliveryFlag {
+  const outstanding = getOutstandingQuantity(line)
+  if (receivedNow === 0) return outstanding === 0 ? "complete" : "none"
+  if (receivedNow < outstanding) return "under"
+  if (receivedNow > outstanding) return "over"
+  return "complete"
+}
+
+/**
+ * Sums the units received now for each purchase order line
+ * @param entries - Lots entered for the delivery
+ * @returns Units per line ID
+ */
+export function getReceivedByLine(entries: readonly PurchaseOrderReceiptLine[]): Map<number, number> {
+  const received = new Map<number, number>()
+  for (const entry of entries) {
+    received.set(entry.lineId, (received.get(entry.lineId) ?? 0) + entry.quantity)
+  }
+  return received
+}
+
+/**
+ * Lists what is missing from a lot before it can be received
+ * @param entry - Lot entered for the delivery
+ * @returns Error messages, empty when the lot is complete or has no units
+ */
+export function validateReceiptLine(entry: PurchaseOrderReceiptLine): string[] {
+  if (entry.quantity === 0) return []
+  const errors: string[] = []
+  if (!Number.isInteger(entry.quantity) || entry.quantity < 0) errors.push("Quantity must be a whole number")
+  if (!entry.lotNumber.trim()) errors.push("Lot number is required")
+  if (!entry.expiryDate) errors.push("Expiry date is required")
+  return errors
+}
+
+/**
+ * Builds the receipt for a delivery; lots without units are left out and
+ * the order is fully received once every line has all its units
+ * @param order - Purchase order being received
+ * @param entries - Lots entered for the delivery
+ * @returns Receipt to post
+ */
+export function buildReceipt(order: PurchaseOrder, entries: readonly PurchaseOrderReceiptLine[]): PurchaseOrderReceipt {
+  const receivedByLine = getReceivedByLine(entries)
+  const isComplete = order.lines.every(
+    (line) => line.receivedQuantity + (receivedByLine.get(line.id) ?? 0) >= line.quantity
+  )
+  return {
+    lines: entries
+      .filter((entry) => entry.quantity > 0)
+      .map(({ lineId, quantity, lotNumber, expiryDate }) => ({ lineId, quantity, lotNumber: lotNumber.trim(), expiryDate })),
+    status: isComplete ? "received" : "partially_received",
+  }
+}
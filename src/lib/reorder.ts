@@ -0,0 +1,79 @@
+import { format, subDays } from "date-fns"
+import type { Product } from "../types/inventory"
+import type { ReorderSettings, ReorderSuggestion } from "../types/purchase-order"
+import { getProductStock } from "./utils"
+
+/**
+ * Checks if a product is at or below its minimum stock threshold
+ * @param product - Product to check
+ * @returns True if the product should be reordered
+ */
+export function needsReorder(product: Product): boolean {
+  return getProductStock(product) <= product.minimumStockThreshold
+}
+
+/**
+ * Gets the first day of the dispense history used to measure velocity
+ * @param days - Days of history to look at
+ * @param today - Reference date (default: now)
+ * @returns Date as yyyy-MM-dd
+ */
+export function getVelocityStart(days: number, today: Date = new Date()): string {
+  return format(subDays(today, days), "yyyy-MM-dd")
+}
+
+/**
+ * Measures how fast a product is dispensed
+ * @param dispensed - Units of the product dispensed over the period
+ * @param days - Days of history looked at
+ * @returns Average units dispensed per day
+ */
+export function getDailyVelocity(dispensed: number, days: number): number {
+  return days > 0 ? dispensed / days : 0
+}
+
+/**
+ * Suggests how many units of a product to order
+ * The target method orders up to a multiple of the threshold. The velocity
+ * method orders enough to cover the configured days at the current dispense
+ * rate, and never targets less than the threshold so slow movers still
+ * recover.
+ * @param product - Product to reorder
+ * @param dailyVelocity - Average units dispensed per day
+ * @param settings - Reorder settings
+ * @returns Suggestion with the quantity to order
+ */
+export function suggestReorder(product: Product, dailyVelocity: number, settings: ReorderSettings): ReorderSuggestion {
+  const stock = getProductStock(product)
+  const targetLevel = settings.method === "velocity"
+    ? Math.max(Math.ceil(dailyVelocity * settings.coverDays), product.minimumStockThreshold)
+    : Math.ceil(product.minimumStockThreshold * settings.targetMultiple)
+
+  return {
+    product,
+    stock,
+    dailyVelocity,
+    suggestedQuantity: Math.max(targetLevel - stock, 0),
+  }
+}
+
+/**
+ * Groups reorder suggestions by supplier
+ * @param suggestions - Suggestions to group
+ * @returns Suppliers in alphabetical order with their suggestions, product names in order
+ */
+export function groupBySupplier(
+  suggestions: readonly ReorderSuggestion[]
+): { supplier: string; suggestions: ReorderSuggestion[] }[] {
+  const groups = new Map<string, ReorderSuggestion[]>()
+  for (const suggestion of suggestions) {
+    const supplier = suggestion.product.supplier
+    groups.set(supplier, [...(groups.get(supplier) ?? []), suggestion])
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([supplier, items]) => ({
+      supplier,
+      suggestions: items.sort((a, b) => a.product.name.localeCompare(b.product.name)),
+    }))
+}
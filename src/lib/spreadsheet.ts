@@ -0,0 +1,54 @@
+import { read, utils } from "xlsx"
+import { format } from "date-fns"
+
+/**
+ * Reads the first sheet of a CSV or Excel file as rows of cell text
+ * Dates are normalized to yyyy-MM-dd and blank rows are dropped
+ * @param file - CSV, XLS or XLSX file
+ * @returns Promise with the rows, header row first
+ */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const workbook = read(await file.arrayBuffer(), { cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return []
+
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", blankrows: false })
+  return rows.map((row) =>
+    row.map((cell) => (cell instanceof Date ? format(cell, "yyyy-MM-dd") : String(cell).trim()))
+  )
+}
+
+/**
+ * Serializes rows to CSV, quoting cells where needed
+ * @param rows - Rows of cell values
+ * @returns CSV text
+ */
+export function toCsv(rows: readonly (readonly unknown[])[]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const text = cell === null || cell === undefined ? "" : String(cell)
+          return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(",")
+    )
+    .join("\r\n")
+}
+
+/**
+ * Saves content as a file through the browser download prompt
+ * @param content - File content
+ * @param fileName - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
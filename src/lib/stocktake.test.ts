@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import type { Stocktake, StocktakeLine } from '../types/stocktake'
+import { getStocktakeVariances, summarizeStocktake } from './stocktake'
+
+/**
+ * Creates a line expecting 10 units at $2.50
+ * @param id - Line ID
+ * @param countedQuantity - Units counted, null when not counted yet
+ * @returns Stocktake line
+ */
+const line = (id: number, countedQuantity: number | null): StocktakeLine => ({
+  id,
+  productId: id,
+  productName: `Product ${id}`,
+  sku: `SKU-${id}`,
+  barcode: '',
+  price: 2.5,
+  expectedQuantity: 10,
+  countedQuantity,
+  countedBy: countedQuantity === null ? null : 'alice',
+  countedAt: countedQuantity === null ? null : '2026-06-01T09:00:00.000Z'
+})
+
+const stocktake: Stocktake = {
+  id: 4,
+  number: 'ST-2026-0004',
+  status: 'counting',
+  category: null,
+  locationId: null,
+  lines: [line(1, 6), line(2, 10), line(3, 12), line(4, null), line(5, 9)],
+  note: '',
+  createdBy: 'alice',
+  createdAt: '2026-06-01T08:00:00.000Z',
+  updatedAt: '2026-06-01T09:00:00.000Z',
+  approvedBy: null,
+  approvedAt: null,
+  reason: null
+}
+
+describe('getStocktakeVariances', () => {
+  it('lists the counted lines off their expected quantity, largest loss first', () => {
+    const variances = getStocktakeVariances(stocktake.lines).map(({ line: { id }, quantity, value }) => ({
+      id,
+      quantity,
+      value
+    }))
+
+    expect(variances).toEqual([
+      { id: 1, quantity: -4, value: -10 },
+      { id: 5, quantity: -1, value: -2.5 },
+      { id: 3, quantity: 2, value: 5 }
+    ])
+  })
+})
+
+describe('summarizeStocktake', () => {
+  it('totals the counting progress and values shrinkage and surplus at the line price', () => {
+    expect(summarizeStocktake(stocktake)).toEqual({
+      countedLines: 4,
+      uncountedLines: 1,
+      shrinkageValue: 12.5,
+      surplusValue: 5,
+      netValue: -7.5
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import type { Stocktake, StocktakeLine, StocktakeSummary, StocktakeVariance } from "../types/stocktake"
+import { normalizeGtin, parseGs1 } from "./gs1"
+
+/**
+ * Finds the line of a scanned or typed code, matching the barcode (plain
+ * or inside a GS1 DataMatrix string) or the SKU
+ * @param lines - Lines of the stocktake
+ * @param code - Scanned or typed code
+ * @returns Matching line, or undefined when the product is not in scope
+ */
+export function findStocktakeLine(lines: readonly StocktakeLine[], code: string): StocktakeLine | undefined {
+  const trimmed = code.trim()
+  const barcode = normalizeGtin(parseGs1(trimmed)?.gtin ?? trimmed)
+  const sku = trimmed.toLowerCase()
+  return lines.find(
+    (line) => (line.barcode && normalizeGtin(line.barcode) === barcode) || line.sku.toLowerCase() === sku
+  )
+}
+
+/**
+ * Lists the counted lines whose count differs from the expected quantity,
+ * largest loss first
+ * @param lines - Lines of the stocktake
+ * @returns Variances valued at each line's price
+ */
+export function getStocktakeVariances(lines: readonly StocktakeLine[]): StocktakeVariance[] {
+  return lines
+    .flatMap((line) => {
+      if (line.countedQuantity === null || line.countedQuantity === line.expectedQuantity) return []
+      const quantity = line.countedQuantity - line.expectedQuantity
+      return [{ line, quantity, value: quantity * line.price }]
+    })
+    .sort((a, b) => a.value - b.value)
+}
+
+/**
+ * Totals a stocktake's counting progress and the value of its variances
+ * @param stocktake - Stocktake to summarize
+ * @returns Stocktake summary
+ */
+export function summarizeStocktake(stocktake: Stocktake): StocktakeSummary {
+  const countedLines = stocktake.lines.filter((line) => line.countedQuantity !== null).length
+  const variances = getStocktakeVariances(stocktake.lines)
+  const shrinkageValue = variances.reduce((total, { value }) => total + Math.max(-value, 0), 0)
+  const surplusValue = variances.reduce((total, { value }) => total + Math.max(value, 0), 0)
+
+  return {
+    countedLines,
+    uncountedLines: stocktake.lines.length - countedLines,
+    shrinkageValue,
+    surplusValue,
+    netValue: surplusValue - shrinkageValue,
+  }
+}
@@ -0,0 +1,96 @@
+import type { QueryClient } from "@tanstack/react-query"
+import type { Product, StockMovementFormData } from "../types/inventory"
+import { TOAST_CONSTANTS } from "../types/toast"
+import { inventoryApi } from "../services/api"
+import { useConflictStore } from "../stores/conflict-store"
+import { showToast } from "../stores/toast-store"
+import { patchCachedProduct } from "./product-cache"
+import { getErrorMessage, isConflictError, toProductFormData } from "./utils"
+
+/**
+ * Shows a toast for products just moved to the trash, with an Undo button
+ * that restores them
+ * @param queryClient - Query client to refresh after restoring
+ * @param products - Deleted products
+ */
+export function offerDeleteUndo(queryClient: QueryClient, products: readonly Product[]): void {
+  if (products.length === 0) return
+  const subject = products.length === 1 ? `"${products[0].name}"` : `${products.length} products`
+
+  showToast(`${subject} moved to the trash`, {
+    durationMs: TOAST_CONSTANTS.UNDO_DURATION_MS,
+    action: {
+      label: "Undo",
+      onClick: () => {
+        Promise.all(products.map((product) => inventoryApi.restoreProduct(product.id)))
+          .then(() => showToast(`${subject} restored`, { variant: "success" }))
+          .catch((error: unknown) => showToast(`Failed to restore: ${getErrorMessage(error)}`, { variant: "error" }))
+          .finally(() => queryClient.invalidateQueries({ queryKey: ["products"] }))
+      },
+    },
+  })
+}
+
+/**
+ * Shows a toast for a saved product edit, with an Undo button that puts
+ * back the previous values
+ * The undo is only sent if nobody saved the product since the edit;
+ * otherwise the conflict dialog lets the user merge it with their changes.
+ * A stock change is reverted with an opposite adjustment so the movement
+ * ledger stays complete.
+ * @param queryClient - Query client to refresh after undoing
+ * @param previous - Product as it was before the edit
+ * @param updated - Product as saved by the edit
+ * @param stockDelta - Stock change recorded with the edit
+ */
+export function offerUpdateUndo(
+  queryClient: QueryClient,
+  previous: Product,
+  updated: Product,
+  stockDelta: number
+): void {
+  const restored = toProductFormData(previous)
+  const adjustment: StockMovementFormData | undefined =
+    stockDelta !== 0
+      ? {
+          productId: previous.id,
+          type: "adjust",
+          quantity: -stockDelta,
+          reason: "data_entry_error",
+          note: "Undo of product edit",
+        }
+      : undefined
+
+  const undo = async (): Promise<void> => {
+    // The stock is left to the adjustment, so it is not changed twice
+    await inventoryApi.updateProduct(previous.id, { ...restored, stockQuantity: updated.stockQuantity }, updated.updatedAt)
+    if (adjustment) {
+      await inventoryApi.createStockMovement(adjustment)
+    }
+  }
+
+  const openUndoConflict = async (): Promise<void> => {
+    const server = await inventoryApi.getProductById(previous.id)
+    patchCachedProduct(queryClient, server)
+    useConflictStore.getState().openConflict({ base: updated, mine: restored, server, adjustment })
+  }
+
+  showToast(`"${previous.name}" saved`, {
+    variant: "success",
+    durationMs: TOAST_CONSTANTS.UNDO_DURATION_MS,
+    action: {
+      label: "Undo",
+      onClick: () => {
+        undo()
+          .then(() => showToast(`Changes to "${previous.name}" undone`))
+          .catch((error: unknown) => {
+            // Someone saved the product after the edit; let the user merge the undo
+            if (!isConflictError(error)) throw error
+            return openUndoConflict()
+          })
+          .catch((error: unknown) => showToast(`Failed to undo: ${getErrorMessage(error)}`, { variant: "error" }))
+          .finally(() => queryClient.invalidateQueries({ queryKey: ["products"] }))
+      },
+    },
+  })
+}
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProductBatch, StockMovement } from '../types/inventory'
+import { allocateFefo, withRunningBalance } from './utils'
+
+/**
+ * Creates a batch of product 1
+ * @param id - Batch ID
+ * @param quantity - Units in the batch
+ * @param expiryDate - Expiry date as yyyy-MM-dd
+ * @returns Batch
+ */
+const batch = (id: number, quantity: number, expiryDate: string): ProductBatch => ({
+  id,
+  productId: 1,
+  lotNumber: `L${id}`,
+  quantity,
+  quarantinedQuantity: 0,
+  expiryDate,
+  receivedDate: '2026-01-05',
+  supplier: 'PharmaDirect',
+  locationId: null,
+  createdAt: '2026-01-05T09:00:00.000Z',
+  updatedAt: '2026-01-05T09:00:00.000Z'
+})
+
+/**
+ * Creates a movement of product 1
+ * @param id - Movement ID
+ * @param quantity - Signed change in units
+ * @param createdAt - Date and time of the movement
+ * @returns Stock movement
+ */
+const movement = (id: number, quantity: number, createdAt: string): StockMovement => ({
+  id,
+  productId: 1,
+  batchId: null,
+  type: quantity > 0 ? 'receive' : 'dispense',
+  reason: quantity > 0 ? 'purchase' : 'sale',
+  quantity,
+  note: '',
+  user: 'alice',
+  createdAt
+})
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00.000Z') })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('allocateFefo', () => {
+  it('takes units from the earliest expiring batches first', () => {
+    const batches = [batch(1, 10, '2027-03-31'), batch(2, 4, '2026-09-30'), batch(3, 5, '2026-12-31')]
+
+    expect(allocateFefo(batches, 12)).toEqual({
+      allocations: [
+        { batchId: 2, lotNumber: 'L2', expiryDate: '2026-09-30', quantity: 4 },
+        { batchId: 3, lotNumber: 'L3', expiryDate: '2026-12-31', quantity: 5 },
+        { batchId: 1, lotNumber: 'L1', expiryDate: '2027-03-31', quantity: 3 }
+      ],
+      shortfall: 0
+    })
+  })
+
+  it('skips expired and empty batches', () => {
+    const batches = [batch(1, 10, '2026-05-31'), batch(2, 0, '2026-07-31'), batch(3, 6, '2026-08-31')]
+
+    expect(allocateFefo(batches, 4).allocations.map(({ batchId, quantity }) => ({ batchId, quantity }))).toEqual([
+      { batchId: 3, quantity: 4 }
+    ])
+  })
+
+  it('reports the units no unexpired batch can cover', () => {
+    const batches = [batch(1, 10, '2026-05-31'), batch(2, 3, '2026-08-31')]
+
+    expect(allocateFefo(batches, 5)).toMatchObject({ allocations: [{ batchId: 2, quantity: 3 }], shortfall: 2 })
+  })
+})
+
+describe('withRunningBalance', () => {
+  it('works the balance after each movement back from the current stock, newest first', () => {
+    const movements = [
+      movement(1, 20, '2026-05-01T09:00:00.000Z'),
+      movement(3, 5, '2026-05-03T09:00:00.000Z'),
+      movement(2, -8, '2026-05-02T09:00:00.000Z')
+    ]
+
+    expect(withRunningBalance(movements, 30).map(({ id, balance }) => ({ id, balance }))).toEqual([
+      { id: 3, balance: 30 },
+      { id: 2, balance: 25 },
+      { id: 1, balance: 33 }
+    ])
+  })
+
+  it('does not reorder the given movements', () => {
+    const movements = [movement(1, 20, '2026-05-01T09:00:00.000Z'), movement(2, -8, '2026-05-02T09:00:00.000Z')]
+
+    withRunningBalance(movements, 12)
+
+    expect(movements.map(({ id }) => id)).toEqual([1, 2])
+  })
+})
@@ -1,7 +1,22 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { format, isAfter, isBefore, addDays } from "date-fns"
+import { isAxiosError } from "axios"
 import { INVENTORY_CONSTANTS } from "../types/inventory"
+import type {
+  BatchStatus,
+  DispenseAllocation,
+  Product,
+  ProductBatch,
+  ProductFilters,
+  ProductFormData,
+  ProductOrdering,
+  ProductQuery,
+  ProductSortField,
+  ProductStatus,
+  StockMovement,
+  StockMovementWithBalance,
+} from "../types/inventory"
 
 /**
  * Combines class names with Tailwind merge
@@ -49,10 +64,14 @@ export function isLowStock(quantity: number, threshold: number = INVENTORY_CONST
  * Checks if a product is expiring soon
  * @param expiryDate - Product expiration date
  * @param daysThreshold - Days threshold (default from constants)
+ * @param today - Reference date (default: now)
  * @returns True if expiring soon
  */
-export function isExpiringSoon(expiryDate: string | Date, daysThreshold: number = INVENTORY_CONSTANTS.EXPIRING_SOON_DAYS): boolean {
-  const today = new Date()
+export function isExpiringSoon(
+  expiryDate: string | Date,
+  daysThreshold: number = INVENTORY_CONSTANTS.EXPIRING_SOON_DAYS,
+  today: Date = new Date()
+): boolean {
   const expiry = typeof expiryDate === 'string' ? new Date(expiryDate) : expiryDate
   const thresholdDate = addDays(today, daysThreshold)
   
@@ -62,15 +81,284 @@ export function isExpiringSoon(expiryDate: string | Date, daysThreshold: number
 /**
  * Checks if a product is expired
  * @param expiryDate - Product expiration date
+ * @param today - Reference date (default: now)
  * @returns True if expired
  */
-export function isExpired(expiryDate: string | Date): boolean {
-  const today = new Date()
+export function isExpired(expiryDate: string | Date, today: Date = new Date()): boolean {
   const expiry = typeof expiryDate === 'string' ? new Date(expiryDate) : expiryDate
   
   return isBefore(expiry, today)
 }
 
+/**
+ * Sums the quantities of a set of batches
+ * @param batches - Batches to total
+ * @returns Total units across all batches
+ */
+export function getTotalStock(batches: readonly ProductBatch[]): number {
+  return batches.reduce((total, batch) => total + batch.quantity, 0)
+}
+
+/**
+ * Gets the available stock of a product from its batches
+ * @param product - Product to check
+ * @returns Sum of the batch quantities, or the stored quantity when the product has no batches
+ */
+export function getProductStock(product: Product): number {
+  return product.batches.length > 0 ? getTotalStock(product.batches) : product.stockQuantity
+}
+
+/**
+ * Gets the editable fields of a product, with the expiry date formatted for a date input
+ * @param product - Product to read
+ * @returns Product form values
+ */
+export function toProductFormData(product: Product): ProductFormData {
+  return {
+    name: product.name,
+    sku: product.sku,
+    barcode: product.barcode,
+    description: product.description,
+    stockQuantity: product.stockQuantity,
+    price: product.price,
+    expiryDate: product.expiryDate.split('T')[0],
+    category: product.category,
+    supplier: product.supplier,
+    minimumStockThreshold: product.minimumStockThreshold
+  }
+}
+
+/**
+ * Narrows a product to the stock held at one location, so stock totals,
+ * statuses and badges use that location's quantity, threshold and batches
+ * A product without stock at the location is shown as out of stock there.
+ * @param product - Product to scope
+ * @param locationId - Location, or null for all locations
+ * @returns Product as seen from the location; the product itself for all locations
+ */
+export function scopeProductToLocation(product: Product, locationId: number | null): Product {
+  if (locationId === null) return product
+  const level = product.stockLevels.find((stockLevel) => stockLevel.locationId === locationId)
+  return {
+    ...product,
+    stockQuantity: level?.quantity ?? 0,
+    minimumStockThreshold: level?.minimumStockThreshold ?? product.minimumStockThreshold,
+    batches: product.batches.filter((batch) => batch.locationId === locationId),
+  }
+}
+
+/**
+ * Gets the status of a single batch
+ * @param batch - Batch to check
+ * @param today - Reference date (default: now)
+ * @returns Batch status
+ */
+export function getBatchStatus(batch: ProductBatch, today: Date = new Date()): BatchStatus {
+  if (batch.quantity === 0) {
+    return 'depleted'
+  }
+  if (isExpired(batch.expiryDate, today)) {
+    return 'expired'
+  }
+  if (isExpiringSoon(batch.expiryDate, INVENTORY_CONSTANTS.EXPIRING_SOON_DAYS, today)) {
+    return 'expiringSoon'
+  }
+  return 'valid'
+}
+
+/**
+ * Checks if a product holds any expired stock
+ * @param product - Product to check
+ * @param today - Reference date (default: now)
+ * @returns True if a batch with remaining units is expired
+ */
+export function hasExpiredStock(product: Product, today: Date = new Date()): boolean {
+  if (product.batches.length === 0) {
+    return isExpired(product.expiryDate, today)
+  }
+  return product.batches.some((batch) => getBatchStatus(batch, today) === 'expired')
+}
+
+/**
+ * Checks if a product holds stock that is expiring soon
+ * @param product - Product to check
+ * @param today - Reference date (default: now)
+ * @returns True if a batch with remaining units is expiring soon
+ */
+export function hasExpiringStock(product: Product, today: Date = new Date()): boolean {
+  if (product.batches.length === 0) {
+    return isExpiringSoon(product.expiryDate, INVENTORY_CONSTANTS.EXPIRING_SOON_DAYS, today)
+  }
+  return product.batches.some((batch) => getBatchStatus(batch, today) === 'expiringSoon')
+}
+
+/**
+ * Gets the overall status of a product as shown in the product list
+ * @param product - Product to check
+ * @returns Most urgent status: out of stock, low stock, expired, expiring soon or in stock
+ */
+export function getProductStatus(product: Product): ProductStatus {
+  const stock = getProductStock(product)
+  if (stock === 0) {
+    return 'outOfStock'
+  }
+  if (isLowStock(stock, product.minimumStockThreshold)) {
+    return 'lowStock'
+  }
+  if (hasExpiredStock(product)) {
+    return 'expired'
+  }
+  if (hasExpiringStock(product)) {
+    return 'expiringSoon'
+  }
+  return 'inStock'
+}
+
+/**
+ * Sorts batches by expiry date, earliest first
+ * @param batches - Batches to sort
+ * @returns New array of batches in expiry order
+ */
+export function sortBatchesByExpiry(batches: readonly ProductBatch[]): ProductBatch[] {
+  return [...batches].sort(
+    (a, b) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime()
+  )
+}
+
+/**
+ * Splits a quantity across batches in first-expired-first-out order
+ * Expired and depleted batches are skipped
+ * @param batches - Batches to dispense from
+ * @param quantity - Units to dispense
+ * @returns Batch split and the units that no batch could cover
+ */
+export function allocateFefo(
+  batches: readonly ProductBatch[],
+  quantity: number
+): { allocations: DispenseAllocation[]; shortfall: number } {
+  const allocations: DispenseAllocation[] = []
+  let remaining = quantity
+
+  for (const batch of sortBatchesByExpiry(batches)) {
+    if (remaining <= 0) break
+    const status = getBatchStatus(batch)
+    if (status === 'expired' || status === 'depleted') continue
+
+    const taken = Math.min(batch.quantity, remaining)
+    allocations.push({
+      batchId: batch.id,
+      lotNumber: batch.lotNumber,
+      expiryDate: batch.expiryDate,
+      quantity: taken,
+    })
+    remaining -= taken
+  }
+
+  return { allocations, shortfall: Math.max(remaining, 0) }
+}
+
+/**
+ * Adds the running stock balance to each movement of a product's ledger
+ * Balances are worked backwards from the current stock, so the ledger does
+ * not need to start at the product's first receipt
+ * @param movements - Movements of a single product
+ * @param currentStock - Current stock of the product
+ * @returns Movements ordered newest first, each with the balance after it
+ */
+export function withRunningBalance(
+  movements: readonly StockMovement[],
+  currentStock: number
+): StockMovementWithBalance[] {
+  const newestFirst = [...movements].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+  let balance = currentStock
+
+  return newestFirst.map((movement) => {
+    const entry = { ...movement, balance }
+    balance -= movement.quantity
+    return entry
+  })
+}
+
+/**
+ * Builds the typed product list query from filter, page and sort state
+ * @param filters - Current filter values
+ * @param page - Page number
+ * @param pageSize - Products per page
+ * @param ordering - Sort order
+ * @param locationId - Location to scope stock to, null or omitted for all locations
+ * @returns Product query
+ */
+export function buildProductQuery(
+  filters: ProductFilters,
+  page: number,
+  pageSize: number,
+  ordering?: ProductOrdering,
+  locationId?: number | null
+): ProductQuery {
+  return {
+    page,
+    pageSize,
+    ordering,
+    search: filters.searchTerm?.trim() || undefined,
+    category: filters.category || undefined,
+    stockStatus: filters.stockStatus,
+    expiryStatus: filters.expiryStatus,
+    location: locationId ?? undefined,
+  }
+}
+
+/**
+ * Toggles the sort order for a column: ascending first, then descending
+ * @param current - Current sort order
+ * @param field - Column that was clicked
+ * @returns New sort order
+ */
+export function toggleOrdering(current: ProductOrdering | undefined, field: ProductSortField): ProductOrdering {
+  return current === field ? `-${field}` : field
+}
+
+/**
+ * Extracts a readable message from an API or runtime error
+ * DRF responses carry either a "detail" message or per-field error lists
+ * @param error - Caught error
+ * @returns Error message
+ */
+export function getErrorMessage(error: unknown): string {
+  if (isAxiosError(error) && error.response?.data) {
+    const data: unknown = error.response.data
+    if (typeof data === "string") return data
+    if (typeof data === "object" && data !== null) {
+      if ("detail" in data && typeof data.detail === "string") return data.detail
+      return Object.entries(data)
+        .map(([field, messages]) => `${field}: ${Array.isArray(messages) ? messages.join(" ") : String(messages)}`)
+        .join("; ")
+    }
+  }
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Checks if a request failed without reaching the server, e.g. while the
+ * connection is down
+ * @param error - Caught error
+ * @returns True if no response was received
+ */
+export function isNetworkError(error: unknown): boolean {
+  return isAxiosError(error) && !error.response
+}
+
+/**
+ * Checks if an update was rejected because the record changed on the server
+ * since it was read (409 Conflict or 412 Precondition Failed)
+ * @param error - Caught error
+ * @returns True for a concurrent modification
+ */
+export function isConflictError(error: unknown): boolean {
+  return isAxiosError(error) && (error.response?.status === 409 || error.response?.status === 412)
+}
+
 /**
  * Converts snake_case strings to camelCase
  * @param str - Snake case string
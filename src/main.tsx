@@ -1,22 +1,31 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
-import App from './App.tsx'
+import { RouterProvider } from 'react-router'
+import { router } from './router.tsx'
 import './index.css'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { OFFLINE_CONSTANTS } from './types/offline'
+import { persistQueryCache, restoreQueryCache } from './lib/query-persistence'
 
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 60 * 1000,
+      // Kept as long as the persisted cache so it stays readable offline
+      gcTime: OFFLINE_CONSTANTS.CACHE_MAX_AGE_MS,
       refetchOnWindowFocus: false
     }
   }
 })
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <App />
-    </QueryClientProvider>
-  </React.StrictMode>,
-)
\ No newline at end of file
+// The cache saved by the last session is loaded before the first render
+restoreQueryCache(queryClient).finally(() => {
+  persistQueryCache(queryClient)
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <RouterProvider router={router} />
+      </QueryClientProvider>
+    </React.StrictMode>,
+  )
+})
\ No newline at end of file
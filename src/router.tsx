@@ -0,0 +1,59 @@
+import { Navigate, createBrowserRouter } from 'react-router'
+import App from './App.tsx'
+import ProductsPage from './components/pages/products-page'
+import ProductFormPage from './components/pages/product-form-page'
+import ProductDetailPage from './components/pages/product-detail-page'
+import DashboardPage from './components/pages/dashboard-page'
+import ReorderPage from './components/pages/reorder-page'
+import PurchaseOrdersPage from './components/pages/purchase-orders-page'
+import PurchaseOrderDetailPage from './components/pages/purchase-order-detail-page'
+import PurchaseOrderReceivePage from './components/pages/purchase-order-receive-page'
+import TransfersPage from './components/pages/transfers-page'
+import StocktakesPage from './components/pages/stocktakes-page'
+import StocktakePage from './components/pages/stocktake-page'
+import ExpiredStockPage from './components/pages/expired-stock-page'
+import TrashPage from './components/pages/trash-page'
+import NotFoundPage from './components/pages/not-found-page'
+import ErrorPage from './components/pages/error-page'
+
+/**
+ * Application routes
+ * The product form opens over the list, so /products/new and
+ * /products/:id/edit are children of /products.
+ */
+export const router = createBrowserRouter([
+  {
+    path: '/',
+    element: <App />,
+    errorElement: <ErrorPage />,
+    children: [
+      {
+        // Errors inside a page keep the header and navigation
+        errorElement: <ErrorPage />,
+        children: [
+          { index: true, element: <Navigate to="/products" replace /> },
+          { path: 'dashboard', element: <DashboardPage /> },
+          {
+            path: 'products',
+            element: <ProductsPage />,
+            children: [
+              { path: 'new', element: <ProductFormPage /> },
+              { path: ':id/edit', element: <ProductFormPage /> },
+            ],
+          },
+          { path: 'products/:id', element: <ProductDetailPage /> },
+          { path: 'reorder', element: <ReorderPage /> },
+          { path: 'purchase-orders', element: <PurchaseOrdersPage /> },
+          { path: 'purchase-orders/:id', element: <PurchaseOrderDetailPage /> },
+          { path: 'purchase-orders/:id/receive', element: <PurchaseOrderReceivePage /> },
+          { path: 'transfers', element: <TransfersPage /> },
+          { path: 'stocktakes', element: <StocktakesPage /> },
+          { path: 'stocktakes/:id', element: <StocktakePage /> },
+          { path: 'expired-stock', element: <ExpiredStockPage /> },
+          { path: 'trash', element: <TrashPage /> },
+          { path: '*', element: <NotFoundPage /> },
+        ],
+      },
+    ],
+  },
+])
@@ -1,13 +1,21 @@
 import { z } from 'zod';
+import { isValidGtin } from '../lib/gs1';
 
 export const productSchema = z.object({
   name: z.string().min(1, 'Product name is required').max(100, 'Product name must be less than 100 characters'),
-  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
-  price: z.number().min(0, 'Price must be positive').max(999999, 'Price is too high'),
-  stockQuantity: z.number().int().min(0, 'Stock quantity must be non-negative'),
+  sku: z.string().max(64, 'SKU must be less than 64 characters'),
+  barcode: z.string()
+    .trim()
+    .refine((value) => value === '' || isValidGtin(value), 'Barcode must be a valid GTIN-8, -12, -13 or -14 with a correct check digit'),
+  description: z.string().min(1, 'Description is required').max(500, 'Description must be less than 500 characters'),
+  price: z.number().positive('Price must be greater than 0').max(999999, 'Price is too high'),
+  stockQuantity: z.number().int().min(0, 'Stock quantity must be 0 or higher'),
   category: z.string().min(1, 'Category is required'),
   supplier: z.string().min(1, 'Supplier is required'),
-  expiryDate: z.string().min(1, 'Expiry date is required'),
+  expiryDate: z.string()
+    .min(1, 'Expiry date is required')
+    .refine((value) => value === '' || !Number.isNaN(Date.parse(value)), 'Expiry date is not a valid date'),
+  minimumStockThreshold: z.number().int().min(1, 'Minimum stock threshold must be at least 1'),
 });
 
 export const productFiltersSchema = z.object({
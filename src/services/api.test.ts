@@ -0,0 +1,105 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { setupServer } from 'msw/node'
+import { inventoryApi } from './api'
+import { useAuthStore } from '../stores/auth-store'
+
+const API_URL = 'http://localhost:8000/api'
+
+const server = setupServer()
+
+/**
+ * Serves products only to requests carrying the given access token
+ * @param validToken - Access token the server accepts
+ * @returns Authorization header of every product request received
+ */
+const serveProducts = (validToken: string): string[] => {
+  const received: string[] = []
+  server.use(
+    http.get(`${API_URL}/inventory/products/:id/`, ({ request, params }) => {
+      const authorization = request.headers.get('Authorization') ?? ''
+      received.push(authorization)
+      if (authorization !== `Bearer ${validToken}`) {
+        return HttpResponse.json({ detail: 'Token is invalid or expired' }, { status: 401 })
+      }
+      return HttpResponse.json({ id: Number(params.id), name: `Product ${params.id}` })
+    })
+  )
+  return received
+}
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+
+beforeEach(() => {
+  useAuthStore.setState({ accessToken: 'expired', refreshToken: 'refresh-1', user: null })
+  // Failed requests are logged by the API service
+  vi.spyOn(console, 'error').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  server.resetHandlers()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => server.close())
+
+describe('token refresh', () => {
+  it('refreshes once when several requests fail with 401 at the same time', async () => {
+    serveProducts('fresh')
+    let refreshCount = 0
+    server.use(
+      http.post(`${API_URL}/auth/token/refresh/`, async () => {
+        refreshCount++
+        await delay(20)
+        return HttpResponse.json({ access: 'fresh' })
+      })
+    )
+
+    await Promise.all([1, 2, 3].map((id) => inventoryApi.getProductById(id)))
+
+    expect(refreshCount).toBe(1)
+    expect(useAuthStore.getState()).toMatchObject({ accessToken: 'fresh', refreshToken: 'refresh-1' })
+  })
+
+  it('replays the failed and waiting requests with the new access token', async () => {
+    const received = serveProducts('fresh')
+    let refreshStarted = false
+    let finishRefresh = (): void => undefined
+    const refreshFinished = new Promise<void>((resolve) => {
+      finishRefresh = resolve
+    })
+    server.use(
+      http.post(`${API_URL}/auth/token/refresh/`, async () => {
+        refreshStarted = true
+        await refreshFinished
+        return HttpResponse.json({ access: 'fresh', refresh: 'refresh-2' })
+      })
+    )
+
+    const first = inventoryApi.getProductById(1)
+    // Sent while the refresh started by the first request is in flight
+    await vi.waitFor(() => expect(refreshStarted).toBe(true))
+    const second = inventoryApi.getProductById(2)
+    finishRefresh()
+
+    await expect(first).resolves.toMatchObject({ id: 1, name: 'Product 1' })
+    await expect(second).resolves.toMatchObject({ id: 2, name: 'Product 2' })
+    expect(received).toEqual(['Bearer expired', 'Bearer fresh', 'Bearer fresh'])
+    expect(useAuthStore.getState()).toMatchObject({ accessToken: 'fresh', refreshToken: 'refresh-2' })
+  })
+
+  it('clears the session when the refresh fails', async () => {
+    const received = serveProducts('fresh')
+    server.use(
+      http.post(`${API_URL}/auth/token/refresh/`, () =>
+        HttpResponse.json({ detail: 'Token is blacklisted' }, { status: 401 })
+      )
+    )
+
+    const results = await Promise.allSettled([inventoryApi.getProductById(1), inventoryApi.getProductById(2)])
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected'])
+    expect(received).toEqual(['Bearer expired', 'Bearer expired'])
+    expect(useAuthStore.getState()).toMatchObject({ accessToken: null, refreshToken: null, user: null })
+  })
+})
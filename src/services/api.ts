@@ -1,10 +1,46 @@
-import axios from 'axios'
-import { Product, ProductFormData } from '../types/inventory'
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios'
+import type { AuthSession, AuthTokens, LoginCredentials, User } from '../types/auth'
+import type {
+  BulkProductAction,
+  BulkProductResult,
+  DispenseRequest,
+  DispenseResult,
+  InventoryEvent,
+  PaginatedResponse,
+  Product,
+  ProductBatch,
+  ProductBatchFormData,
+  ProductFormData,
+  ProductQuery,
+  StockMovement,
+  StockMovementFormData,
+  StockMovementTotal,
+  StockMovementType
+} from '../types/inventory'
+import type {
+  DestructionRecord,
+  DestructionRegisterQuery,
+  QuarantineRequest,
+  WriteOffRequest
+} from '../types/disposal'
+import type { Location, ProductStockLevel } from '../types/location'
+import type {
+  PurchaseOrder,
+  PurchaseOrderFormData,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus
+} from '../types/purchase-order'
+import type { Stocktake, StocktakeApproval, StocktakeCount, StocktakeFormData } from '../types/stocktake'
+import type { StockTransfer, StockTransferFormData, TransferQuery } from '../types/transfer'
 import { camelToSnake, snakeToCamel } from '../lib/utils'
+import { useAuthStore } from '../stores/auth-store'
 
 // API base URL configuration
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'
 
+// Page size used when fetching every product page by page
+const ALL_PRODUCTS_PAGE_SIZE = 1000
+
 // Axios instance with common configuration
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -13,28 +49,190 @@ const apiClient = axios.create({
   }
 })
 
+// Auth endpoints that must not trigger a token refresh themselves
+const TOKEN_URL = '/auth/token/'
+const TOKEN_REFRESH_URL = '/auth/token/refresh/'
+
+// Refresh in flight; requests that arrive meanwhile wait for it
+let refreshPromise: Promise<string> | null = null
+
+/**
+ * Exchanges the stored refresh token for a new access token
+ * Concurrent callers share a single refresh request. A failed refresh ends
+ * the session.
+ * @returns Promise with the new access token
+ */
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const { refreshToken, setTokens, clearSession } = useAuthStore.getState()
+    refreshPromise = axios
+      .post<Partial<AuthTokens>>(`${API_BASE_URL}${TOKEN_REFRESH_URL}`, { refresh: refreshToken })
+      .then((response) => {
+        const access = response.data.access ?? ''
+        // The refresh token is only returned when the server rotates it
+        setTokens({ access, refresh: response.data.refresh ?? refreshToken ?? '' })
+        return access
+      })
+      .catch((error) => {
+        clearSession()
+        throw error
+      })
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
+}
+
+// Attach the access token, waiting for a refresh in flight first
+apiClient.interceptors.request.use(async (config) => {
+  if (refreshPromise && config.url !== TOKEN_URL) {
+    await refreshPromise.catch(() => undefined)
+  }
+  const { accessToken } = useAuthStore.getState()
+  if (accessToken) {
+    config.headers.Authorization = `Bearer ${accessToken}`
+  }
+  return config
+})
+
+// On 401, refresh the access token once and retry the request
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+    const { refreshToken } = useAuthStore.getState()
+
+    if (
+      error.response?.status !== 401 ||
+      !request ||
+      request._retried ||
+      request.url === TOKEN_URL ||
+      !refreshToken
+    ) {
+      throw error
+    }
+
+    request._retried = true
+    const accessToken = await refreshAccessToken()
+    request.headers.Authorization = `Bearer ${accessToken}`
+    return apiClient(request)
+  }
+)
+
+/**
+ * Recursively renames the keys of objects (and objects nested in arrays)
+ * @param data - Data to transform
+ * @param transformKey - Key renaming function
+ * @returns Transformed data
+ */
+const transformKeys = (data: unknown, transformKey: (key: string) => string): unknown => {
+  if (Array.isArray(data)) {
+    return data.map((item) => transformKeys(item, transformKey))
+  }
+  if (data !== null && typeof data === 'object') {
+    return Object.entries(data).reduce((acc, [key, value]) => {
+      acc[transformKey(key)] = transformKeys(value, transformKey)
+      return acc
+    }, {} as Record<string, unknown>)
+  }
+  return data
+}
+
 /**
  * Transforms snake_case response data to camelCase
  * @param data - Data to transform
  * @returns Transformed data with camelCase keys
  */
-const transformResponseData = (data: Record<string, any>): Record<string, any> => {
-  return Object.entries(data).reduce((acc, [key, value]) => {
-    acc[snakeToCamel(key)] = value
-    return acc
-  }, {} as Record<string, any>)
-}
+const transformResponseData = (data: unknown): unknown => transformKeys(data, snakeToCamel)
 
 /**
  * Transforms camelCase request data to snake_case
  * @param data - Data to transform
  * @returns Transformed data with snake_case keys
  */
-const transformRequestData = (data: Record<string, any>): Record<string, any> => {
-  return Object.entries(data).reduce((acc, [key, value]) => {
-    acc[camelToSnake(key)] = value
-    return acc
-  }, {} as Record<string, any>)
+const transformRequestData = (data: unknown): unknown => transformKeys(data, camelToSnake)
+
+/**
+ * Maps a typed product query to DRF-style query parameters
+ * "all" status filters and empty values are left out
+ * @param query - Product query
+ * @returns Query parameters with snake_case keys and values
+ */
+const toProductQueryParams = (query: ProductQuery): Record<string, string | number> => {
+  const params: Record<string, string | number> = {
+    page: query.page,
+    page_size: query.pageSize
+  }
+
+  if (query.ordering) params.ordering = camelToSnake(query.ordering)
+  if (query.search) params.search = query.search
+  if (query.barcode) params.barcode = query.barcode
+  if (query.category) params.category = query.category
+  if (query.stockStatus && query.stockStatus !== 'all') params.stock_status = camelToSnake(query.stockStatus)
+  if (query.expiryStatus && query.expiryStatus !== 'all') params.expiry_status = camelToSnake(query.expiryStatus)
+  if (query.location) params.location = query.location
+
+  return params
+}
+
+/**
+ * API service for authentication
+ */
+export const authApi = {
+  /**
+   * Signs in and loads the user's profile
+   * @param credentials - Username and password
+   * @returns Promise with the issued tokens and the user profile
+   */
+  login: async (credentials: LoginCredentials): Promise<AuthSession> => {
+    try {
+      const tokenResponse = await apiClient.post<AuthTokens>(TOKEN_URL, credentials)
+      const tokens = tokenResponse.data
+      const userResponse = await apiClient.get('/auth/me/', {
+        headers: { Authorization: `Bearer ${tokens.access}` }
+      })
+      return { tokens, user: transformResponseData(userResponse.data) as User }
+    } catch (error) {
+      console.error('Error signing in:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the signed-in user's profile
+   * @returns Promise with the user profile
+   */
+  getCurrentUser: async (): Promise<User> => {
+    try {
+      const response = await apiClient.get('/auth/me/')
+      return transformResponseData(response.data) as User
+    } catch (error) {
+      console.error('Error fetching current user:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Revokes a refresh token so it cannot be used again
+   * @param refreshToken - Refresh token to revoke
+   * @returns Promise that resolves when the token is revoked
+   */
+  logout: async (refreshToken: string): Promise<void> => {
+    try {
+      await apiClient.post('/auth/token/blacklist/', { refresh: refreshToken })
+    } catch (error) {
+      console.error('Error signing out:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Exchanges the refresh token for a new access token, joining a refresh
+   * already in flight; a failed refresh ends the session
+   * @returns Promise with the new access token
+   */
+  refreshAccessToken: (): Promise<string> => refreshAccessToken()
 }
 
 /**
@@ -42,20 +240,40 @@ const transformRequestData = (data: Record<string, any>): Record<string, any> =>
  */
 export const inventoryApi = {
   /**
-   * Fetches all products with optional filters
-   * @param params - Optional query parameters
-   * @returns Promise with products
+   * Fetches a page of products matching a query
+   * @param query - Pagination, ordering and filter options
+   * @returns Promise with the paginated products
    */
-  getProducts: async (params?: Record<string, string>): Promise<Product[]> => {
+  getProducts: async (query: ProductQuery): Promise<PaginatedResponse<Product>> => {
     try {
-      const response = await apiClient.get('/inventory/products/', { params })
-      return response.data.map(transformResponseData) as Product[]
+      const response = await apiClient.get('/inventory/products/', { params: toProductQueryParams(query) })
+      return transformResponseData(response.data) as PaginatedResponse<Product>
     } catch (error) {
       console.error('Error fetching products:', error)
       throw error
     }
   },
 
+  /**
+   * Fetches every product matching a query by walking through all pages
+   * @param query - Ordering and filter options
+   * @returns Promise with all matching products, in query order
+   */
+  getAllProducts: async (query: Omit<ProductQuery, 'page' | 'pageSize'> = {}): Promise<Product[]> => {
+    const products: Product[] = []
+    let page = 1
+    let hasNext = true
+
+    while (hasNext) {
+      const response = await inventoryApi.getProducts({ ...query, page, pageSize: ALL_PRODUCTS_PAGE_SIZE })
+      products.push(...response.results)
+      hasNext = response.next !== null
+      page++
+    }
+
+    return products
+  },
+
   /**
    * Fetches a single product by ID
    * @param id - Product ID
@@ -74,12 +292,15 @@ export const inventoryApi = {
   /**
    * Creates a new product
    * @param productData - Product data to create
+   * @param idempotencyKey - Optional key so a retried request is applied only once
    * @returns Promise with created product
    */
-  createProduct: async (productData: ProductFormData): Promise<Product> => {
+  createProduct: async (productData: ProductFormData, idempotencyKey?: string): Promise<Product> => {
     try {
-      const transformedData = transformRequestData(productData as unknown as Record<string, any>)
-      const response = await apiClient.post('/inventory/products/', transformedData)
+      const transformedData = transformRequestData(productData)
+      const response = await apiClient.post('/inventory/products/', transformedData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+      })
       return transformResponseData(response.data) as Product
     } catch (error) {
       console.error('Error creating product:', error)
@@ -89,14 +310,19 @@ export const inventoryApi = {
 
   /**
    * Updates an existing product
+   * With `expectedUpdatedAt` the server only applies the update if the
+   * product was not changed since, and answers 412 otherwise.
    * @param id - Product ID
    * @param productData - Updated product data
+   * @param expectedUpdatedAt - `updatedAt` of the product the edit was made on
    * @returns Promise with updated product
    */
-  updateProduct: async (id: number, productData: ProductFormData): Promise<Product> => {
+  updateProduct: async (id: number, productData: ProductFormData, expectedUpdatedAt?: string): Promise<Product> => {
     try {
-      const transformedData = transformRequestData(productData as unknown as Record<string, any>)
-      const response = await apiClient.put(`/inventory/products/${id}/`, transformedData)
+      const transformedData = transformRequestData(productData)
+      const response = await apiClient.put(`/inventory/products/${id}/`, transformedData, {
+        headers: expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt}"` } : undefined
+      })
       return transformResponseData(response.data) as Product
     } catch (error) {
       console.error(`Error updating product ${id}:`, error)
@@ -105,7 +331,7 @@ export const inventoryApi = {
   },
 
   /**
-   * Deletes a product by ID
+   * Moves a product to the trash; it can be restored until it is purged
    * @param id - Product ID to delete
    * @returns Promise with success status
    */
@@ -118,6 +344,628 @@ export const inventoryApi = {
     }
   },
 
+  /**
+   * Fetches a page of products in the trash, most recently deleted first
+   * @param page - Page number
+   * @param pageSize - Products per page
+   * @returns Promise with deleted products
+   */
+  getDeletedProducts: async (page: number, pageSize: number): Promise<PaginatedResponse<Product>> => {
+    try {
+      const response = await apiClient.get('/inventory/products/trash/', {
+        params: { page, page_size: pageSize }
+      })
+      return transformResponseData(response.data) as PaginatedResponse<Product>
+    } catch (error) {
+      console.error('Error fetching deleted products:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Restores a product from the trash
+   * @param id - Product ID
+   * @returns Promise with the restored product
+   */
+  restoreProduct: async (id: number): Promise<Product> => {
+    try {
+      const response = await apiClient.post(`/inventory/products/trash/${id}/restore/`)
+      return transformResponseData(response.data) as Product
+    } catch (error) {
+      console.error(`Error restoring product ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Permanently deletes a product from the trash
+   * @param id - Product ID
+   * @returns Promise with success status
+   */
+  purgeProduct: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/inventory/products/trash/${id}/`)
+    } catch (error) {
+      console.error(`Error permanently deleting product ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Applies one change to a batch of products in a single request; the
+   * server saves each product independently and reports the outcome per product
+   * @param productIds - Products to change
+   * @param action - Change to apply
+   * @returns Promise with the result of each product
+   */
+  bulkUpdateProducts: async (productIds: readonly number[], action: BulkProductAction): Promise<BulkProductResult[]> => {
+    try {
+      const transformedData = transformRequestData({ productIds, action })
+      const response = await apiClient.post('/inventory/products/bulk/', transformedData)
+      return (transformResponseData(response.data) as { results: BulkProductResult[] }).results
+    } catch (error) {
+      console.error('Error applying bulk product action:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the stock batches of a product
+   * @param productId - Product ID
+   * @returns Promise with the product batches
+   */
+  getProductBatches: async (productId: number): Promise<ProductBatch[]> => {
+    try {
+      const response = await apiClient.get(`/inventory/products/${productId}/batches/`)
+      return transformResponseData(response.data) as ProductBatch[]
+    } catch (error) {
+      console.error(`Error fetching batches for product ${productId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Adds a stock batch to a product
+   * @param productId - Product ID
+   * @param batchData - Batch data to create
+   * @returns Promise with created batch
+   */
+  createBatch: async (productId: number, batchData: ProductBatchFormData): Promise<ProductBatch> => {
+    try {
+      const transformedData = transformRequestData(batchData)
+      const response = await apiClient.post(`/inventory/products/${productId}/batches/`, transformedData)
+      return transformResponseData(response.data) as ProductBatch
+    } catch (error) {
+      console.error(`Error creating batch for product ${productId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates an existing stock batch
+   * @param id - Batch ID
+   * @param batchData - Updated batch data
+   * @returns Promise with updated batch
+   */
+  updateBatch: async (id: number, batchData: ProductBatchFormData): Promise<ProductBatch> => {
+    try {
+      const transformedData = transformRequestData(batchData)
+      const response = await apiClient.put(`/inventory/batches/${id}/`, transformedData)
+      return transformResponseData(response.data) as ProductBatch
+    } catch (error) {
+      console.error(`Error updating batch ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a stock batch by ID
+   * @param id - Batch ID to delete
+   * @returns Promise with success status
+   */
+  deleteBatch: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/inventory/batches/${id}/`)
+    } catch (error) {
+      console.error(`Error deleting batch ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Moves units of a batch into quarantine, or back out when the quantity
+   * is negative
+   * @param request - Batch, units and note
+   * @returns Promise with updated batch
+   */
+  quarantineStock: async ({ batchId, ...request }: QuarantineRequest): Promise<ProductBatch> => {
+    try {
+      const transformedData = transformRequestData(request)
+      const response = await apiClient.post(`/inventory/batches/${batchId}/quarantine/`, transformedData)
+      return transformResponseData(response.data) as ProductBatch
+    } catch (error) {
+      console.error(`Error quarantining stock of batch ${batchId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Writes off units of a batch, recording a write-off movement and an entry
+   * in the destruction register
+   * @param request - Batch, units, reason, disposal method and witness
+   * @param idempotencyKey - Unique key so a retried request is applied only once
+   * @returns Promise with the destruction register entry
+   */
+  writeOffStock: async (
+    { batchId, ...request }: WriteOffRequest,
+    idempotencyKey: string
+  ): Promise<DestructionRecord> => {
+    try {
+      const transformedData = transformRequestData(request)
+      const response = await apiClient.post(`/inventory/batches/${batchId}/write-off/`, transformedData, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as DestructionRecord
+    } catch (error) {
+      console.error(`Error writing off stock of batch ${batchId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the destruction register, oldest entry first
+   * @param query - Optional date range
+   * @returns Promise with the register entries
+   */
+  getDestructionRegister: async (query: DestructionRegisterQuery = {}): Promise<DestructionRecord[]> => {
+    try {
+      const response = await apiClient.get('/inventory/destruction-register/', { params: query })
+      return transformResponseData(response.data) as DestructionRecord[]
+    } catch (error) {
+      console.error('Error fetching destruction register:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Dispenses stock of a product, taking units from the given batches
+   * @param request - Product, quantity and batch split to dispense
+   * @param idempotencyKey - Key identifying this dispense so retries are applied only once
+   * @returns Promise with the updated product and applied batch split
+   */
+  dispense: async (request: DispenseRequest, idempotencyKey: string): Promise<DispenseResult> => {
+    try {
+      const transformedData = transformRequestData({
+        quantity: request.quantity,
+        allocations: request.allocations.map(({ batchId, quantity }) => ({ batchId, quantity }))
+      })
+      const response = await apiClient.post(
+        `/inventory/products/${request.productId}/dispense/`,
+        transformedData,
+        { headers: { 'Idempotency-Key': idempotencyKey } }
+      )
+      return transformResponseData(response.data) as DispenseResult
+    } catch (error) {
+      console.error(`Error dispensing product ${request.productId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the stock movement ledger of a product
+   * @param productId - Product ID
+   * @returns Promise with the product's stock movements
+   */
+  getStockMovements: async (productId: number): Promise<StockMovement[]> => {
+    try {
+      const response = await apiClient.get(`/inventory/products/${productId}/movements/`)
+      return transformResponseData(response.data) as StockMovement[]
+    } catch (error) {
+      console.error(`Error fetching stock movements for product ${productId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Sums the stock movements of one type per product since a date, for the
+   * whole catalog in one call
+   * @param type - Kind of stock change to sum
+   * @param since - First day to include (yyyy-MM-dd)
+   * @returns Promise with one total per product that had such movements
+   */
+  getStockMovementTotals: async (type: StockMovementType, since: string): Promise<StockMovementTotal[]> => {
+    try {
+      const response = await apiClient.get('/inventory/movements/totals/', { params: { type, since } })
+      return transformResponseData(response.data) as StockMovementTotal[]
+    } catch (error) {
+      console.error(`Error fetching ${type} totals since ${since}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Records a stock movement and applies it to the product stock
+   * @param movementData - Movement data to record
+   * @param idempotencyKey - Optional key so a retried request is applied only once
+   * @returns Promise with recorded movement
+   */
+  createStockMovement: async (movementData: StockMovementFormData, idempotencyKey?: string): Promise<StockMovement> => {
+    try {
+      const transformedData = transformRequestData(movementData)
+      const response = await apiClient.post('/inventory/movements/', transformedData, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+      })
+      return transformResponseData(response.data) as StockMovement
+    } catch (error) {
+      console.error(`Error recording stock movement for product ${movementData.productId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches purchase orders, newest first
+   * @param status - Optional status to filter by
+   * @returns Promise with list of purchase orders
+   */
+  getPurchaseOrders: async (status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> => {
+    try {
+      const response = await apiClient.get('/inventory/purchase-orders/', { params: { status } })
+      return transformResponseData(response.data) as PurchaseOrder[]
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches a single purchase order by ID
+   * @param id - Purchase order ID
+   * @returns Promise with purchase order details
+   */
+  getPurchaseOrderById: async (id: number): Promise<PurchaseOrder> => {
+    try {
+      const response = await apiClient.get(`/inventory/purchase-orders/${id}/`)
+      return transformResponseData(response.data) as PurchaseOrder
+    } catch (error) {
+      console.error(`Error fetching purchase order ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a draft purchase order
+   * @param orderData - Supplier, note and lines of the order
+   * @returns Promise with created purchase order
+   */
+  createPurchaseOrder: async (orderData: PurchaseOrderFormData): Promise<PurchaseOrder> => {
+    try {
+      const transformedData = transformRequestData(orderData)
+      const response = await apiClient.post('/inventory/purchase-orders/', transformedData)
+      return transformResponseData(response.data) as PurchaseOrder
+    } catch (error) {
+      console.error('Error creating purchase order:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a draft purchase order
+   * @param id - Purchase order ID
+   * @param orderData - Supplier, note and lines of the order
+   * @returns Promise with updated purchase order
+   */
+  updatePurchaseOrder: async (id: number, orderData: PurchaseOrderFormData): Promise<PurchaseOrder> => {
+    try {
+      const transformedData = transformRequestData(orderData)
+      const response = await apiClient.put(`/inventory/purchase-orders/${id}/`, transformedData)
+      return transformResponseData(response.data) as PurchaseOrder
+    } catch (error) {
+      console.error(`Error updating purchase order ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Moves a purchase order to a new status, e.g. from draft to sent
+   * @param id - Purchase order ID
+   * @param status - New status
+   * @returns Promise with updated purchase order
+   */
+  updatePurchaseOrderStatus: async (id: number, status: PurchaseOrderStatus): Promise<PurchaseOrder> => {
+    try {
+      const response = await apiClient.patch(`/inventory/purchase-orders/${id}/`, { status })
+      return transformResponseData(response.data) as PurchaseOrder
+    } catch (error) {
+      console.error(`Error updating status of purchase order ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Receives a delivery against a purchase order, adding each lot as a new
+   * batch and updating the order status
+   * @param id - Purchase order ID
+   * @param receipt - Lots received and the resulting order status
+   * @param idempotencyKey - Unique key so a retried request is applied only once
+   * @returns Promise with updated purchase order
+   */
+  receivePurchaseOrder: async (
+    id: number,
+    receipt: PurchaseOrderReceipt,
+    idempotencyKey: string
+  ): Promise<PurchaseOrder> => {
+    try {
+      const transformedData = transformRequestData(receipt)
+      const response = await apiClient.post(`/inventory/purchase-orders/${id}/receive/`, transformedData, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as PurchaseOrder
+    } catch (error) {
+      console.error(`Error receiving purchase order ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a draft purchase order
+   * @param id - Purchase order ID
+   * @returns Promise that resolves when the order is deleted
+   */
+  deletePurchaseOrder: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/inventory/purchase-orders/${id}/`)
+    } catch (error) {
+      console.error(`Error deleting purchase order ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches every storage location across all branches
+   * @returns Promise with the locations, ordered by branch and name
+   */
+  getLocations: async (): Promise<Location[]> => {
+    try {
+      const response = await apiClient.get('/inventory/locations/')
+      return transformResponseData(response.data) as Location[]
+    } catch (error) {
+      console.error('Error fetching locations:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Sets the low stock threshold of a product at one location
+   * @param productId - Product ID
+   * @param locationId - Location ID
+   * @param minimumStockThreshold - New threshold
+   * @returns Promise with the updated stock level
+   */
+  updateStockLevel: async (
+    productId: number,
+    locationId: number,
+    minimumStockThreshold: number
+  ): Promise<ProductStockLevel> => {
+    try {
+      const response = await apiClient.patch(
+        `/inventory/products/${productId}/stock-levels/${locationId}/`,
+        transformRequestData({ minimumStockThreshold })
+      )
+      return transformResponseData(response.data) as ProductStockLevel
+    } catch (error) {
+      console.error(`Error updating stock level of product ${productId} at location ${locationId}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches stock transfers, newest first
+   * @param query - Optional status, product and location filters
+   * @returns Promise with list of transfers
+   */
+  getTransfers: async (query: TransferQuery = {}): Promise<StockTransfer[]> => {
+    try {
+      const response = await apiClient.get('/inventory/transfers/', { params: query })
+      return transformResponseData(response.data) as StockTransfer[]
+    } catch (error) {
+      console.error('Error fetching transfers:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Requests a transfer of stock from one location to another
+   * @param transferData - Product, locations, quantity and note
+   * @returns Promise with created transfer
+   */
+  createTransfer: async (transferData: StockTransferFormData): Promise<StockTransfer> => {
+    try {
+      const transformedData = transformRequestData(transferData)
+      const response = await apiClient.post('/inventory/transfers/', transformedData)
+      return transformResponseData(response.data) as StockTransfer
+    } catch (error) {
+      console.error('Error requesting transfer:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Approves a requested transfer
+   * @param id - Transfer ID
+   * @returns Promise with updated transfer
+   */
+  approveTransfer: async (id: number): Promise<StockTransfer> => {
+    try {
+      const response = await apiClient.post(`/inventory/transfers/${id}/approve/`)
+      return transformResponseData(response.data) as StockTransfer
+    } catch (error) {
+      console.error(`Error approving transfer ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Ships an approved transfer, taking the stock out of the sending location
+   * and counting it as in transit to the receiving one
+   * @param id - Transfer ID
+   * @param idempotencyKey - Unique key so a retried request is applied only once
+   * @returns Promise with updated transfer
+   */
+  shipTransfer: async (id: number, idempotencyKey: string): Promise<StockTransfer> => {
+    try {
+      const response = await apiClient.post(`/inventory/transfers/${id}/ship/`, null, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as StockTransfer
+    } catch (error) {
+      console.error(`Error shipping transfer ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Receives a shipped transfer, adding the stock to the receiving location
+   * @param id - Transfer ID
+   * @param idempotencyKey - Unique key so a retried request is applied only once
+   * @returns Promise with updated transfer
+   */
+  receiveTransfer: async (id: number, idempotencyKey: string): Promise<StockTransfer> => {
+    try {
+      const response = await apiClient.post(`/inventory/transfers/${id}/receive/`, null, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as StockTransfer
+    } catch (error) {
+      console.error(`Error receiving transfer ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Cancels a transfer that has not been shipped yet
+   * @param id - Transfer ID
+   * @returns Promise with updated transfer
+   */
+  cancelTransfer: async (id: number): Promise<StockTransfer> => {
+    try {
+      const response = await apiClient.post(`/inventory/transfers/${id}/cancel/`)
+      return transformResponseData(response.data) as StockTransfer
+    } catch (error) {
+      console.error(`Error cancelling transfer ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches stocktake sessions, newest first
+   * @returns Promise with list of stocktakes
+   */
+  getStocktakes: async (): Promise<Stocktake[]> => {
+    try {
+      const response = await apiClient.get('/inventory/stocktakes/')
+      return transformResponseData(response.data) as Stocktake[]
+    } catch (error) {
+      console.error('Error fetching stocktakes:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches a single stocktake with its lines
+   * @param id - Stocktake ID
+   * @returns Promise with stocktake details
+   */
+  getStocktakeById: async (id: number): Promise<Stocktake> => {
+    try {
+      const response = await apiClient.get(`/inventory/stocktakes/${id}/`)
+      return transformResponseData(response.data) as Stocktake
+    } catch (error) {
+      console.error(`Error fetching stocktake ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Starts a stocktake, freezing the expected quantities of every product
+   * in the scope
+   * @param stocktakeData - Category and location to count, and a note
+   * @returns Promise with created stocktake
+   */
+  createStocktake: async (stocktakeData: StocktakeFormData): Promise<Stocktake> => {
+    try {
+      const transformedData = transformRequestData(stocktakeData)
+      const response = await apiClient.post('/inventory/stocktakes/', transformedData)
+      return transformResponseData(response.data) as Stocktake
+    } catch (error) {
+      console.error('Error starting stocktake:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Adds counted units to the saved counts; lines not included keep their
+   * current count
+   * @param id - Stocktake ID
+   * @param counts - Units counted by line since the last save
+   * @param idempotencyKey - Key identifying this save so retries are added only once
+   * @returns Promise with updated stocktake
+   */
+  saveStocktakeCounts: async (
+    id: number,
+    counts: readonly StocktakeCount[],
+    idempotencyKey: string
+  ): Promise<Stocktake> => {
+    try {
+      const transformedData = transformRequestData({ counts })
+      const response = await apiClient.post(`/inventory/stocktakes/${id}/counts/`, transformedData, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as Stocktake
+    } catch (error) {
+      console.error(`Error saving counts of stocktake ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Approves a stocktake, posting its variances as one batch of adjustments
+   * @param id - Stocktake ID
+   * @param approval - Reason and note recorded on the adjustments
+   * @param idempotencyKey - Unique key so a retried request is applied only once
+   * @returns Promise with approved stocktake
+   */
+  approveStocktake: async (
+    id: number,
+    approval: StocktakeApproval,
+    idempotencyKey: string
+  ): Promise<Stocktake> => {
+    try {
+      const transformedData = transformRequestData(approval)
+      const response = await apiClient.post(`/inventory/stocktakes/${id}/approve/`, transformedData, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      return transformResponseData(response.data) as Stocktake
+    } catch (error) {
+      console.error(`Error approving stocktake ${id}:`, error)
+      throw error
+    }
+  },
+
+  /**
+   * Cancels a stocktake without changing stock
+   * @param id - Stocktake ID
+   * @returns Promise with cancelled stocktake
+   */
+  cancelStocktake: async (id: number): Promise<Stocktake> => {
+    try {
+      const response = await apiClient.post(`/inventory/stocktakes/${id}/cancel/`)
+      return transformResponseData(response.data) as Stocktake
+    } catch (error) {
+      console.error(`Error cancelling stocktake ${id}:`, error)
+      throw error
+    }
+  },
+
   /**
    * Fetches all product categories
    * @returns Promise with list of categories
@@ -131,4 +979,42 @@ export const inventoryApi = {
       throw error
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * API service for the live inventory channel
+ */
+export const eventsApi = {
+  /**
+   * Opens the Server-Sent Events stream of inventory changes
+   * EventSource cannot send headers, so the access token is passed as a
+   * query parameter. The stream reconnects by itself after network errors;
+   * `onError` is called with `closed` set when it gave up, e.g. because the
+   * token expired.
+   * @param onEvent - Handler for each inventory change
+   * @param onOpen - Handler called when the stream (re)connects
+   * @param onError - Handler called when the stream fails
+   * @returns Function that closes the stream
+   */
+  subscribe: (
+    onEvent: (event: InventoryEvent) => void,
+    onOpen: () => void,
+    onError: (closed: boolean) => void
+  ): (() => void) => {
+    const { accessToken } = useAuthStore.getState()
+    const url = new URL(`${API_BASE_URL}/inventory/events/`, window.location.origin)
+    if (accessToken) url.searchParams.set('token', accessToken)
+
+    const source = new EventSource(url)
+    source.onopen = () => onOpen()
+    source.onerror = () => onError(source.readyState === EventSource.CLOSED)
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        onEvent(transformResponseData(JSON.parse(message.data)) as InventoryEvent)
+      } catch (error) {
+        console.error('Error reading inventory event:', error)
+      }
+    }
+    return () => source.close()
+  }
+}
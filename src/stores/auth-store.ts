@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AuthSession, AuthTokens, User } from '../types/auth';
+
+interface AuthState {
+  accessToken: string | null;
+  refreshToken: string | null;
+  user: User | null;
+}
+
+interface AuthActions {
+  setSession: (session: AuthSession) => void;
+  setTokens: (tokens: AuthTokens) => void;
+  setUser: (user: User) => void;
+  clearSession: () => void;
+}
+
+type AuthStore = AuthState & AuthActions;
+
+// Tokens and profile are kept in localStorage so the session survives a reload
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set) => ({
+      // State
+      accessToken: null,
+      refreshToken: null,
+      user: null,
+
+      // Actions
+      setSession: ({ tokens, user }) => set({
+        accessToken: tokens.access,
+        refreshToken: tokens.refresh,
+        user,
+      }),
+
+      setTokens: (tokens) => set({
+        accessToken: tokens.access,
+        refreshToken: tokens.refresh,
+      }),
+
+      setUser: (user) => set({ user }),
+
+      clearSession: () => set({
+        accessToken: null,
+        refreshToken: null,
+        user: null,
+      }),
+    }),
+    // Bumped when the stored profile shape changes; older sessions sign in again
+    { name: 'drugstore-auth', version: 1 }
+  )
+);
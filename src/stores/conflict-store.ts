@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import type { ProductConflict } from '../types/inventory';
+import type { OutboxEntry } from '../types/offline';
+
+interface ConflictState {
+  /** Rejected update waiting to be merged */
+  conflict: ProductConflict | null;
+  /** Outbox entry the conflict came from, when it was made offline */
+  outboxEntry: OutboxEntry | null;
+}
+
+interface ConflictActions {
+  openConflict: (conflict: ProductConflict, outboxEntry?: OutboxEntry) => void;
+  closeConflict: () => void;
+}
+
+type ConflictStore = ConflictState & ConflictActions;
+
+export const useConflictStore = create<ConflictStore>((set) => ({
+  // State
+  conflict: null,
+  outboxEntry: null,
+
+  // Actions
+  openConflict: (conflict, outboxEntry) => set({ conflict, outboxEntry: outboxEntry ?? null }),
+
+  closeConflict: () => set({ conflict: null, outboxEntry: null }),
+}));
@@ -1,9 +1,9 @@
 import { create } from 'zustand';
-import type { Product, ProductFiltersOptions } from '../types/inventory';
+import type { Product, ProductFilters } from '../types/inventory';
 
 interface InventoryState {
   products: Product[];
-  filters: ProductFiltersOptions;
+  filters: ProductFilters;
   isLoading: boolean;
   error: string | null;
   selectedProduct: Product | null;
@@ -14,7 +14,7 @@ interface InventoryState {
 
 interface InventoryActions {
   setProducts: (products: Product[]) => void;
-  setFilters: (filters: ProductFiltersOptions) => void;
+  setFilters: (filters: ProductFilters) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   setSelectedProduct: (product: Product | null) => void;
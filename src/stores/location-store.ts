@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface LocationState {
+  /** Location the app is scoped to, null for all locations */
+  locationId: number | null;
+}
+
+interface LocationActions {
+  setLocationId: (locationId: number | null) => void;
+}
+
+type LocationStore = LocationState & LocationActions;
+
+// The chosen location is kept in localStorage; a counter stays on its own branch across reloads
+export const useLocationStore = create<LocationStore>()(
+  persist(
+    (set) => ({
+      // State
+      locationId: null,
+
+      // Actions
+      setLocationId: (locationId) => set({ locationId }),
+    }),
+    { name: 'drugstore-location', version: 1 }
+  )
+);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import type { OutboxEntry } from '../types/offline';
+
+interface OutboxState {
+  /** Queued changes in the order they were made, mirrored from IndexedDB */
+  entries: OutboxEntry[];
+  /** Whether the browser reports a network connection */
+  isOnline: boolean;
+  /** Whether queued changes are being sent */
+  isSyncing: boolean;
+}
+
+interface OutboxActions {
+  setEntries: (entries: OutboxEntry[]) => void;
+  setOnline: (isOnline: boolean) => void;
+  setSyncing: (isSyncing: boolean) => void;
+}
+
+type OutboxStore = OutboxState & OutboxActions;
+
+export const useOutboxStore = create<OutboxStore>((set) => ({
+  // State
+  entries: [],
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+
+  // Actions
+  setEntries: (entries) => set({ entries }),
+
+  setOnline: (isOnline) => set({ isOnline }),
+
+  setSyncing: (isSyncing) => set({ isSyncing }),
+}));
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import type { Toast, ToastOptions } from '../types/toast';
+import { TOAST_CONSTANTS } from '../types/toast';
+
+interface ToastState {
+  toasts: Toast[];
+}
+
+interface ToastActions {
+  showToast: (message: string, options?: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+type ToastStore = ToastState & ToastActions;
+
+let nextToastId = 1;
+
+export const useToastStore = create<ToastStore>((set) => ({
+  // State
+  toasts: [],
+
+  // Actions
+  showToast: (message, options = {}) => {
+    const toast: Toast = {
+      id: nextToastId++,
+      message,
+      variant: options.variant ?? 'info',
+      action: options.action,
+      durationMs: options.durationMs ?? TOAST_CONSTANTS.DEFAULT_DURATION_MS,
+    };
+    set((state) => ({ toasts: [...state.toasts, toast].slice(-TOAST_CONSTANTS.MAX_VISIBLE) }));
+    return toast.id;
+  },
+
+  dismissToast: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
+
+/**
+ * Shows a toast from outside React, e.g. in mutation callbacks
+ */
+export const showToast = (message: string, options?: ToastOptions): number =>
+  useToastStore.getState().showToast(message, options);
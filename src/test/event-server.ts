@@ -0,0 +1,121 @@
+import { createServer, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { EventSource } from 'eventsource'
+import type { InventoryEvent } from '../types/inventory'
+import { camelToSnake } from '../lib/utils'
+
+// Reconnect delay the stub asks the browser for, in milliseconds
+const RETRY_MS = 20
+
+// Fetch as it was on import, before a request mock could wrap it
+const nativeFetch = globalThis.fetch
+
+/**
+ * Local HTTP server streaming the live inventory channel as
+ * text/event-stream, for tests of the real EventSource code path
+ */
+export interface StubEventServer {
+  /** Paths with query of the stream requests received, in order */
+  readonly requests: string[];
+  /** Number of streams currently open */
+  readonly connectionCount: number;
+  /** Access token the server accepts; other tokens are answered with 401 */
+  acceptedToken: string;
+  /** Pushes an inventory change to every open stream, encoded as the server sends it */
+  readonly push: (event: InventoryEvent) => void;
+  /** Pushes a raw message to every open stream */
+  readonly pushRaw: (data: string) => void;
+  /** Ends every open stream, as a dropped connection does */
+  readonly disconnect: () => void;
+  /** Ends every stream, stops the server and puts the browser globals back */
+  readonly stop: () => Promise<void>;
+}
+
+/**
+ * Renames the keys of objects (and objects nested in arrays) to snake_case
+ * @param data - Data to encode
+ * @returns Data as the server sends it
+ */
+const toSnakeCase = (data: unknown): unknown => {
+  if (Array.isArray(data)) return data.map(toSnakeCase)
+  if (data !== null && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [camelToSnake(key), toSnakeCase(value)]))
+  }
+  return data
+}
+
+/**
+ * Starts a stub event server on a free local port
+ * The global EventSource is replaced with a spec-compliant polyfill whose
+ * requests, whatever API host they name, are sent to the stub server.
+ * @returns Promise with the running server
+ */
+export const startStubEventServer = async (): Promise<StubEventServer> => {
+  const streams = new Set<ServerResponse>()
+  const requests: string[] = []
+  let acceptedToken = ''
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (url.pathname !== '/api/inventory/events/') {
+      response.writeHead(404).end()
+      return
+    }
+    requests.push(`${url.pathname}${url.search}`)
+    if (url.searchParams.get('token') !== acceptedToken) {
+      response.writeHead(401, { 'Content-Type': 'application/json' }).end('{"detail":"Token is invalid or expired"}')
+      return
+    }
+
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+    response.write(`retry: ${RETRY_MS}\n\n`)
+    streams.add(response)
+    response.on('close', () => streams.delete(response))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  /** EventSource reaching the stub server in place of the API host */
+  class StubEventSource extends EventSource {
+    constructor(url: string | URL) {
+      super(url, {
+        fetch: (input, init) => {
+          const target = new URL(input)
+          return nativeFetch(`${origin}${target.pathname}${target.search}`, init)
+        }
+      })
+    }
+  }
+
+  const globals = { EventSource: globalThis.EventSource, window: globalThis.window }
+  // Stream URLs are resolved against the page origin
+  Object.assign(globalThis, { EventSource: StubEventSource, window: { location: { origin: 'http://localhost:5173' } } })
+
+  const pushRaw = (data: string): void => {
+    for (const stream of streams) stream.write(`data: ${data}\n\n`)
+  }
+
+  return {
+    requests,
+    get connectionCount() {
+      return streams.size
+    },
+    get acceptedToken() {
+      return acceptedToken
+    },
+    set acceptedToken(token: string) {
+      acceptedToken = token
+    },
+    push: (event) => pushRaw(JSON.stringify(toSnakeCase(event))),
+    pushRaw,
+    disconnect: () => {
+      for (const stream of streams) stream.end()
+    },
+    stop: async () => {
+      for (const stream of streams) stream.end()
+      server.closeAllConnections()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+      Object.assign(globalThis, globals)
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { vi } from 'vitest'
+
+/**
+ * In-memory localStorage for the stores persisted in the browser, as tests
+ * run in Node
+ */
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key)
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    }
+  }
+}
+
+vi.stubGlobal('localStorage', createMemoryStorage())
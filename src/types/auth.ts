@@ -0,0 +1,71 @@
+/**
+ * Action a user may be allowed to perform
+ */
+export type Permission =
+  | 'product.create'
+  | 'product.edit'
+  | 'product.delete'
+  | 'product.editPrice'
+  | 'stock.adjust'
+  | 'stock.receive'
+  | 'stock.dispense'
+  | 'purchaseOrder.manage'
+  | 'transfer.request'
+  | 'transfer.approve'
+  | 'stocktake.approve'
+  | 'stock.writeOff';
+
+/**
+ * Job role of a user; permissions are granted per role on the server
+ */
+export type UserRole = 'manager' | 'pharmacist' | 'cashier';
+
+/**
+ * Represents the signed-in user's profile
+ */
+export interface User {
+  /** Unique identifier for the user */
+  readonly id: number;
+  /** Login name */
+  readonly username: string;
+  /** Given name */
+  readonly firstName: string;
+  /** Family name */
+  readonly lastName: string;
+  /** Email address */
+  readonly email: string;
+  /** Job role */
+  readonly role: UserRole;
+  /** Actions the user is allowed to perform */
+  readonly permissions: readonly Permission[];
+}
+
+/**
+ * Credentials submitted on the login screen
+ */
+export interface LoginCredentials {
+  /** Login name */
+  readonly username: string;
+  /** Password */
+  readonly password: string;
+}
+
+/**
+ * JWT pair issued by the token endpoints
+ */
+export interface AuthTokens {
+  /** Short-lived token sent with every API request */
+  readonly access: string;
+  /** Long-lived token used to obtain a new access token */
+  readonly refresh: string;
+}
+
+/**
+ * Result of a successful login
+ */
+export interface AuthSession {
+  /** Issued tokens */
+  readonly tokens: AuthTokens;
+  /** Profile of the signed-in user */
+  readonly user: User;
+}
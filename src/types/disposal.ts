@@ -0,0 +1,127 @@
+import type { Product, ProductBatch, StockMovementReason } from './inventory';
+
+/**
+ * How written-off stock is destroyed
+ */
+export type DisposalMethod = 'waste_contractor' | 'incineration' | 'denaturing' | 'supplier_return';
+
+/**
+ * Reason a batch is written off
+ */
+export type WriteOffReason = Extract<StockMovementReason, 'expired' | 'damaged'>;
+
+/**
+ * Request payload for moving units of a batch into quarantine
+ * Quarantined units are kept apart from the batch quantity, so they cannot
+ * be dispensed, until they are written off or released.
+ */
+export interface QuarantineRequest {
+  /** Batch the units belong to */
+  readonly batchId: number;
+  /** Units to quarantine, or to release when negative */
+  readonly quantity: number;
+  /** Free-text note, e.g. where the units are kept */
+  readonly note: string;
+}
+
+/**
+ * Request payload for writing off units of a batch
+ * The units leave stock through a write-off movement and an entry is added
+ * to the destruction register.
+ */
+export interface WriteOffRequest {
+  /** Batch the units belong to */
+  readonly batchId: number;
+  /** Units to write off */
+  readonly quantity: number;
+  /** Whether the units are taken from quarantine rather than from available stock */
+  readonly fromQuarantine: boolean;
+  /** Reason for the write-off */
+  readonly reason: WriteOffReason;
+  /** How the units are destroyed */
+  readonly method: DisposalMethod;
+  /** Name of the person who witnessed the destruction */
+  readonly witness: string;
+  /** Free-text note */
+  readonly note: string;
+}
+
+/**
+ * Entry of the destruction register kept for the regulator
+ */
+export interface DestructionRecord {
+  /** Unique identifier for the entry */
+  readonly id: number;
+  /** Human-readable register number, e.g. DR-2024-0017 */
+  readonly number: string;
+  /** Product destroyed */
+  readonly productId: number;
+  /** Product name at the time of destruction */
+  readonly productName: string;
+  /** Product SKU at the time of destruction */
+  readonly sku: string;
+  /** Lot number of the destroyed batch */
+  readonly lotNumber: string;
+  /** Expiration date of the destroyed batch */
+  readonly expiryDate: string;
+  /** Units destroyed */
+  readonly quantity: number;
+  /** Value of the destroyed units at the product price in USD */
+  readonly value: number;
+  /** Reason for the write-off */
+  readonly reason: WriteOffReason;
+  /** How the units were destroyed */
+  readonly method: DisposalMethod;
+  /** Name of the person who witnessed the destruction */
+  readonly witness: string;
+  /** Free-text note */
+  readonly note: string;
+  /** User who wrote the units off */
+  readonly destroyedBy: string;
+  /** Date and time of the write-off */
+  readonly destroyedAt: string;
+  /** Stock movement recording the write-off */
+  readonly movementId: number;
+}
+
+/**
+ * Date range of the destruction register, as yyyy-MM-dd
+ */
+export interface DestructionRegisterQuery {
+  /** First day included */
+  readonly from?: string;
+  /** Last day included */
+  readonly to?: string;
+}
+
+/**
+ * A batch holding expired, soon-to-expire or quarantined units
+ */
+export interface ExpiredStockLine {
+  /** Product the batch belongs to */
+  readonly product: Product;
+  /** Batch holding the units */
+  readonly batch: ProductBatch;
+  /** Whether the batch has expired or expires soon */
+  readonly status: 'expired' | 'expiringSoon' | 'valid';
+  /** Value of the available and quarantined units at the product price in USD */
+  readonly value: number;
+}
+
+/**
+ * Display labels for disposal methods
+ */
+export const DISPOSAL_METHOD_LABELS: Record<DisposalMethod, string> = {
+  waste_contractor: 'Pharmaceutical waste contractor',
+  incineration: 'Incineration',
+  denaturing: 'Denaturing kit',
+  supplier_return: 'Returned to supplier for destruction',
+};
+
+/**
+ * Display labels for write-off reasons
+ */
+export const WRITE_OFF_REASON_LABELS: Record<WriteOffReason, string> = {
+  expired: 'Expired',
+  damaged: 'Damaged',
+};
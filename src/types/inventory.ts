@@ -1,3 +1,5 @@
+import type { ProductStockLevel } from './location';
+
 /**
  * Represents a product in the inventory system
  */
@@ -6,13 +8,17 @@ export interface Product {
   readonly id: number;
   /** Name of the product */
   readonly name: string;
+  /** Stock keeping unit code (empty when not assigned) */
+  readonly sku: string;
+  /** GTIN printed on the pack as a barcode (empty when not assigned) */
+  readonly barcode: string;
   /** Description of the product */
   readonly description: string;
-  /** Current stock quantity */
+  /** Current stock quantity (sum of all batch quantities) */
   readonly stockQuantity: number;
   /** Price of the product in USD */
   readonly price: number;
-  /** Expiration date of the product */
+  /** Expiration date of the product (earliest expiry among its batches) */
   readonly expiryDate: string;
   /** Category the product belongs to */
   readonly category: string;
@@ -24,13 +30,92 @@ export interface Product {
   readonly createdAt: string;
   /** Date when the product information was last updated */
   readonly updatedAt: string;
+  /** Date when the product was moved to the trash, null while active */
+  readonly deletedAt: string | null;
+  /** User who moved the product to the trash */
+  readonly deletedBy: string | null;
+  /** Stock batches (lots) currently held for the product */
+  readonly batches: readonly ProductBatch[];
+  /** Stock and low stock threshold at each location holding the product */
+  readonly stockLevels: readonly ProductStockLevel[];
 }
 
 /**
  * Input data structure for creating/updating a product
- * Omits read-only fields like ID and timestamps
+ * Omits read-only fields like ID, timestamps, batches and stock levels
+ */
+export type ProductFormData = Omit<
+  Product,
+  'id' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'deletedBy' | 'batches' | 'stockLevels'
+>;
+
+/**
+ * Product update rejected because someone else changed the product first
+ */
+export interface ProductConflict {
+  /** Product as it was when the edit started */
+  readonly base: Product;
+  /** Values submitted by the user */
+  readonly mine: ProductFormData;
+  /** Product as it is now on the server */
+  readonly server: Product;
+  /** Stock adjustment that was to follow the update; it is applied once the merged version is saved */
+  readonly adjustment?: StockMovementFormData;
+}
+
+/**
+ * Field that can be merged after a conflict; stock only changes through
+ * movements, so the server value always applies
+ */
+export type ProductMergeField = Exclude<keyof ProductFormData, 'stockQuantity'>;
+
+/**
+ * Version chosen for each field when merging a conflict
  */
-export type ProductFormData = Omit<Product, 'id' | 'createdAt' | 'updatedAt'>;
+export type ProductMergeChoices = Record<ProductMergeField, 'mine' | 'server'>;
+
+/**
+ * Represents a stock batch (lot) of a product with its own expiry date
+ */
+export interface ProductBatch {
+  /** Unique identifier for the batch */
+  readonly id: number;
+  /** Product the batch belongs to */
+  readonly productId: number;
+  /** Manufacturer lot number */
+  readonly lotNumber: string;
+  /** Units remaining in the batch and available to dispense */
+  readonly quantity: number;
+  /** Units of the batch set aside in quarantine, not part of quantity */
+  readonly quarantinedQuantity: number;
+  /** Expiration date of the batch */
+  readonly expiryDate: string;
+  /** Date when the batch was received */
+  readonly receivedDate: string;
+  /** Supplier the batch was received from */
+  readonly supplier: string;
+  /** Location where the batch is stored, null if not assigned */
+  readonly locationId: number | null;
+  /** Date when the batch was recorded */
+  readonly createdAt: string;
+  /** Date when the batch was last updated */
+  readonly updatedAt: string;
+}
+
+/**
+ * Input data structure for creating/updating a batch
+ */
+export type ProductBatchFormData = Omit<ProductBatch, 'id' | 'productId' | 'quarantinedQuantity' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Overall status of a product, most urgent first: stock problems, then expiry
+ */
+export type ProductStatus = 'outOfStock' | 'lowStock' | 'expired' | 'expiringSoon' | 'inStock';
+
+/**
+ * Expiry/stock status of a single batch
+ */
+export type BatchStatus = 'expired' | 'expiringSoon' | 'depleted' | 'valid';
 
 /**
  * Filter options for product inventory queries
@@ -46,6 +131,344 @@ export interface ProductFilters {
   readonly expiryStatus?: 'all' | 'expired' | 'expiringSoon' | 'valid';
 }
 
+/**
+ * Product field a spreadsheet column can be imported into
+ */
+export type ProductImportField = keyof ProductFormData;
+
+/**
+ * Spreadsheet column index mapped to each product field
+ */
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+/**
+ * A spreadsheet row after mapping and validation
+ */
+export interface ProductImportRow {
+  /** Row number in the spreadsheet, counting the header as row 1 */
+  readonly rowNumber: number;
+  /** What committing the row will do */
+  readonly action: 'create' | 'update' | 'invalid';
+  /** Validated product data, when the row is valid */
+  readonly data: ProductFormData | null;
+  /** Existing product the row updates, matched by SKU or name + supplier */
+  readonly match: Product | null;
+  /** Raw name and supplier, for previews and error reports */
+  readonly name: string;
+  readonly supplier: string;
+  /** Validation errors */
+  readonly errors: readonly string[];
+}
+
+/**
+ * Outcome of committing a single import row
+ */
+export interface ProductImportResult {
+  /** Row number in the spreadsheet */
+  readonly rowNumber: number;
+  /** Whether the row was saved; partial when the product was saved but its stock adjustment was rejected */
+  readonly status: 'success' | 'partial' | 'failed';
+  /** Server error, when the row or its stock adjustment failed */
+  readonly error?: string;
+}
+
+/**
+ * Change applied to every selected product by a bulk action
+ */
+export type BulkProductAction =
+  | { readonly type: 'set_category'; readonly category: string }
+  | { readonly type: 'set_supplier'; readonly supplier: string }
+  | { readonly type: 'adjust_price'; readonly percent: number }
+  | { readonly type: 'set_minimum_stock_threshold'; readonly minimumStockThreshold: number }
+  | { readonly type: 'delete' };
+
+/**
+ * Kind of bulk action
+ */
+export type BulkProductActionType = BulkProductAction['type'];
+
+/**
+ * Outcome of a bulk action for a single product
+ */
+export interface BulkProductResult {
+  /** Product ID */
+  readonly productId: number;
+  /** Whether the change was saved */
+  readonly status: 'success' | 'failed';
+  /** Server error, when the product failed */
+  readonly error?: string;
+}
+
+/**
+ * Product fields the server can sort by
+ */
+export type ProductSortField = 'name' | 'category' | 'price' | 'stockQuantity' | 'supplier' | 'expiryDate';
+
+/**
+ * DRF-style ordering: a sort field, prefixed with "-" for descending order
+ */
+export type ProductOrdering = ProductSortField | `-${ProductSortField}`;
+
+/**
+ * Typed query for the paginated product list endpoint
+ */
+export interface ProductQuery {
+  /** Page number, starting at 1 */
+  readonly page: number;
+  /** Number of products per page */
+  readonly pageSize: number;
+  /** Sort order */
+  readonly ordering?: ProductOrdering;
+  /** Text to search in product name or description */
+  readonly search?: string;
+  /** Exact barcode (GTIN) to look up */
+  readonly barcode?: string;
+  /** Filter by product category */
+  readonly category?: string;
+  /** Filter by stock status */
+  readonly stockStatus?: ProductFilters['stockStatus'];
+  /** Filter by expiration status */
+  readonly expiryStatus?: ProductFilters['expiryStatus'];
+  /** Location whose stock the stock status filter and ordering use */
+  readonly location?: number;
+}
+
+/**
+ * Column that can be included in a product export
+ */
+export type ProductExportColumn =
+  | 'sku'
+  | 'barcode'
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'supplier'
+  | 'stockQuantity'
+  | 'minimumStockThreshold'
+  | 'price'
+  | 'expiryDate'
+  | 'status';
+
+/**
+ * Paper size of a label sheet
+ */
+export type LabelPaperSize = 'A4' | 'Letter';
+
+/**
+ * Grid of labels on a sheet and how many labels to print
+ */
+export interface LabelSheetSettings {
+  /** Paper size of the sheet */
+  readonly paperSize: LabelPaperSize;
+  /** Labels across the sheet */
+  readonly columns: number;
+  /** Labels down the sheet */
+  readonly rows: number;
+  /** Left and right page margin in millimetres */
+  readonly marginXMm: number;
+  /** Top and bottom page margin in millimetres */
+  readonly marginYMm: number;
+  /** Horizontal gap between labels in millimetres */
+  readonly columnGapMm: number;
+  /** Vertical gap between labels in millimetres */
+  readonly rowGapMm: number;
+  /** Labels printed per product */
+  readonly copies: number;
+  /** Labels already used on the first sheet, left blank */
+  readonly skip: number;
+}
+
+/**
+ * DRF-style paginated response envelope
+ */
+export interface PaginatedResponse<T> {
+  /** Total number of results across all pages */
+  readonly count: number;
+  /** URL of the next page, if any */
+  readonly next: string | null;
+  /** URL of the previous page, if any */
+  readonly previous: string | null;
+  /** Results on the current page */
+  readonly results: readonly T[];
+}
+
+/**
+ * Stock value held in one category
+ */
+export interface CategoryValue {
+  /** Category name */
+  readonly category: string;
+  /** Stock value (price × quantity) */
+  readonly value: number;
+  /** Number of products in the category */
+  readonly productCount: number;
+}
+
+/**
+ * Stock expiring in one period of the expiry timeline
+ */
+export interface ExpiryTimelineBucket {
+  /** "expired", a month as yyyy-MM, or "later" */
+  readonly key: string;
+  /** Display label */
+  readonly label: string;
+  /** Units expiring in the period */
+  readonly quantity: number;
+  /** Value of the units expiring in the period */
+  readonly value: number;
+}
+
+/**
+ * Inventory overview figures for the dashboard
+ */
+export interface InventoryStats {
+  /** Number of products */
+  readonly productCount: number;
+  /** Total stock value (price × quantity) */
+  readonly totalValue: number;
+  /** Products with stock at or below their threshold */
+  readonly lowStockCount: number;
+  /** Products with no stock */
+  readonly outOfStockCount: number;
+  /** Products holding expired stock */
+  readonly expiredCount: number;
+  /** Products holding stock that expires soon */
+  readonly expiringSoonCount: number;
+  /** Stock value per category, highest first */
+  readonly valueByCategory: readonly CategoryValue[];
+  /** Stock by expiry period: expired, the coming months, then later */
+  readonly expiryTimeline: readonly ExpiryTimelineBucket[];
+}
+
+/**
+ * Quantity taken from a single batch when dispensing
+ */
+export interface DispenseAllocation {
+  /** Batch the units are taken from */
+  readonly batchId: number;
+  /** Lot number of the batch */
+  readonly lotNumber: string;
+  /** Expiration date of the batch */
+  readonly expiryDate: string;
+  /** Units taken from the batch */
+  readonly quantity: number;
+}
+
+/**
+ * Request payload for dispensing stock of a product
+ */
+export interface DispenseRequest {
+  /** Product being dispensed */
+  readonly productId: number;
+  /** Total units to dispense */
+  readonly quantity: number;
+  /** Batch split to dispense from */
+  readonly allocations: readonly DispenseAllocation[];
+}
+
+/**
+ * Result of a dispense operation
+ */
+export interface DispenseResult {
+  /** Product with its updated stock and batches */
+  readonly product: Product;
+  /** Batch split the server applied */
+  readonly allocations: readonly DispenseAllocation[];
+  /** Ledger entry recorded for the dispense */
+  readonly movement: StockMovement;
+}
+
+/**
+ * Kind of stock change recorded in the movement ledger
+ */
+export type StockMovementType = 'receive' | 'dispense' | 'adjust' | 'write_off' | 'return' | 'transfer';
+
+/**
+ * Reason code explaining a stock movement
+ */
+export type StockMovementReason =
+  | 'purchase'
+  | 'sale'
+  | 'count_correction'
+  | 'data_entry_error'
+  | 'damaged'
+  | 'expired'
+  | 'customer_return'
+  | 'supplier_return'
+  | 'transfer'
+  | 'other';
+
+/**
+ * Represents an entry in the stock movement ledger of a product
+ */
+export interface StockMovement {
+  /** Unique identifier for the movement */
+  readonly id: number;
+  /** Product whose stock changed */
+  readonly productId: number;
+  /** Batch whose stock changed, if the movement targets a single batch */
+  readonly batchId: number | null;
+  /** Kind of stock change */
+  readonly type: StockMovementType;
+  /** Signed change in units (negative when stock leaves) */
+  readonly quantity: number;
+  /** Reason code for the change */
+  readonly reason: StockMovementReason;
+  /** Free-text explanation */
+  readonly note: string;
+  /** Username of the person who made the change */
+  readonly user: string;
+  /** Date and time when the movement was recorded */
+  readonly createdAt: string;
+}
+
+/**
+ * Units moved for one product over a period, summed on the server
+ */
+export interface StockMovementTotal {
+  /** Product whose stock moved */
+  readonly productId: number;
+  /** Units moved, as a positive number */
+  readonly quantity: number;
+}
+
+/**
+ * Change pushed by the server on the live inventory channel
+ * Every event names the user who made the change.
+ */
+export type InventoryEvent =
+  | { readonly type: 'product_created'; readonly product: Product; readonly user: string }
+  | { readonly type: 'product_updated'; readonly product: Product; readonly user: string }
+  | { readonly type: 'product_deleted'; readonly productId: number; readonly user: string }
+  | {
+      readonly type: 'stock_changed';
+      readonly productId: number;
+      /** Stock after the change */
+      readonly stockQuantity: number;
+      /** Batches after the change */
+      readonly batches: readonly ProductBatch[];
+      /** Product version after the change, sent back as the update precondition */
+      readonly updatedAt: string;
+      /** Movement that changed the stock */
+      readonly movement: StockMovement;
+      readonly user: string;
+    };
+
+/**
+ * Input data structure for recording a stock movement
+ */
+export type StockMovementFormData = Omit<StockMovement, 'id' | 'user' | 'createdAt' | 'batchId'> & {
+  readonly batchId?: number | null;
+};
+
+/**
+ * Stock movement with the product balance after it was applied
+ */
+export interface StockMovementWithBalance extends StockMovement {
+  /** Product stock after the movement */
+  readonly balance: number;
+}
+
 /**
  * Constants related to inventory management
  */
@@ -54,4 +477,64 @@ export const INVENTORY_CONSTANTS = {
   DEFAULT_MIN_STOCK: 10,
   /** Days threshold for "expiring soon" status */
   EXPIRING_SOON_DAYS: 30,
-}
\ No newline at end of file
+  /** Default number of products per page */
+  DEFAULT_PAGE_SIZE: 25,
+  /** Page sizes offered in the product list */
+  PAGE_SIZE_OPTIONS: [10, 25, 50, 100, 500, 1000] as const,
+  /** Months shown individually in the dashboard expiry timeline */
+  EXPIRY_TIMELINE_MONTHS: 12,
+  /** Longest gap between keystrokes typed by a barcode scanner */
+  SCANNER_KEY_INTERVAL_MS: 50,
+  /** Shortest code accepted from a barcode scanner (GTIN-8) */
+  SCANNER_MIN_LENGTH: 8,
+}
+
+/**
+ * Display labels for product statuses
+ */
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  outOfStock: 'Out of Stock',
+  lowStock: 'Low Stock',
+  expired: 'Expired',
+  expiringSoon: 'Expiring Soon',
+  inStock: 'In Stock',
+}
+
+/**
+ * Display labels for stock movement types
+ */
+export const STOCK_MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  receive: 'Received',
+  dispense: 'Dispensed',
+  adjust: 'Adjusted',
+  write_off: 'Written off',
+  return: 'Returned',
+  transfer: 'Transferred',
+}
+
+/**
+ * Display labels for stock movement reason codes
+ */
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  purchase: 'Purchase',
+  sale: 'Sale',
+  count_correction: 'Count correction',
+  data_entry_error: 'Data entry error',
+  damaged: 'Damaged',
+  expired: 'Expired',
+  customer_return: 'Customer return',
+  supplier_return: 'Supplier return',
+  transfer: 'Transfer between locations',
+  other: 'Other',
+}
+
+/**
+ * Display labels for bulk actions
+ */
+export const BULK_PRODUCT_ACTION_LABELS: Record<BulkProductActionType, string> = {
+  set_category: 'Change category',
+  set_supplier: 'Change supplier',
+  adjust_price: 'Adjust price',
+  set_minimum_stock_threshold: 'Set minimum stock',
+  delete: 'Delete',
+}
@@ -0,0 +1,41 @@
+/**
+ * Kind of storage area within a branch
+ */
+export type LocationKind = 'shelf' | 'back_store' | 'fridge';
+
+/**
+ * Storage area holding stock, e.g. the fridge of the Main Street branch
+ */
+export interface Location {
+  /** Unique identifier for the location */
+  readonly id: number;
+  /** Name of the storage area, e.g. Front Shelf */
+  readonly name: string;
+  /** Branch the storage area belongs to */
+  readonly branch: string;
+  /** Kind of storage area */
+  readonly kind: LocationKind;
+}
+
+/**
+ * Stock of a product held at one location
+ */
+export interface ProductStockLevel {
+  /** Location holding the stock */
+  readonly locationId: number;
+  /** Units held at the location */
+  readonly quantity: number;
+  /** Low stock warning threshold for this location */
+  readonly minimumStockThreshold: number;
+  /** Units shipped to this location by a transfer and not yet received */
+  readonly inTransitQuantity: number;
+}
+
+/**
+ * Display labels for location kinds
+ */
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  shelf: 'Front Shelf',
+  back_store: 'Back Store',
+  fridge: 'Fridge',
+};
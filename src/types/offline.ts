@@ -0,0 +1,63 @@
+import type { Product, ProductFormData, StockMovementFormData } from './inventory';
+
+/**
+ * Change saved while offline, sent to the server once it can be reached
+ * Products created offline carry a negative temporary ID until the server
+ * assigns one; later changes to them are rewritten with the real ID.
+ */
+export type OutboxMutation =
+  | { readonly type: 'create_product'; readonly temporaryId: number; readonly data: ProductFormData }
+  | {
+      readonly type: 'update_product';
+      readonly productId: number;
+      readonly data: ProductFormData;
+      /** Product the change was made on; its `updatedAt` is sent to detect conflicts */
+      readonly base: Product;
+    }
+  | { readonly type: 'create_stock_movement'; readonly productId: number; readonly data: StockMovementFormData };
+
+/**
+ * State of a queued change
+ * - pending: waiting to be sent
+ * - conflict: the product was changed on the server after the change was made
+ * - failed: the server rejected the change
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * Queued change as stored in the outbox
+ */
+export interface OutboxEntry {
+  /** Entry ID, increasing in the order the changes were made */
+  readonly id: number;
+  /** Change to send */
+  readonly mutation: OutboxMutation;
+  /** User who made the change; it is only sent while they are signed in */
+  readonly userId: number;
+  /** Key sent with every attempt, so a change the server applied is not applied again */
+  readonly idempotencyKey: string;
+  /** Short description shown in the sync status, e.g. Update "Aspirin" */
+  readonly label: string;
+  /** Date when the change was made */
+  readonly queuedAt: string;
+  /** State of the change */
+  readonly status: OutboxEntryStatus;
+  /** Server response for a failed change */
+  readonly error?: string;
+  /** Product as it is on the server, for a conflicting update */
+  readonly serverProduct?: Product;
+}
+
+/**
+ * Offline storage settings
+ */
+export const OFFLINE_CONSTANTS = {
+  /** IndexedDB database holding the query cache and the outbox */
+  DATABASE_NAME: 'drugstore-offline',
+  /** Bumped when the object stores change */
+  DATABASE_VERSION: 1,
+  /** Time persisted query data stays usable, also the query garbage collection time */
+  CACHE_MAX_AGE_MS: 24 * 60 * 60 * 1000,
+  /** Delay for writing the query cache after it changes */
+  PERSIST_THROTTLE_MS: 1000,
+};
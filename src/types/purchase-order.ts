@@ -0,0 +1,166 @@
+import type { Product } from './inventory';
+
+/**
+ * Lifecycle status of a purchase order
+ */
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+/**
+ * A product line on a purchase order
+ */
+export interface PurchaseOrderLine {
+  /** Unique identifier for the line */
+  readonly id: number;
+  /** Product being ordered */
+  readonly productId: number;
+  /** Product name at the time of ordering */
+  readonly productName: string;
+  /** Product SKU at the time of ordering */
+  readonly sku: string;
+  /** Product barcode (GTIN) at the time of ordering, empty if it has none */
+  readonly barcode: string;
+  /** Units ordered */
+  readonly quantity: number;
+  /** Agreed price per unit in USD */
+  readonly unitPrice: number;
+  /** Units received so far across all deliveries */
+  readonly receivedQuantity: number;
+}
+
+/**
+ * Represents a purchase order sent to a single supplier
+ */
+export interface PurchaseOrder {
+  /** Unique identifier for the order */
+  readonly id: number;
+  /** Human-readable order number, e.g. PO-2024-0012 */
+  readonly number: string;
+  /** Supplier the order is placed with */
+  readonly supplier: string;
+  /** Current status */
+  readonly status: PurchaseOrderStatus;
+  /** Ordered lines */
+  readonly lines: readonly PurchaseOrderLine[];
+  /** Free-text note printed on the order */
+  readonly note: string;
+  /** User who created the order */
+  readonly createdBy: string;
+  /** Date when the order was created */
+  readonly createdAt: string;
+  /** Date when the order was last updated */
+  readonly updatedAt: string;
+  /** Date when the order was sent to the supplier */
+  readonly sentAt: string | null;
+}
+
+/**
+ * Input data for a purchase order line
+ */
+export type PurchaseOrderLineFormData = Pick<PurchaseOrderLine, 'productId' | 'quantity' | 'unitPrice'>;
+
+/**
+ * Input data structure for creating/updating a draft purchase order
+ */
+export interface PurchaseOrderFormData {
+  /** Supplier the order is placed with */
+  readonly supplier: string;
+  /** Free-text note printed on the order */
+  readonly note: string;
+  /** Ordered lines */
+  readonly lines: readonly PurchaseOrderLineFormData[];
+}
+
+/**
+ * Units of a purchase order line received as one lot
+ */
+export interface PurchaseOrderReceiptLine {
+  /** Purchase order line being received */
+  readonly lineId: number;
+  /** Units received */
+  readonly quantity: number;
+  /** Manufacturer lot number */
+  readonly lotNumber: string;
+  /** Expiration date of the lot */
+  readonly expiryDate: string;
+}
+
+/**
+ * Lot being entered in the receiving form
+ */
+export interface ReceivingEntry extends PurchaseOrderReceiptLine {
+  /** Row key in the form */
+  readonly key: number;
+  /** Whether the quantity was counted by scanning rather than prefilled or typed */
+  readonly isScanned: boolean;
+}
+
+/**
+ * Request payload for receiving a delivery against a purchase order
+ * Each line becomes a new batch of the product.
+ */
+export interface PurchaseOrderReceipt {
+  /** Lots received in this delivery */
+  readonly lines: readonly PurchaseOrderReceiptLine[];
+  /** Order status after the delivery */
+  readonly status: Extract<PurchaseOrderStatus, 'partially_received' | 'received'>;
+}
+
+/**
+ * How a delivery compares to the outstanding quantity of a line
+ */
+export type DeliveryFlag = 'none' | 'under' | 'complete' | 'over';
+
+/**
+ * How suggested reorder quantities are calculated
+ * - target: order up to a multiple of the minimum stock threshold
+ * - velocity: order enough to cover a number of days at the recent dispense rate
+ */
+export type ReorderMethod = 'target' | 'velocity';
+
+/**
+ * Settings for suggested reorder quantities
+ */
+export interface ReorderSettings {
+  /** Calculation method */
+  readonly method: ReorderMethod;
+  /** Target stock level as a multiple of the minimum stock threshold */
+  readonly targetMultiple: number;
+  /** Days of dispense history used to measure velocity */
+  readonly velocityDays: number;
+  /** Days of stock the order should cover at the measured velocity */
+  readonly coverDays: number;
+}
+
+/**
+ * A product at or below its threshold with a suggested order quantity
+ */
+export interface ReorderSuggestion {
+  /** Product to reorder */
+  readonly product: Product;
+  /** Current stock */
+  readonly stock: number;
+  /** Average units dispensed per day over the velocity window */
+  readonly dailyVelocity: number;
+  /** Suggested units to order */
+  readonly suggestedQuantity: number;
+}
+
+/**
+ * Display labels for purchase order statuses
+ */
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+/**
+ * Default settings for suggested reorder quantities
+ */
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  method: 'target',
+  targetMultiple: 2,
+  velocityDays: 30,
+  coverDays: 30,
+};
@@ -0,0 +1,145 @@
+import type { StockMovementReason } from './inventory';
+
+/**
+ * Lifecycle status of a stocktake session
+ * - counting: expected quantities are frozen and counts are being entered
+ * - approved: the variances were posted as stock adjustments
+ * - cancelled: abandoned without changing stock
+ */
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+
+/**
+ * A product to be counted, with the stock expected when the session started
+ */
+export interface StocktakeLine {
+  /** Unique identifier for the line */
+  readonly id: number;
+  /** Product being counted */
+  readonly productId: number;
+  /** Product name when the session started */
+  readonly productName: string;
+  /** Product SKU when the session started */
+  readonly sku: string;
+  /** Product barcode when the session started */
+  readonly barcode: string;
+  /** Price per unit in USD, used to value the variance */
+  readonly price: number;
+  /** Units on record when the session started */
+  readonly expectedQuantity: number;
+  /** Units counted, null until the product has been counted */
+  readonly countedQuantity: number | null;
+  /** User who entered the count */
+  readonly countedBy: string | null;
+  /** Date when the count was entered */
+  readonly countedAt: string | null;
+}
+
+/**
+ * Represents a stocktake session over a scope of products
+ * Expected quantities are frozen when the session starts, so sales during
+ * the count do not change what the counts are compared with.
+ */
+export interface Stocktake {
+  /** Unique identifier for the session */
+  readonly id: number;
+  /** Human-readable session number, e.g. ST-2024-0004 */
+  readonly number: string;
+  /** Current status */
+  readonly status: StocktakeStatus;
+  /** Category counted, null for every category */
+  readonly category: string | null;
+  /** Location counted, null for every location */
+  readonly locationId: number | null;
+  /** Products to count */
+  readonly lines: readonly StocktakeLine[];
+  /** Free-text note, e.g. Yearly stocktake 2024 */
+  readonly note: string;
+  /** User who started the session */
+  readonly createdBy: string;
+  /** Date when the session started */
+  readonly createdAt: string;
+  /** Date when the session was last updated */
+  readonly updatedAt: string;
+  /** User who approved the counts */
+  readonly approvedBy: string | null;
+  /** Date when the counts were approved */
+  readonly approvedAt: string | null;
+  /** Reason recorded on the adjustments posted at approval */
+  readonly reason: StockMovementReason | null;
+}
+
+/**
+ * Input data structure for starting a stocktake session
+ */
+export type StocktakeFormData = Pick<Stocktake, 'category' | 'locationId' | 'note'>;
+
+/**
+ * Units one counter counted on a line since they last saved
+ * The server adds them to the saved count, so several counters can count the
+ * same product, e.g. on different shelves, without overwriting each other.
+ */
+export interface StocktakeCount {
+  /** Line being counted */
+  readonly lineId: number;
+  /** Units to add to the saved count, negative to remove; a line not counted yet starts from zero */
+  readonly addedQuantity: number;
+}
+
+/**
+ * Request payload for approving a stocktake
+ * Every counted line whose count differs from the expected quantity becomes
+ * one adjustment movement; uncounted lines are left unchanged.
+ */
+export interface StocktakeApproval {
+  /** Reason recorded on every adjustment */
+  readonly reason: StockMovementReason;
+  /** Note recorded on every adjustment */
+  readonly note: string;
+}
+
+/**
+ * Difference between the counted and expected stock of a line
+ */
+export interface StocktakeVariance {
+  /** Counted line */
+  readonly line: StocktakeLine;
+  /** Counted minus expected units; negative when stock is missing */
+  readonly quantity: number;
+  /** Variance valued at the line price in USD */
+  readonly value: number;
+}
+
+/**
+ * Totals of a stocktake's variance report
+ */
+export interface StocktakeSummary {
+  /** Lines counted so far */
+  readonly countedLines: number;
+  /** Lines not counted yet */
+  readonly uncountedLines: number;
+  /** Value of missing stock in USD, as a positive amount */
+  readonly shrinkageValue: number;
+  /** Value of stock found over the expected quantity in USD */
+  readonly surplusValue: number;
+  /** Surplus minus shrinkage in USD */
+  readonly netValue: number;
+}
+
+/**
+ * Display labels for stocktake statuses
+ */
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Reasons that may be recorded on the adjustments of an approved stocktake
+ */
+export const STOCKTAKE_REASONS: readonly StockMovementReason[] = [
+  'count_correction',
+  'damaged',
+  'expired',
+  'other',
+];
@@ -0,0 +1,47 @@
+/**
+ * Look of a toast
+ */
+export type ToastVariant = 'info' | 'success' | 'error';
+
+/**
+ * Button shown in a toast, e.g. Undo
+ */
+export interface ToastAction {
+  /** Button label */
+  readonly label: string;
+  /** Handler for the button; the toast closes when it is clicked */
+  readonly onClick: () => void;
+}
+
+/**
+ * Short message shown in the corner of the screen
+ */
+export interface Toast {
+  /** Toast ID */
+  readonly id: number;
+  /** Message text */
+  readonly message: string;
+  /** Look of the toast */
+  readonly variant: ToastVariant;
+  /** Optional action button */
+  readonly action?: ToastAction;
+  /** Time in milliseconds before the toast closes by itself */
+  readonly durationMs: number;
+}
+
+/**
+ * Options for showing a toast
+ */
+export type ToastOptions = Partial<Pick<Toast, 'variant' | 'action' | 'durationMs'>>;
+
+/**
+ * Toast defaults
+ */
+export const TOAST_CONSTANTS = {
+  /** Time a toast stays on screen */
+  DEFAULT_DURATION_MS: 5000,
+  /** Time an undo toast stays on screen */
+  UNDO_DURATION_MS: 8000,
+  /** Toasts shown at once; older ones are dropped */
+  MAX_VISIBLE: 4,
+};
@@ -0,0 +1,106 @@
+/**
+ * Lifecycle status of a stock transfer between locations
+ * - requested: asked for by the receiving location, awaiting approval
+ * - approved: the sending location agreed to ship
+ * - shipped: stock left the sending location and is in transit
+ * - received: stock arrived and was added to the receiving location
+ * - cancelled: withdrawn or declined before it was shipped
+ */
+export type TransferStatus = 'requested' | 'approved' | 'shipped' | 'received' | 'cancelled';
+
+/**
+ * Step moving a transfer on to its next status
+ */
+export type TransferAction = 'approve' | 'ship' | 'receive' | 'cancel';
+
+/**
+ * Represents a request to move stock of one product from one location to another
+ */
+export interface StockTransfer {
+  /** Unique identifier for the transfer */
+  readonly id: number;
+  /** Human-readable transfer number, e.g. TR-2024-0031 */
+  readonly number: string;
+  /** Product being moved */
+  readonly productId: number;
+  /** Product name at the time of the request */
+  readonly productName: string;
+  /** Product SKU at the time of the request */
+  readonly sku: string;
+  /** Location the stock is taken from */
+  readonly fromLocationId: number;
+  /** Location the stock is sent to */
+  readonly toLocationId: number;
+  /** Units requested */
+  readonly quantity: number;
+  /** Current status */
+  readonly status: TransferStatus;
+  /** Free-text note, e.g. why the stock is needed */
+  readonly note: string;
+  /** User who requested the transfer */
+  readonly requestedBy: string;
+  /** Date when the transfer was requested */
+  readonly requestedAt: string;
+  /** Date when the transfer was approved */
+  readonly approvedAt: string | null;
+  /** Date when the stock was shipped */
+  readonly shippedAt: string | null;
+  /** Date when the stock was received */
+  readonly receivedAt: string | null;
+  /** Date when the transfer was cancelled */
+  readonly cancelledAt: string | null;
+  /** Date when the transfer was last updated */
+  readonly updatedAt: string;
+}
+
+/**
+ * Input data structure for requesting a transfer
+ */
+export type StockTransferFormData = Pick<
+  StockTransfer,
+  'productId' | 'fromLocationId' | 'toLocationId' | 'quantity' | 'note'
+>;
+
+/**
+ * Filters for the transfer list
+ */
+export interface TransferQuery {
+  /** Only transfers with this status */
+  readonly status?: TransferStatus;
+  /** Only transfers of this product */
+  readonly product?: number;
+  /** Only transfers from or to this location */
+  readonly location?: number;
+}
+
+/**
+ * Display labels for transfer statuses
+ */
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  shipped: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Steps available from each status, in the order they are offered
+ */
+export const TRANSFER_ACTIONS: Record<TransferStatus, readonly TransferAction[]> = {
+  requested: ['approve', 'cancel'],
+  approved: ['ship', 'cancel'],
+  shipped: ['receive'],
+  received: [],
+  cancelled: [],
+};
+
+/**
+ * Button labels for transfer steps
+ */
+export const TRANSFER_ACTION_LABELS: Record<TransferAction, string> = {
+  approve: 'Approve',
+  ship: 'Ship',
+  receive: 'Receive',
+  cancel: 'Cancel',
+};